@@ -0,0 +1,32 @@
+-- Lease-based claims: optional expiry per claim
+-- A claim with expires_at in the past is ignored by conflict checks and swept to 'abandoned'
+
+ALTER TABLE claims ADD COLUMN expires_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_claims_status_expires ON claims(status, expires_at) WHERE expires_at IS NOT NULL;
+
+-- Relax audit_history CHECK constraints.
+-- Actions and entity types are validated by AuditAction/AuditEntityType in application code,
+-- so adding a new action (e.g. claim_expired) no longer needs a table rebuild.
+CREATE TABLE IF NOT EXISTS audit_history_relaxed (
+    id TEXT PRIMARY KEY,
+    session_id TEXT,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    metadata TEXT,
+    created_at TEXT DEFAULT (datetime('now')),
+    FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE SET NULL
+);
+
+INSERT OR IGNORE INTO audit_history_relaxed (id, session_id, action, entity_type, entity_id, metadata, created_at)
+    SELECT id, session_id, action, entity_type, entity_id, metadata, created_at FROM audit_history;
+
+DROP TABLE audit_history;
+
+ALTER TABLE audit_history_relaxed RENAME TO audit_history;
+
+CREATE INDEX IF NOT EXISTS idx_history_session ON audit_history(session_id);
+CREATE INDEX IF NOT EXISTS idx_history_action ON audit_history(action);
+CREATE INDEX IF NOT EXISTS idx_history_entity ON audit_history(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_history_created ON audit_history(created_at);
@@ -0,0 +1,8 @@
+-- Branch and worktree scoping for sessions
+-- project_root is the repository-level root shared by every git worktree;
+-- worktree is the session's own checkout of it (NULL when working in project_root itself)
+
+ALTER TABLE sessions ADD COLUMN branch TEXT;
+ALTER TABLE sessions ADD COLUMN worktree TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_worktree ON sessions(worktree) WHERE worktree IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Delayed auto-release after edits (auto_release_immediate with auto_release_delay_minutes > 0)
+-- One row per session/file; a later edit of the same file pushes release_at back
+
+CREATE TABLE IF NOT EXISTS scheduled_releases (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    release_at TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    UNIQUE (session_id, file_path),
+    FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_releases_due ON scheduled_releases(release_at);
@@ -0,0 +1,21 @@
+-- Preemption requests: a critical waiter asks a claim owner to yield before a deadline
+-- pending → acknowledged (owner answered) | released (owner released) | transferred (deadline passed) | cancelled
+
+CREATE TABLE IF NOT EXISTS preempt_requests (
+    id TEXT PRIMARY KEY,
+    claim_id TEXT NOT NULL,
+    requester_session_id TEXT NOT NULL,
+    owner_session_id TEXT NOT NULL,
+    intent TEXT NOT NULL,
+    priority INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    deadline_at TEXT NOT NULL,
+    created_at TEXT DEFAULT (datetime('now')),
+    resolved_at TEXT,
+    FOREIGN KEY (claim_id) REFERENCES claims(id) ON DELETE CASCADE,
+    FOREIGN KEY (requester_session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+    FOREIGN KEY (owner_session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_preempt_requests_status ON preempt_requests(status, deadline_at);
+CREATE INDEX IF NOT EXISTS idx_preempt_requests_claim ON preempt_requests(claim_id);
@@ -0,0 +1,4 @@
+-- Claim modes: 'read' claims are shared (they never conflict with each other),
+-- 'write' claims are exclusive. Existing claims keep their exclusive behavior.
+
+ALTER TABLE claims ADD COLUMN mode TEXT NOT NULL DEFAULT 'write' CHECK (mode IN ('read', 'write'));
@@ -0,0 +1,26 @@
+-- Full-text search over working memory (collab_memory_recall query).
+-- External-content FTS5 index on key + content, kept in sync by triggers.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS working_memory_fts USING fts5(
+  key,
+  content,
+  content = 'working_memory',
+  content_rowid = 'id',
+  tokenize = 'porter unicode61'
+);
+
+-- Index memories saved before this migration
+INSERT INTO working_memory_fts(working_memory_fts) VALUES ('rebuild');
+
+CREATE TRIGGER IF NOT EXISTS working_memory_fts_insert AFTER INSERT ON working_memory BEGIN
+  INSERT INTO working_memory_fts(rowid, key, content) VALUES (new.id, new.key, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS working_memory_fts_delete AFTER DELETE ON working_memory BEGIN
+  INSERT INTO working_memory_fts(working_memory_fts, rowid, key, content) VALUES ('delete', old.id, old.key, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS working_memory_fts_update AFTER UPDATE OF key, content ON working_memory BEGIN
+  INSERT INTO working_memory_fts(working_memory_fts, rowid, key, content) VALUES ('delete', old.id, old.key, old.content);
+  INSERT INTO working_memory_fts(rowid, key, content) VALUES (new.id, new.key, new.content);
+END;
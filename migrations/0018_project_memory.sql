@@ -0,0 +1,70 @@
+-- Project-scoped working memory: rows with scope = 'project' belong to a project_root rather than
+-- a session (session_id is NULL), so they survive their author and every session in the project
+-- recalls them. created_by / updated_by record the sessions that first and last wrote them.
+-- SQLite cannot drop NOT NULL from session_id in place, so the table is rebuilt.
+
+CREATE TABLE IF NOT EXISTS working_memory_v2 (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT,         -- NULL for project-scoped rows
+  scope TEXT NOT NULL DEFAULT 'session' CHECK (scope IN ('session', 'project')),
+  project_root TEXT,       -- Set for project-scoped rows
+  category TEXT NOT NULL,
+  key TEXT NOT NULL,
+  content TEXT NOT NULL,
+  priority INTEGER DEFAULT 50,
+  pinned INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME,
+  related_claim_id TEXT,
+  related_decision_id TEXT,
+  metadata TEXT,
+  created_by TEXT,         -- Authoring session (project scope, no FK so the row outlives it)
+  updated_by TEXT,         -- Session that last wrote the row (project scope)
+  UNIQUE(session_id, category, key),
+  CHECK ((scope = 'session' AND session_id IS NOT NULL) OR (scope = 'project' AND project_root IS NOT NULL)),
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+  FOREIGN KEY (related_claim_id) REFERENCES claims(id) ON DELETE SET NULL,
+  FOREIGN KEY (related_decision_id) REFERENCES decisions(id) ON DELETE SET NULL
+);
+
+INSERT INTO working_memory_v2
+  (id, session_id, category, key, content, priority, pinned, created_at, updated_at, expires_at, related_claim_id, related_decision_id, metadata)
+SELECT id, session_id, category, key, content, priority, pinned, created_at, updated_at, expires_at, related_claim_id, related_decision_id, metadata
+FROM working_memory;
+
+DROP TABLE working_memory;
+
+ALTER TABLE working_memory_v2 RENAME TO working_memory;
+
+CREATE INDEX IF NOT EXISTS idx_working_memory_session
+  ON working_memory(session_id, priority DESC);
+
+CREATE INDEX IF NOT EXISTS idx_working_memory_pinned
+  ON working_memory(session_id, pinned DESC, priority DESC);
+
+CREATE INDEX IF NOT EXISTS idx_working_memory_category
+  ON working_memory(session_id, category, priority DESC);
+
+CREATE INDEX IF NOT EXISTS idx_working_memory_expires
+  ON working_memory(expires_at) WHERE expires_at IS NOT NULL;
+
+-- One project-scoped row per project_root + category + key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_working_memory_project
+  ON working_memory(project_root, category, key) WHERE scope = 'project';
+
+-- The FTS triggers were dropped with the old table
+CREATE TRIGGER IF NOT EXISTS working_memory_fts_insert AFTER INSERT ON working_memory BEGIN
+  INSERT INTO working_memory_fts(rowid, key, content) VALUES (new.id, new.key, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS working_memory_fts_delete AFTER DELETE ON working_memory BEGIN
+  INSERT INTO working_memory_fts(working_memory_fts, rowid, key, content) VALUES ('delete', old.id, old.key, old.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS working_memory_fts_update AFTER UPDATE OF key, content ON working_memory BEGIN
+  INSERT INTO working_memory_fts(working_memory_fts, rowid, key, content) VALUES ('delete', old.id, old.key, old.content);
+  INSERT INTO working_memory_fts(rowid, key, content) VALUES (new.id, new.key, new.content);
+END;
+
+INSERT INTO working_memory_fts(working_memory_fts) VALUES ('rebuild');
@@ -0,0 +1,29 @@
+-- Working-memory revisions: the previous version of a memory is kept when a save overwrites it
+-- or a clear deletes it, so collab_memory_restore can roll a key back or undelete it.
+-- Rows older than the retention window are pruned.
+
+CREATE TABLE IF NOT EXISTS working_memory_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  memory_id INTEGER NOT NULL,   -- working_memory.id of the replaced row (no FK, the row may be gone)
+  session_id TEXT,              -- Owning session (session scope)
+  scope TEXT NOT NULL DEFAULT 'session' CHECK (scope IN ('session', 'project')),
+  project_root TEXT,            -- Owning project (project scope)
+  category TEXT NOT NULL,
+  key TEXT NOT NULL,
+  content TEXT NOT NULL,
+  priority INTEGER,
+  pinned INTEGER,
+  metadata TEXT,
+  change TEXT NOT NULL CHECK (change IN ('updated', 'deleted')),
+  changed_by TEXT,              -- Session whose save or clear replaced this version
+  changed_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_revisions_session_key
+  ON working_memory_revisions(session_id, key, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_memory_revisions_project_key
+  ON working_memory_revisions(project_root, key, changed_at DESC) WHERE scope = 'project';
+
+CREATE INDEX IF NOT EXISTS idx_memory_revisions_changed_at
+  ON working_memory_revisions(changed_at);
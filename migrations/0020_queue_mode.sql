@@ -0,0 +1,4 @@
+-- Queue modes: a waiter asked for a read or a write claim, and whoever hands
+-- the claim over must give it the same mode. Existing entries were write waiters.
+
+ALTER TABLE claim_queue ADD COLUMN mode TEXT NOT NULL DEFAULT 'write' CHECK (mode IN ('read', 'write'));
@@ -0,0 +1,12 @@
+#!/bin/sh
+# PostToolUse helper (auto_release_immediate). Prefer a local bin; fall back to npx.
+if [ "${SESSION_COLLAB_HOOK_DISABLE:-}" = "1" ]; then
+  echo '{"continue":true}'
+  exit 0
+fi
+
+if command -v session-collab-posttool >/dev/null 2>&1; then
+  exec session-collab-posttool
+fi
+
+exec npx -y -p session-collab-mcp@latest session-collab-posttool
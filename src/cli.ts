@@ -1,12 +1,18 @@
 #!/usr/bin/env node
 // Local MCP server for session collaboration
 // Runs via stdio, stores data in ~/.session-collab/collab.db (or legacy ~/.claude/session-collab)
+// With --hub URL, tool calls go to a shared session-collab-http hub instead of the local database
+// `session-collab-mcp migrate [--status|--dry-run]` inspects or applies schema migrations and exits
 
 import { createInterface } from 'readline';
 import { createLocalDatabase, getDefaultDbPath } from './db/sqlite-adapter.js';
-import { loadMigrationsFromDir } from './db/migrations.js';
+import { getMigrationStatus, loadMigrationFiles, runMigrations } from './db/migrations.js';
+import type { Migration } from './db/migrations.js';
 import { handleMcpRequest, getMcpTools } from './mcp/server.js';
-import { VERSION, SERVER_NAME, SERVER_INSTRUCTIONS } from './constants.js';
+import { createHubToolHandler, defaultMachineId } from './mcp/hub-client.js';
+import type { ToolHandler } from './mcp/hub-client.js';
+import { startClaimSweepTimer } from './mcp/claim-lifecycle.js';
+import { VERSION, SERVER_NAME, SERVER_INSTRUCTIONS, HUB_MODE_INSTRUCTIONS } from './constants.js';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -14,24 +20,51 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 
 // Load migrations in filename order. Historical duplicate numeric prefixes are
 // preserved, so the full filename defines the execution order.
-function loadMigrations(): string[] {
+function loadMigrations(): Migration[] {
   const migrationsDir = join(__dirname, '..', 'migrations');
-  return loadMigrationsFromDir(migrationsDir);
+  return loadMigrationFiles(migrationsDir);
 }
 
 // Parse command line arguments
-function parseArgs(): { dbPath?: string } {
+function parseArgs(): { command?: 'migrate'; dbPath?: string; hubUrl?: string; status: boolean; dryRun: boolean } {
   const args = process.argv.slice(2);
+  const command = args[0] === 'migrate' ? 'migrate' : undefined;
   let dbPath: string | undefined;
+  let hubUrl = process.env.SESSION_COLLAB_HUB_URL?.trim() || undefined;
+  let status = false;
+  let dryRun = false;
 
-  for (let i = 0; i < args.length; i++) {
+  for (let i = command ? 1 : 0; i < args.length; i++) {
     if (args[i] === '--db' && args[i + 1]) {
       dbPath = args[i + 1];
       i++;
+    } else if (args[i] === '--hub' && args[i + 1]) {
+      hubUrl = args[i + 1];
+      i++;
+    } else if (args[i] === '--status') {
+      status = true;
+    } else if (args[i] === '--dry-run') {
+      dryRun = true;
     }
   }
 
-  return { dbPath };
+  return { command, dbPath, hubUrl, status, dryRun };
+}
+
+async function runMigrateCommand(dbPath: string | undefined, options: { status: boolean; dryRun: boolean }): Promise<void> {
+  const db = createLocalDatabase(dbPath);
+  try {
+    const migrations = loadMigrations();
+    const result = options.status
+      ? await getMigrationStatus(db, migrations)
+      : await runMigrations(db, migrations, { dryRun: options.dryRun });
+    console.log(JSON.stringify({ db_path: dbPath ?? getDefaultDbPath(), ...result }, null, 2));
+    if (result.drifted.length > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    db.close();
+  }
 }
 
 // JSON-RPC response helpers
@@ -43,25 +76,55 @@ function jsonRpcError(id: number | string | null, code: number, message: string)
   return JSON.stringify({ jsonrpc: '2.0', id, error: { code, message } });
 }
 
-async function main(): Promise<void> {
-  const { dbPath } = parseArgs();
+async function openLocalTools(dbPath: string | undefined): Promise<{ callTool: ToolHandler; close: () => void }> {
   const db = createLocalDatabase(dbPath);
 
-  // Initialize schema
-  try {
-    const migrations = loadMigrations();
-    db.initSchema(migrations);
-  } catch (error) {
-    // Schema might already exist, that's fine
-    if (!(error instanceof Error && error.message.includes('already exists'))) {
-      console.error('Warning: Migration error:', error);
-    }
+  // Apply pending migrations; checksum drift or a failed migration stops startup
+  const { ran } = await runMigrations(db, loadMigrations());
+  if (ran.length > 0) {
+    console.error(`Applied migrations: ${ran.join(', ')}`);
   }
 
   // Log startup to stderr (stdout is for JSON-RPC)
   console.error(`Session Collab MCP Server (local)`);
   console.error(`Database: ${dbPath ?? getDefaultDbPath()}`);
 
+  const stopSweepTimer = startClaimSweepTimer(db);
+  return {
+    callTool: (name, args) => handleMcpRequest(db, name, args),
+    close: () => {
+      stopSweepTimer();
+      db.close();
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  const { command, dbPath, hubUrl, status, dryRun } = parseArgs();
+  if (command === 'migrate') {
+    await runMigrateCommand(dbPath, { status, dryRun });
+    return;
+  }
+
+  let tools: { callTool: ToolHandler; close: () => void };
+
+  if (hubUrl) {
+    const machineId = defaultMachineId();
+    tools = {
+      callTool: createHubToolHandler({
+        hubUrl,
+        token: process.env.SESSION_COLLAB_HTTP_TOKEN,
+        machineId,
+        projectKey: process.env.SESSION_COLLAB_PROJECT_KEY?.trim() || undefined,
+      }),
+      close: () => {},
+    };
+    console.error(`Session Collab MCP Server (hub client)`);
+    console.error(`Hub: ${hubUrl} (machine_id: ${machineId})`);
+  } else {
+    tools = await openLocalTools(dbPath);
+  }
+
   const rl = createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -87,7 +150,7 @@ async function main(): Promise<void> {
               name: SERVER_NAME,
               version: VERSION,
             },
-            instructions: SERVER_INSTRUCTIONS,
+            instructions: hubUrl ? `${SERVER_INSTRUCTIONS}\n${HUB_MODE_INSTRUCTIONS}` : SERVER_INSTRUCTIONS,
           });
           console.log(response);
           break;
@@ -106,11 +169,7 @@ async function main(): Promise<void> {
         }
 
         case 'tools/call': {
-          const result = await handleMcpRequest(
-            db,
-            params.name,
-            params.arguments ?? {}
-          );
+          const result = await tools.callTool(params.name, params.arguments ?? {});
           const response = jsonRpcResponse(id, result);
           console.log(response);
           break;
@@ -129,7 +188,7 @@ async function main(): Promise<void> {
   });
 
   rl.on('close', () => {
-    db.close();
+    tools.close();
     process.exit(0);
   });
 }
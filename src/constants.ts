@@ -22,6 +22,24 @@ export const SERVER_NAME = 'session-collab-mcp';
 /** Idle sessions without heartbeat become inactive after this many minutes. */
 export const DEFAULT_STALE_SESSION_MINUTES = 15;
 
+/** completed_summary of claims abandoned because their session went inactive; resume_from revives these. */
+export const STALE_SESSION_CLAIM_SUMMARY = 'Session went inactive';
+
+/** Lease length used by collab_claim renew when ttl_minutes is omitted. */
+export const DEFAULT_CLAIM_TTL_MINUTES = 30;
+
+/** Hard cap for a single claim lease (24 hours). */
+export const MAX_CLAIM_TTL_MINUTES = 24 * 60;
+
+/** Time a claim owner has to acknowledge or release before a preempt moves the claim. */
+export const DEFAULT_PREEMPT_DEADLINE_MINUTES = 10;
+
+/** Longest deadline a preempt may give the claim owner (2 hours). */
+export const MAX_PREEMPT_DEADLINE_MINUTES = 120;
+
+/** Claim priority at or above which a waiter may preempt (getPriorityLevel's "critical"). */
+export const CRITICAL_PRIORITY = 90;
+
 /** Max characters stored per working-memory content field. */
 export const MAX_MEMORY_CONTENT_CHARS = 800;
 
@@ -31,6 +49,18 @@ export const DEFAULT_RECALL_MAX_ITEMS = 8;
 /** Hard cap for memory recall max_items. */
 export const MAX_RECALL_MAX_ITEMS = 20;
 
+/** How long overwritten or cleared memories stay restorable with collab_memory_restore. */
+export const MEMORY_REVISION_RETENTION_HOURS = 72;
+
+/** Largest max_tokens budget accepted by memory recall and context restore. */
+export const MAX_MEMORY_TOKEN_BUDGET = 20_000;
+
+/** Estimated tokens a memory costs in a response beyond its key and content (field names, quoting). */
+export const MEMORY_TOKEN_OVERHEAD = 12;
+
+/** A memory is shortened to fill the rest of a budget only if at least this many content tokens remain. */
+export const MIN_SHORTENED_MEMORY_TOKENS = 24;
+
 /** Keep short: hosts also inject skill docs; long instructions burn tokens every session. */
 export const SERVER_INSTRUCTIONS = `
 Session Collaboration: multi-agent file claims + short working memory.
@@ -44,3 +74,7 @@ Workflow: start (reuses same name+project) → collab_claim create (atomic; chec
 - memory: short finding/decision only (rejected if over cap). Not a long-term vault — use AI-Memory for durable prefs.
 - Do not overwrite another session's claimed work. Claude Code PreToolUse can deny conflicting Write/Edit.
 `.trim();
+
+/** Appended to SERVER_INSTRUCTIONS when the stdio server proxies to a hub (`--hub URL`). */
+export const HUB_MODE_INSTRUCTIONS =
+  'Hub mode: sessions, claims and memory are shared across machines through the hub; machine_id shows where each claim lives. The PreToolUse hook only sees local claims.';
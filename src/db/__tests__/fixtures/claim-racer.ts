@@ -0,0 +1,34 @@
+// Child process for the multi-process claim race: one stdio-server-like process per agent.
+// Usage: claim-racer.ts <db-path> <session-name>
+// Prints {"ready":true} once its session exists, then claims on the first stdin line.
+
+import { createInterface } from 'readline';
+import { createLocalDatabase } from '../../sqlite-adapter.js';
+import { createSession } from '../../queries.js';
+import { handleClaimTool } from '../../../mcp/tools/claim.js';
+
+async function main(): Promise<void> {
+  const [dbPath, name] = process.argv.slice(2);
+  const db = createLocalDatabase(dbPath);
+  const session = await createSession(db, { name, project_root: '/race' });
+
+  console.log(JSON.stringify({ ready: true }));
+  const lines = createInterface({ input: process.stdin });
+  await new Promise<void>((resolve) => lines.once('line', () => resolve()));
+  lines.close();
+
+  const result = await handleClaimTool(db, 'collab_claim', {
+    action: 'create',
+    session_id: session.id,
+    files: ['src/contended.ts'],
+    intent: `${name} edits the contended file`,
+  });
+  const response = JSON.parse(result.content[0].text) as { status?: string; claim_id?: string };
+  console.log(JSON.stringify({ session_id: session.id, status: response.status ?? null, claim_id: response.claim_id ?? null }));
+  db.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
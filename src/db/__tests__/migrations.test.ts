@@ -1,10 +1,18 @@
-import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
 import { tmpdir } from 'os';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
 import { afterEach, describe, expect, it } from 'vitest';
 import { createLocalDatabase } from '../sqlite-adapter.js';
-import { listMigrationFiles, loadMigrationsFromDir } from '../migrations.js';
+import {
+  MigrationDriftError,
+  getMigrationStatus,
+  listMigrationFiles,
+  loadMigrationFiles,
+  loadMigrationsFromDir,
+  runMigrations,
+  splitMigrationStatements,
+} from '../migrations.js';
 import { handleSessionTool } from '../../mcp/tools/session.js';
 import { handleClaimTool } from '../../mcp/tools/claim.js';
 import { handleMemoryTool } from '../../mcp/tools/memory.js';
@@ -37,6 +45,22 @@ describe('Migration loader', () => {
     ]);
   });
 
+  it('should keep trigger bodies in one statement', () => {
+    const sql = [
+      '-- trigger',
+      'CREATE TABLE t (a TEXT);',
+      'CREATE TRIGGER t_copy AFTER INSERT ON t BEGIN',
+      '  INSERT INTO log VALUES (new.a);',
+      '  DELETE FROM log WHERE a IS NULL;',
+      'END;',
+      'SELECT 1;',
+    ].join('\n');
+
+    const statements = splitMigrationStatements(sql);
+    expect(statements).toHaveLength(3);
+    expect(statements[1]).toMatch(/^CREATE TRIGGER t_copy[\s\S]*DELETE FROM log WHERE a IS NULL;\s*END$/);
+  });
+
   it('should support core session, claim, config, memory, and status flows on a fresh database', async () => {
     const dir = mkdtempSync(join(tmpdir(), 'session-collab-db-'));
     cleanupPaths.push(dir);
@@ -45,7 +69,7 @@ describe('Migration loader', () => {
     const db = createLocalDatabase(dbPath);
 
     try {
-      db.initSchema(loadMigrationsFromDir(MIGRATIONS_DIR));
+      await runMigrations(db, loadMigrationFiles(MIGRATIONS_DIR));
 
       const startResult = await handleSessionTool(db, 'collab_session_start', {
         project_root: '/tmp/project',
@@ -127,3 +151,117 @@ describe('Migration loader', () => {
     }
   });
 });
+
+describe('Versioned migration runner', () => {
+  function tempDb(): ReturnType<typeof createLocalDatabase> {
+    const dir = mkdtempSync(join(tmpdir(), 'session-collab-db-'));
+    cleanupPaths.push(dir);
+    return createLocalDatabase(join(dir, 'collab.db'));
+  }
+
+  function tempMigrations(files: Record<string, string>): string {
+    const dir = mkdtempSync(join(tmpdir(), 'session-collab-migrations-'));
+    cleanupPaths.push(dir);
+    for (const [name, sql] of Object.entries(files)) {
+      writeFileSync(join(dir, name), sql);
+    }
+    return dir;
+  }
+
+  async function appliedNames(db: ReturnType<typeof createLocalDatabase>): Promise<string[]> {
+    const rows = await db.prepare('SELECT name FROM schema_migrations ORDER BY rowid').all<{ name: string }>();
+    return rows.results.map((row) => row.name);
+  }
+
+  it('applies pending migrations once, in filename order', async () => {
+    const db = tempDb();
+    try {
+      const migrations = loadMigrationFiles(MIGRATIONS_DIR);
+      const first = await runMigrations(db, migrations);
+      expect(first.baseline).toBe(false);
+      expect(first.ran).toEqual(migrations.map((m) => m.name));
+
+      const names = await appliedNames(db);
+      expect(names.indexOf('0002_auth.sql')).toBeLessThan(names.indexOf('0002_session_status.sql'));
+
+      const second = await runMigrations(db, migrations);
+      expect(second.ran).toEqual([]);
+      expect(second.pending).toEqual([]);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('reports pending migrations on a dry run without touching the database', async () => {
+    const db = tempDb();
+    try {
+      const result = await runMigrations(db, loadMigrationFiles(MIGRATIONS_DIR), { dryRun: true });
+      expect(result.dry_run).toBe(true);
+      expect(result.pending).toContain('0001_init.sql');
+      expect(result.ran).toEqual([]);
+
+      const table = await db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'")
+        .first();
+      expect(table).toBeNull();
+    } finally {
+      db.close();
+    }
+  });
+
+  it('records a database created before schema_migrations as a baseline', async () => {
+    const db = tempDb();
+    try {
+      // Pre-versioning startup path: replay everything, ignoring "already exists"
+      db.initSchema(loadMigrationsFromDir(MIGRATIONS_DIR));
+      db.initSchema(loadMigrationsFromDir(MIGRATIONS_DIR));
+
+      const migrations = loadMigrationFiles(MIGRATIONS_DIR);
+      const status = await getMigrationStatus(db, migrations);
+      expect(status.baseline).toBe(true);
+
+      const result = await runMigrations(db, migrations);
+      expect(result.ran).toHaveLength(migrations.length);
+      expect((await getMigrationStatus(db, migrations)).baseline).toBe(false);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('refuses to run when an applied migration changed on disk', async () => {
+    const dir = tempMigrations({ '0001_init.sql': 'CREATE TABLE widgets (id TEXT PRIMARY KEY);' });
+    const db = tempDb();
+    try {
+      await runMigrations(db, loadMigrationFiles(dir));
+
+      appendFileSync(join(dir, '0001_init.sql'), '\nCREATE INDEX idx_widgets ON widgets(id);');
+      writeFileSync(join(dir, '0002_next.sql'), 'CREATE TABLE gadgets (id TEXT PRIMARY KEY);');
+      const changed = loadMigrationFiles(dir);
+
+      expect((await getMigrationStatus(db, changed)).drifted).toEqual(['0001_init.sql']);
+      await expect(runMigrations(db, changed)).rejects.toBeInstanceOf(MigrationDriftError);
+      expect(await appliedNames(db)).toEqual(['0001_init.sql']);
+    } finally {
+      db.close();
+    }
+  });
+
+  it('rolls back a failing migration and does not record it', async () => {
+    const dir = tempMigrations({
+      '0001_init.sql': 'CREATE TABLE widgets (id TEXT PRIMARY KEY);',
+      '0002_broken.sql': 'CREATE TABLE gadgets (id TEXT);\nALTER TABLE widgets ADD COLUMN id TEXT;',
+    });
+    const db = tempDb();
+    try {
+      await expect(runMigrations(db, loadMigrationFiles(dir))).rejects.toThrow('Migration 0002_broken.sql failed');
+      expect(await appliedNames(db)).toEqual(['0001_init.sql']);
+
+      const gadgets = await db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'gadgets'")
+        .first();
+      expect(gadgets).toBeNull();
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -12,7 +12,19 @@ import {
   checkConflicts,
   releaseClaim,
   releaseClaimByFile,
+  renewClaim,
+  expireClaimLeases,
+  listAuditHistory,
+  joinQueue,
+  listNotificationsAfter,
+  resolveNotificationSeq,
+  recallMemory,
+  saveMemory,
+  createUser,
+  createApiToken,
+  revokeApiToken,
 } from '../queries.js';
+import type { DatabaseAdapter, PreparedStatement } from '../sqlite-adapter.js';
 import {
   sendMessage,
   listMessages,
@@ -344,6 +356,186 @@ describe('Claim Queries', () => {
       expect(fetched!.files).not.toContain('a.ts');
     });
   });
+
+  describe('claim leases', () => {
+    async function lapse(claimId: string): Promise<void> {
+      await db
+        .prepare('UPDATE claims SET expires_at = ? WHERE id = ?')
+        .bind(new Date(Date.now() - 60_000).toISOString(), claimId)
+        .run();
+    }
+
+    it('should store expires_at when ttl_minutes is given', async () => {
+      const before = Date.now();
+      const { claim } = await createClaim(db, {
+        session_id: sessionId,
+        files: ['lease.ts'],
+        intent: 'Leased work',
+        ttl_minutes: 10,
+      });
+
+      const fetched = await getClaim(db, claim.id);
+      const expiresAt = Date.parse(fetched!.expires_at!);
+      expect(expiresAt).toBeGreaterThanOrEqual(before + 10 * 60_000);
+      expect(expiresAt).toBeLessThanOrEqual(Date.now() + 10 * 60_000);
+    });
+
+    it('should leave expires_at null without a ttl', async () => {
+      const { claim } = await createClaim(db, {
+        session_id: sessionId,
+        files: ['forever.ts'],
+        intent: 'No lease',
+      });
+
+      expect(claim.expires_at).toBeNull();
+      expect((await getClaim(db, claim.id))!.expires_at).toBeNull();
+    });
+
+    it('should ignore expired leases in checkConflicts', async () => {
+      const other = await createSession(db, { project_root: '/test', name: 'other' });
+      const { claim } = await createClaim(db, {
+        session_id: sessionId,
+        files: ['lease.ts'],
+        symbols: [{ file: 'lease.ts', symbols: ['run'] }],
+        intent: 'Leased work',
+        ttl_minutes: 5,
+      });
+
+      expect(await checkConflicts(db, ['lease.ts'], other.id)).not.toHaveLength(0);
+
+      await lapse(claim.id);
+      expect(await checkConflicts(db, ['lease.ts'], other.id)).toHaveLength(0);
+      expect(
+        await checkConflicts(db, ['lease.ts'], other.id, [{ file: 'lease.ts', symbols: ['run'] }])
+      ).toHaveLength(0);
+    });
+
+    it('should renew an active lease and reject inactive claims', async () => {
+      const { claim } = await createClaim(db, {
+        session_id: sessionId,
+        files: ['lease.ts'],
+        intent: 'Leased work',
+        ttl_minutes: 1,
+      });
+
+      const renewed = await renewClaim(db, claim.id, 60);
+      expect(Date.parse(renewed!)).toBeGreaterThan(Date.parse(claim.expires_at!));
+
+      await releaseClaim(db, claim.id, { status: 'completed' });
+      expect(await renewClaim(db, claim.id, 60)).toBeNull();
+    });
+
+    it('should abandon lapsed leases and log claim_expired', async () => {
+      const { claim: lapsed } = await createClaim(db, {
+        session_id: sessionId,
+        files: ['old.ts'],
+        intent: 'Crashed agent',
+        ttl_minutes: 5,
+      });
+      const { claim: live } = await createClaim(db, {
+        session_id: sessionId,
+        files: ['new.ts'],
+        intent: 'Still working',
+        ttl_minutes: 5,
+      });
+      await lapse(lapsed.id);
+
+      await saveMemory(db, sessionId, { category: 'state', key: `claim_${lapsed.id}`, content: 'Working on old.ts' });
+
+      const result = await expireClaimLeases(db);
+      expect(result.expired_claims).toBe(1);
+      expect(await recallMemory(db, sessionId, { key: `claim_${lapsed.id}` })).toEqual([]);
+      expect(result.details[0]).toMatchObject({ claim_id: lapsed.id, files: ['old.ts'] });
+
+      expect((await getClaim(db, lapsed.id))!.status).toBe('abandoned');
+      expect((await getClaim(db, live.id))!.status).toBe('active');
+
+      const history = await listAuditHistory(db, { action: 'claim_expired' });
+      expect(history).toHaveLength(1);
+      expect(history[0].entity_id).toBe(lapsed.id);
+
+      // Second sweep is a no-op
+      expect((await expireClaimLeases(db)).expired_claims).toBe(0);
+    });
+
+    it('should leave a lease renewed between the sweep reading and releasing it', async () => {
+      const { claim } = await createClaim(db, {
+        session_id: sessionId,
+        files: ['race.ts'],
+        intent: 'Renewing agent',
+        ttl_minutes: 5,
+      });
+      const waiter = await createSession(db, { project_root: '/test', name: 'waiter' });
+      await joinQueue(db, { claim_id: claim.id, session_id: waiter.id, intent: 'Next' });
+      await lapse(claim.id);
+
+      // The renew commits right after the sweep's SELECT returns
+      const renewAfterRead = (statement: PreparedStatement): PreparedStatement => ({
+        bind: (...values: unknown[]) => renewAfterRead(statement.bind(...values)),
+        first: <T>() => statement.first<T>(),
+        all: async <T>() => {
+          const rows = await statement.all<T>();
+          await renewClaim(db, claim.id, 60);
+          return rows;
+        },
+        run: () => statement.run(),
+      });
+      const racing: DatabaseAdapter = {
+        prepare: (sql) => (sql.includes('c.expires_at <= ?') ? renewAfterRead(db.prepare(sql)) : db.prepare(sql)),
+        batch: (statements) => db.batch(statements),
+        transaction: (fn) => db.transaction(fn),
+      };
+
+      expect((await expireClaimLeases(racing)).expired_claims).toBe(0);
+      expect((await getClaim(db, claim.id))!.status).toBe('active');
+      expect(await listAuditHistory(db, { action: 'claim_expired' })).toEqual([]);
+      expect(await listNotificationsAfter(db, waiter.id, null)).toEqual([]);
+    });
+  });
+});
+
+describe('Notification cursor', () => {
+  let db: TestDatabase;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    db = createTestDatabase();
+    sessionId = (await createSession(db, { name: 'listener', project_root: '/test' })).id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  async function insert(id: string, createdAt: string): Promise<void> {
+    await db
+      .prepare(
+        "INSERT INTO notifications (id, session_id, type, title, message, created_at) VALUES (?, ?, 'session_message', ?, ?, ?)"
+      )
+      .bind(id, sessionId, id, id, createdAt)
+      .run();
+  }
+
+  it('does not skip a later notification that shares the millisecond and sorts lower by id', async () => {
+    const at = '2030-01-01T00:00:00.000Z';
+    await insert('zzz', at);
+    const [first] = await listNotificationsAfter(db, sessionId, null);
+
+    await insert('aaa', at);
+    const after = await listNotificationsAfter(db, sessionId, first.seq);
+    expect(after.map((notification) => notification.id)).toEqual(['aaa']);
+  });
+
+  it('resumes from a known event id and otherwise from the latest notification', async () => {
+    await insert('first', '2030-01-01T00:00:00.000Z');
+    const [first] = await listNotificationsAfter(db, sessionId, null);
+    await insert('second', '2030-01-01T00:00:00.000Z');
+
+    expect(await resolveNotificationSeq(db, sessionId, String(first.seq))).toBe(first.seq);
+    expect(await resolveNotificationSeq(db, sessionId, 'first')).toBe(first.seq);
+    const latest = await resolveNotificationSeq(db, sessionId, 'unknown');
+    expect(await listNotificationsAfter(db, sessionId, latest)).toEqual([]);
+  });
 });
 
 describe('Conflict Detection', () => {
@@ -378,6 +570,34 @@ describe('Conflict Detection', () => {
       expect(conflicts[0].conflict_level).toBe('file');
     });
 
+    it('should scope conflicts to one project and mark branches', async () => {
+      const featureSession = await createSession(db, {
+        project_root: '/test',
+        worktree: '/test-feature',
+        branch: 'feature',
+      });
+      const otherProject = await createSession(db, { project_root: '/elsewhere' });
+      await createClaim(db, { session_id: featureSession.id, files: ['src/app.ts'], intent: 'Feature work' });
+      await createClaim(db, { session_id: otherProject.id, files: ['src/app.ts'], intent: 'Unrelated' });
+
+      const scoped = await checkConflicts(db, ['src/app.ts'], session2Id, undefined, {
+        project_root: '/test',
+        branch: 'main',
+      });
+      expect(scoped.map((c) => [c.session_id, c.session_branch, c.branch_scope])).toEqual([
+        [featureSession.id, 'feature', 'cross_branch'],
+      ]);
+
+      const sameBranch = await checkConflicts(db, ['src/app.ts'], session2Id, undefined, {
+        project_root: '/test',
+        branch: 'feature',
+      });
+      expect(sameBranch[0].branch_scope).toBe('same_branch');
+
+      // Unscoped checks still see every project
+      expect(await checkConflicts(db, ['src/app.ts'], session2Id)).toHaveLength(2);
+    });
+
     it('should not detect conflict for own claims', async () => {
       await createClaim(db, {
         session_id: session1Id,
@@ -412,6 +632,43 @@ describe('Conflict Detection', () => {
       expect(conflicts).toHaveLength(1);
     });
 
+    it('should detect overlap between two patterns', async () => {
+      await createClaim(db, {
+        session_id: session1Id,
+        files: ['src/db/**'],
+        intent: 'Reworking the db layer',
+      });
+
+      const conflicts = await checkConflicts(db, ['src/db/*.ts'], session2Id);
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].file_path).toBe('src/db/**');
+
+      expect(await checkConflicts(db, ['src/http/**'], session2Id)).toHaveLength(0);
+    });
+
+    it('should detect claimed files covered by a requested pattern', async () => {
+      await createClaim(db, {
+        session_id: session1Id,
+        files: ['src/db/queries.ts'],
+        intent: 'Query fix',
+        symbols: [{ file: 'src/db/schema.ts', symbols: ['initSchema'] }],
+      });
+
+      const conflicts = await checkConflicts(db, ['src/db/**'], session2Id);
+      expect(conflicts.map((c) => c.file_path).sort()).toEqual(['src/db/queries.ts', 'src/db/schema.ts']);
+    });
+
+    it('should treat brackets in claimed paths literally', async () => {
+      await createClaim(db, {
+        session_id: session1Id,
+        files: ['app/[id]/**'],
+        intent: 'Route rework',
+      });
+
+      expect(await checkConflicts(db, ['app/[id]/page.tsx'], session2Id)).toHaveLength(1);
+      expect(await checkConflicts(db, ['app/i/page.tsx'], session2Id)).toHaveLength(0);
+    });
+
     it('should handle multiple files with mixed conflicts', async () => {
       await createClaim(db, {
         session_id: session1Id,
@@ -854,3 +1111,32 @@ describe('Reference Queries', () => {
     });
   });
 });
+
+describe('API token revocation', () => {
+  let db: TestDatabase;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should refuse a prefix shared by several active tokens', async () => {
+    const user = await createUser(db, { email: 'alice@example.com' });
+    const first = await createApiToken(db, { user_id: user.id, name: 'laptop', scopes: ['mcp'] });
+    const second = await createApiToken(db, { user_id: user.id, name: 'ci', scopes: ['mcp'] });
+    await db.prepare('UPDATE api_tokens SET token_prefix = ?').bind('scm_shared00').run();
+
+    expect(await revokeApiToken(db, 'scm_shared00')).toBe('ambiguous');
+    const active = await db
+      .prepare('SELECT COUNT(*) as count FROM api_tokens WHERE revoked_at IS NULL')
+      .first<{ count: number }>();
+    expect(active?.count).toBe(2);
+
+    expect(await revokeApiToken(db, first.api_token.id)).toBe('revoked');
+    expect(await revokeApiToken(db, 'scm_shared00')).toBe('revoked');
+    expect(await revokeApiToken(db, second.api_token.id)).toBe('not_found');
+  });
+});
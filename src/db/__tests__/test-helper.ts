@@ -2,7 +2,8 @@
 import Database from 'better-sqlite3';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
-import type { DatabaseAdapter, PreparedStatement, QueryResult } from '../sqlite-adapter.js';
+import { createConnectionGate } from '../sqlite-adapter.js';
+import type { ConnectionGate, DatabaseAdapter, PreparedStatement, QueryResult } from '../sqlite-adapter.js';
 import { loadMigrationsFromDir, splitMigrationStatements } from '../migrations.js';
 
 class TestPreparedStatement implements PreparedStatement {
@@ -10,6 +11,7 @@ class TestPreparedStatement implements PreparedStatement {
 
   constructor(
     private db: Database.Database,
+    private gate: ConnectionGate,
     private sql: string
   ) {}
 
@@ -18,24 +20,27 @@ class TestPreparedStatement implements PreparedStatement {
     return this;
   }
 
-  async first<T>(): Promise<T | null> {
-    const stmt = this.db.prepare(this.sql);
-    const result = stmt.get(...this.bindings) as T | undefined;
-    return result ?? null;
+  first<T>(): Promise<T | null> {
+    return this.gate.statement(() => {
+      const stmt = this.db.prepare(this.sql);
+      const result = stmt.get(...this.bindings) as T | undefined;
+      return result ?? null;
+    });
   }
 
-  async all<T>(): Promise<QueryResult<T>> {
-    const stmt = this.db.prepare(this.sql);
-    const results = stmt.all(...this.bindings) as T[];
-    return {
-      results,
-      meta: { changes: 0, last_row_id: 0 },
-    };
+  all<T>(): Promise<QueryResult<T>> {
+    return this.gate.statement(() => {
+      const stmt = this.db.prepare(this.sql);
+      const results = stmt.all(...this.bindings) as T[];
+      return {
+        results,
+        meta: { changes: 0, last_row_id: 0 },
+      };
+    });
   }
 
   async run(): Promise<{ meta: { changes: number } }> {
-    const stmt = this.db.prepare(this.sql);
-    const result = stmt.run(...this.bindings);
+    const result = await this.gate.statement(() => this._run());
     return {
       meta: { changes: result.changes },
     };
@@ -52,9 +57,12 @@ const MIGRATIONS_DIR = join(__dirname, '..', '..', '..', 'migrations');
 const SCHEMA_STATEMENTS = loadMigrationsFromDir(MIGRATIONS_DIR);
 
 const CLEANUP_STATEMENTS = [
+  'DELETE FROM working_memory_revisions',
   'DELETE FROM working_memory',
   'DELETE FROM notifications',
   'DELETE FROM claim_queue',
+  'DELETE FROM scheduled_releases',
+  'DELETE FROM preempt_requests',
   'DELETE FROM audit_history',
   'DELETE FROM symbol_references',
   'DELETE FROM claim_symbols',
@@ -67,12 +75,14 @@ const CLEANUP_STATEMENTS = [
 
 export class TestDatabase implements DatabaseAdapter {
   private db: Database.Database;
+  private readonly gate: ConnectionGate;
 
   constructor() {
     // Use in-memory database for tests
     this.db = new Database(':memory:');
     this.db.pragma('foreign_keys = ON');
     this.initSchema();
+    this.gate = createConnectionGate(this.db);
   }
 
   private initSchema(): void {
@@ -86,7 +96,7 @@ export class TestDatabase implements DatabaseAdapter {
   }
 
   prepare(sql: string): PreparedStatement {
-    return new TestPreparedStatement(this.db, sql);
+    return new TestPreparedStatement(this.db, this.gate, sql);
   }
 
   async batch(statements: PreparedStatement[]): Promise<QueryResult<unknown>[]> {
@@ -100,7 +110,11 @@ export class TestDatabase implements DatabaseAdapter {
         };
       });
     });
-    return transaction();
+    return this.gate.statement(() => transaction());
+  }
+
+  transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.gate.transaction(fn);
   }
 
   getStoragePath(): string {
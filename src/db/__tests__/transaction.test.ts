@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawn } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import { fileURLToPath } from 'node:url';
+import { createTestDatabase, TestDatabase } from './test-helper.js';
+import { createLocalDatabase } from '../sqlite-adapter.js';
+import { loadMigrationsFromDir } from '../migrations.js';
+import { createSession, joinQueue, createClaim } from '../queries.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const RACER = path.join(__dirname, 'fixtures', 'claim-racer.ts');
+const MIGRATIONS_DIR = path.join(__dirname, '..', '..', '..', 'migrations');
+
+type RacerResult = { session_id: string; status: string | null; claim_id: string | null };
+
+describe('DatabaseAdapter.transaction', () => {
+  let db: TestDatabase;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  async function countSessions(): Promise<number> {
+    const row = await db.prepare('SELECT COUNT(*) as count FROM sessions').first<{ count: number }>();
+    return row?.count ?? 0;
+  }
+
+  it('commits when the callback resolves and rolls back when it throws', async () => {
+    await db.transaction(async () => {
+      await createSession(db, { name: 'kept', project_root: '/repo' });
+    });
+
+    await expect(
+      db.transaction(async () => {
+        await createSession(db, { name: 'discarded', project_root: '/repo' });
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(await countSessions()).toBe(1);
+  });
+
+  it('joins nested calls to the outer transaction', async () => {
+    await expect(
+      db.transaction(async () => {
+        await db.transaction(async () => {
+          await createSession(db, { name: 'inner', project_root: '/repo' });
+        });
+        throw new Error('outer failed');
+      })
+    ).rejects.toThrow('outer failed');
+
+    expect(await countSessions()).toBe(0);
+  });
+
+  it('keeps statements from outside a failing transaction out of it', async () => {
+    let inside!: () => void;
+    const began = new Promise<void>((resolve) => {
+      inside = resolve;
+    });
+
+    const failing = db.transaction(async () => {
+      await createSession(db, { name: 'discarded', project_root: '/repo' });
+      inside();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      throw new Error('boom');
+    });
+    await began;
+
+    // Issued while the transaction is open and waiting: must not see or join it
+    const [seen, outside] = await Promise.all([
+      countSessions(),
+      createSession(db, { name: 'outside', project_root: '/repo' }),
+      expect(failing).rejects.toThrow('boom'),
+    ]);
+
+    expect(seen).toBe(0);
+    const names = await db.prepare('SELECT name FROM sessions').all<{ name: string }>();
+    expect(names.results.map((row) => row.name)).toEqual([outside.name]);
+  });
+
+  it('serializes concurrent queue joins on one connection', async () => {
+    const owner = await createSession(db, { name: 'owner', project_root: '/repo' });
+    const { claim } = await createClaim(db, { session_id: owner.id, files: ['a.ts'], intent: 'own' });
+    const waiters = await Promise.all(
+      ['w1', 'w2', 'w3'].map((name) => createSession(db, { name, project_root: '/repo' }))
+    );
+
+    const entries = await Promise.all(
+      waiters.map((waiter) => joinQueue(db, { claim_id: claim.id, session_id: waiter.id, intent: 'wait' }))
+    );
+
+    expect(entries.map((entry) => entry.position).sort()).toEqual([1, 2, 3]);
+  });
+});
+
+describe('claim create across processes', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'collab-race-'));
+    dbPath = path.join(dir, 'collab.db');
+    const db = createLocalDatabase(dbPath);
+    db.initSchema(loadMigrationsFromDir(MIGRATIONS_DIR));
+    db.close();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function startRacer(name: string): { ready: Promise<void>; go: () => void; result: Promise<RacerResult> } {
+    const child = spawn(process.execPath, ['--import', 'tsx', RACER, dbPath, name], {
+      stdio: ['pipe', 'pipe', 'inherit'],
+    });
+    const lines = createInterface({ input: child.stdout });
+    const messages: string[] = [];
+    let onMessage: (() => void) | undefined;
+    lines.on('line', (line) => {
+      messages.push(line);
+      onMessage?.();
+    });
+
+    const nextMessage = (index: number): Promise<string> =>
+      new Promise((resolve, reject) => {
+        const check = () => {
+          if (messages.length > index) {
+            resolve(messages[index]);
+          }
+        };
+        onMessage = check;
+        child.once('exit', (code) => reject(new Error(`${name} exited with ${code}`)));
+        check();
+      });
+
+    const ready = nextMessage(0).then(() => undefined);
+    return {
+      ready,
+      go: () => child.stdin.write('go\n'),
+      result: ready.then(() => nextMessage(1)).then((line) => JSON.parse(line) as RacerResult),
+    };
+  }
+
+  it('lets exactly one of several concurrent creators claim a file', async () => {
+    const racers = ['agent-1', 'agent-2', 'agent-3', 'agent-4'].map(startRacer);
+    await Promise.all(racers.map((racer) => racer.ready));
+    racers.forEach((racer) => racer.go());
+    const results = await Promise.all(racers.map((racer) => racer.result));
+
+    expect(results.filter((result) => result.status === 'created')).toHaveLength(1);
+    expect(results.filter((result) => result.status === 'waiting_for_coordination')).toHaveLength(3);
+
+    const db = createLocalDatabase(dbPath);
+    try {
+      const claims = await db
+        .prepare("SELECT COUNT(*) as count FROM claims WHERE status = 'active'")
+        .first<{ count: number }>();
+      expect(claims?.count).toBe(1);
+
+      const queue = await db.prepare('SELECT position FROM claim_queue ORDER BY position').all<{ position: number }>();
+      expect(queue.results.map((row) => row.position)).toEqual([1, 2, 3]);
+    } finally {
+      db.close();
+    }
+  }, 120_000);
+});
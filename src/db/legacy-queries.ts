@@ -358,6 +358,7 @@ export async function joinQueue(
     position,
     priority,
     scope,
+    mode: 'write',
     estimated_wait_minutes: estimatedWait,
     created_at: now,
   };
@@ -398,6 +399,7 @@ export async function listQueue(
     SELECT
       q.*,
       s.name as session_name,
+      s.last_heartbeat as session_last_heartbeat,
       c.session_id as owner_session_id,
       c.intent as claim_intent,
       cs.name as claim_session_name,
@@ -428,6 +430,7 @@ export async function listQueue(
     .bind(...bindings)
     .all<QueueEntry & {
       session_name: string | null;
+      session_last_heartbeat: string;
       owner_session_id: string;
       claim_intent: string;
       claim_session_name: string | null;
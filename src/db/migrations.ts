@@ -1,5 +1,7 @@
+import { createHash } from 'crypto';
 import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
+import type { DatabaseAdapter } from './sqlite-adapter.js';
 
 const VERSIONED_MIGRATION_PATTERN = /^\d{4}_.+\.sql$/;
 
@@ -21,8 +23,165 @@ export function splitMigrationStatements(migration: string): string[] {
     .filter((line) => !line.trim().startsWith('--'))
     .join('\n');
 
-  return withoutCommentLines
-    .split(';')
-    .map((statement) => statement.trim())
-    .filter((statement) => statement.length > 0);
+  const statements: string[] = [];
+  let pending = '';
+  for (const piece of withoutCommentLines.split(';')) {
+    pending = pending ? `${pending};${piece}` : piece;
+    const statement = pending.trim();
+    // A trigger body has its own semicolons; keep collecting until its closing END
+    if (/^CREATE\s+(TEMP\s+|TEMPORARY\s+)?TRIGGER\b/i.test(statement) && !/\bEND$/i.test(statement)) {
+      continue;
+    }
+    if (statement.length > 0) {
+      statements.push(statement);
+    }
+    pending = '';
+  }
+  if (pending.trim().length > 0) {
+    statements.push(pending.trim());
+  }
+  return statements;
+}
+
+// ============ Versioned Runner ============
+
+export type Migration = {
+  name: string;
+  checksum: string;
+  sql: string;
+};
+
+export type MigrationStatus = {
+  applied: string[];
+  pending: string[];
+  /** Applied migrations whose file changed since they ran. */
+  drifted: string[];
+  /** Recorded migrations with no matching file (e.g. after a downgrade). */
+  unknown: string[];
+  /**
+   * True when the database predates schema_migrations: every migration is replayed
+   * tolerantly once (as before) and then recorded.
+   */
+  baseline: boolean;
+};
+
+export type MigrationRunResult = MigrationStatus & {
+  /** Migrations applied by this run (empty for dry runs). */
+  ran: string[];
+  dry_run: boolean;
+};
+
+export class MigrationDriftError extends Error {
+  constructor(readonly drifted: string[]) {
+    super(
+      `Applied migration(s) changed on disk: ${drifted.join(', ')}. ` +
+        'Restore the original files or migrate the database manually.'
+    );
+    this.name = 'MigrationDriftError';
+  }
+}
+
+const SCHEMA_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+    name TEXT PRIMARY KEY,
+    checksum TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+)`;
+
+export function checksumMigration(sql: string): string {
+  return createHash('sha256').update(sql).digest('hex');
+}
+
+/** Load migrations with their names and checksums, in execution (filename) order. */
+export function loadMigrationFiles(migrationsDir: string): Migration[] {
+  return listMigrationFiles(migrationsDir).map((name) => {
+    const sql = readFileSync(join(migrationsDir, name), 'utf-8');
+    return { name, checksum: checksumMigration(sql), sql };
+  });
+}
+
+/** Errors the pre-versioning startup replay relied on ignoring. */
+export function isIgnorableMigrationError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    message.includes('already exists') ||
+    message.includes('duplicate column name') ||
+    message.includes('UNIQUE constraint failed')
+  );
+}
+
+async function tableExists(db: DatabaseAdapter, table: string): Promise<boolean> {
+  const row = await db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?")
+    .bind(table)
+    .first<{ name: string }>();
+  return row !== null;
+}
+
+export async function getMigrationStatus(db: DatabaseAdapter, migrations: Migration[]): Promise<MigrationStatus> {
+  const recorded = (await tableExists(db, 'schema_migrations'))
+    ? (await db.prepare('SELECT name, checksum FROM schema_migrations').all<{ name: string; checksum: string }>())
+        .results
+    : [];
+  const recordedByName = new Map(recorded.map((row) => [row.name, row.checksum]));
+  const known = new Set(migrations.map((migration) => migration.name));
+
+  const baseline = recorded.length === 0 && (await tableExists(db, 'sessions'));
+
+  return {
+    applied: migrations.filter((m) => recordedByName.has(m.name)).map((m) => m.name),
+    pending: migrations.filter((m) => !recordedByName.has(m.name)).map((m) => m.name),
+    drifted: migrations
+      .filter((m) => recordedByName.has(m.name) && recordedByName.get(m.name) !== m.checksum)
+      .map((m) => m.name),
+    unknown: recorded.filter((row) => !known.has(row.name)).map((row) => row.name),
+    baseline,
+  };
+}
+
+/**
+ * Apply pending migrations, each in its own transaction, and record them in schema_migrations.
+ * Throws MigrationDriftError before changing anything when an applied migration was edited.
+ */
+export async function runMigrations(
+  db: DatabaseAdapter,
+  migrations: Migration[],
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationRunResult> {
+  const status = await getMigrationStatus(db, migrations);
+  if (status.drifted.length > 0) {
+    throw new MigrationDriftError(status.drifted);
+  }
+
+  const dryRun = options.dryRun ?? false;
+  if (dryRun || status.pending.length === 0) {
+    return { ...status, ran: [], dry_run: dryRun };
+  }
+
+  await db.prepare(SCHEMA_MIGRATIONS_TABLE).run();
+  const pending = migrations.filter((migration) => status.pending.includes(migration.name));
+  const ran: string[] = [];
+
+  for (const migration of pending) {
+    await db.transaction(async () => {
+      for (const statement of splitMigrationStatements(migration.sql)) {
+        try {
+          await db.prepare(statement).run();
+        } catch (error) {
+          // Only a pre-versioning database may already contain parts of the schema
+          if (!status.baseline || !isIgnorableMigrationError(error)) {
+            throw new Error(
+              `Migration ${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+        }
+      }
+      await db
+        .prepare('INSERT INTO schema_migrations (name, checksum, applied_at) VALUES (?, ?, ?)')
+        .bind(migration.name, migration.checksum, new Date().toISOString())
+        .run();
+    });
+    ran.push(migration.name);
+  }
+
+  return { ...status, applied: [...status.applied, ...ran], pending: [], ran, dry_run: false };
 }
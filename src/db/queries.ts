@@ -5,14 +5,19 @@ import type {
   Session,
   Claim,
   ClaimStatus,
+  ClaimMode,
   ClaimScope,
   ClaimWithFiles,
   ConflictInfo,
   Notification,
   NotificationMetadata,
   NotificationType,
+  SequencedNotification,
   QueueEntry,
   QueueEntryWithDetails,
+  PreemptRequest,
+  PreemptStatus,
+  WaitForEdge,
   TodoItem,
   SessionProgress,
   SessionConfig,
@@ -24,10 +29,20 @@ import type {
   AuditMetadata,
   MemoryCategory,
   WorkingMemory,
+  MemorySearchResult,
+  MemoryScope,
+  MemoryRevision,
   WorkingMemoryInput,
+  User,
+  UserStatus,
+  ApiToken,
+  ApiTokenScope,
+  ScheduledRelease,
 } from './types.js';
 import { SCOPE_WAIT_MINUTES } from './types.js';
-import { generateId } from '../utils/crypto.js';
+import { API_TOKEN_PREFIX, generateApiToken, generateId, hashToken } from '../utils/crypto.js';
+import { claimPathsOverlap, isClaimPattern, toSqlGlob } from '../utils/paths.js';
+import { MEMORY_REVISION_RETENTION_HOURS, STALE_SESSION_CLAIM_SUMMARY } from '../constants.js';
 
 // ============ Session Queries ============
 
@@ -38,6 +53,8 @@ export async function createSession(
     project_root: string;
     machine_id?: string;
     user_id?: string;
+    branch?: string | null;
+    worktree?: string | null;
   }
 ): Promise<Session> {
   const id = generateId();
@@ -45,10 +62,20 @@ export async function createSession(
 
   await db
     .prepare(
-      `INSERT INTO sessions (id, name, project_root, machine_id, user_id, created_at, last_heartbeat, status)
-       VALUES (?, ?, ?, ?, ?, ?, ?, 'active')`
+      `INSERT INTO sessions (id, name, project_root, machine_id, user_id, created_at, last_heartbeat, status, branch, worktree)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)`
+    )
+    .bind(
+      id,
+      params.name ?? null,
+      params.project_root,
+      params.machine_id ?? null,
+      params.user_id ?? null,
+      now,
+      now,
+      params.branch ?? null,
+      params.worktree ?? null
     )
-    .bind(id, params.name ?? null, params.project_root, params.machine_id ?? null, params.user_id ?? null, now, now)
     .run();
 
   return {
@@ -64,11 +91,13 @@ export async function createSession(
     progress: null,
     todos: null,
     config: null,
+    branch: params.branch ?? null,
+    worktree: params.worktree ?? null,
   };
 }
 
 /**
- * Find an active session that can be reused (same project_root + name, optional machine/user).
+ * Find an active session that can be reused (same project_root + worktree + name, optional machine/user).
  * Avoids zombie sessions when the same agent restarts with the same name.
  */
 export async function findReusableSession(
@@ -78,6 +107,7 @@ export async function findReusableSession(
     name?: string;
     machine_id?: string;
     user_id?: string;
+    worktree?: string | null;
   }
 ): Promise<Session | null> {
   if (!params.name) {
@@ -88,9 +118,10 @@ export async function findReusableSession(
     SELECT * FROM sessions
     WHERE status = 'active'
       AND project_root = ?
+      AND worktree IS ?
       AND name = ?
   `;
-  const bindings: string[] = [params.project_root, params.name];
+  const bindings: (string | null)[] = [params.project_root, params.worktree ?? null, params.name];
 
   if (params.machine_id) {
     query += ' AND (machine_id = ? OR machine_id IS NULL)';
@@ -143,8 +174,9 @@ export async function listSessionSummaries(
   }
 
   if (params.project_root) {
+    // A worktree path lists every session of its repository
     query += ' AND s.project_root = ?';
-    bindings.push(params.project_root);
+    bindings.push(await resolveProjectRoot(db, params.project_root));
   }
 
   if (params.user_id) {
@@ -163,6 +195,20 @@ export async function listSessionSummaries(
   }));
 }
 
+/** Map a known worktree checkout to the repository-level project_root its sessions share. */
+export async function resolveProjectRoot(db: DatabaseAdapter, root: string): Promise<string> {
+  const row = await db
+    .prepare(
+      `SELECT project_root FROM sessions
+       WHERE worktree = ?
+       ORDER BY (status = 'active') DESC, last_heartbeat DESC
+       LIMIT 1`
+    )
+    .bind(root)
+    .first<{ project_root: string }>();
+  return row?.project_root ?? root;
+}
+
 export async function countActiveClaims(db: DatabaseAdapter, sessionId: string): Promise<number> {
   const row = await db
     .prepare("SELECT COUNT(*) as cnt FROM claims WHERE session_id = ? AND status = 'active'")
@@ -215,7 +261,7 @@ export async function listSessions(
 
   if (params.project_root) {
     query += ' AND project_root = ?';
-    bindings.push(params.project_root);
+    bindings.push(await resolveProjectRoot(db, params.project_root));
   }
 
   if (params.user_id) {
@@ -238,6 +284,7 @@ export async function updateSessionHeartbeat(
   statusUpdate?: {
     current_task?: string | null;
     todos?: TodoItem[];
+    branch?: string | null;
   }
 ): Promise<boolean> {
   const now = new Date().toISOString();
@@ -275,6 +322,11 @@ export async function updateSessionHeartbeat(
     bindings.push(todosJson);
   }
 
+  if (statusUpdate?.branch !== undefined) {
+    query += ", branch = ?";
+    bindings.push(statusUpdate.branch);
+  }
+
   query += " WHERE id = ? AND status = 'active'";
   bindings.push(id);
 
@@ -357,15 +409,15 @@ export async function cleanupStaleSessions(db: DatabaseAdapter, staleMinutes: nu
     .bind(cutoff)
     .run();
 
-  // Abandon claims from inactive/terminated sessions
+  // Abandon claims from inactive/terminated sessions, marked so a resuming session can take them back
   const orphanedResult = await db
     .prepare(
-      `UPDATE claims SET status = 'abandoned', updated_at = ?
+      `UPDATE claims SET status = 'abandoned', updated_at = ?, completed_summary = COALESCE(completed_summary, ?)
        WHERE status = 'active' AND session_id IN (
          SELECT id FROM sessions WHERE status IN ('inactive', 'terminated')
        )`
     )
-    .bind(now)
+    .bind(now, STALE_SESSION_CLAIM_SUMMARY)
     .run();
 
   return {
@@ -436,6 +488,68 @@ export async function cleanupStaleClaims(
   return { released_claims: released, details };
 }
 
+/**
+ * Claims a resuming session can adopt from `sessionId`: those still active and those
+ * abandoned only because the session went stale.
+ */
+export async function listResumableClaims(db: DatabaseAdapter, sessionId: string): Promise<ClaimWithFiles[]> {
+  const claims = await listClaims(db, { session_id: sessionId, status: 'all' });
+  return claims.filter(
+    (claim) =>
+      claim.status === 'active' ||
+      (claim.status === 'abandoned' && claim.completed_summary === STALE_SESSION_CLAIM_SUMMARY)
+  );
+}
+
+/** Reactivate a claim abandoned by stale-session cleanup. */
+export async function reviveClaim(db: DatabaseAdapter, claimId: string): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `UPDATE claims SET status = 'active', completed_summary = NULL, updated_at = ?
+       WHERE id = ? AND status = 'abandoned' AND completed_summary = ?`
+    )
+    .bind(new Date().toISOString(), claimId, STALE_SESSION_CLAIM_SUMMARY)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * Move what a session leaves behind to its replacement: working memory and queue entries
+ * (skipping keys and queues the target already has), plus current task, progress and todos
+ * when the target has none yet.
+ */
+export async function adoptSessionState(
+  db: DatabaseAdapter,
+  fromSessionId: string,
+  toSessionId: string
+): Promise<{ memories: number; queue_entries: number }> {
+  const memories = await db
+    .prepare('UPDATE OR IGNORE working_memory SET session_id = ? WHERE session_id = ?')
+    .bind(toSessionId, fromSessionId)
+    .run();
+  const queueEntries = await db
+    .prepare('UPDATE OR IGNORE claim_queue SET session_id = ? WHERE session_id = ?')
+    .bind(toSessionId, fromSessionId)
+    .run();
+  await db
+    .prepare('UPDATE working_memory_revisions SET session_id = ? WHERE session_id = ?')
+    .bind(toSessionId, fromSessionId)
+    .run();
+
+  await db
+    .prepare(
+      `UPDATE sessions SET
+         current_task = COALESCE(current_task, (SELECT current_task FROM sessions WHERE id = ?)),
+         progress = COALESCE(progress, (SELECT progress FROM sessions WHERE id = ?)),
+         todos = COALESCE(todos, (SELECT todos FROM sessions WHERE id = ?))
+       WHERE id = ?`
+    )
+    .bind(fromSessionId, fromSessionId, fromSessionId, toSessionId)
+    .run();
+
+  return { memories: memories.meta.changes, queue_entries: queueEntries.meta.changes };
+}
+
 export async function updateSessionConfig(
   db: DatabaseAdapter,
   id: string,
@@ -458,25 +572,29 @@ export async function createClaim(
     files: string[];
     intent: string;
     scope?: ClaimScope;
+    mode?: ClaimMode;
     symbols?: SymbolClaim[];
     priority?: number;
+    ttl_minutes?: number;
   }
 ): Promise<{ claim: Claim; files: string[]; symbols?: SymbolClaim[] }> {
   const id = generateId();
   const now = new Date().toISOString();
   const scope = params.scope ?? 'medium';
+  const mode = params.mode ?? 'write';
   const priority = params.priority ?? 50;
+  const expiresAt = params.ttl_minutes ? leaseExpiry(params.ttl_minutes) : null;
 
   // Batch insert: claim + all file paths in single transaction
   const claimStatement = db
     .prepare(
-      `INSERT INTO claims (id, session_id, intent, scope, priority, status, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, 'active', ?, ?)`
+      `INSERT INTO claims (id, session_id, intent, scope, mode, priority, status, created_at, updated_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, 'active', ?, ?, ?)`
     )
-    .bind(id, params.session_id, params.intent, scope, priority, now, now);
+    .bind(id, params.session_id, params.intent, scope, mode, priority, now, now, expiresAt);
 
   const fileStatements = params.files.map((filePath) => {
-    const isPattern = filePath.includes('*') ? 1 : 0;
+    const isPattern = isClaimPattern(filePath) ? 1 : 0;
     return db
       .prepare('INSERT INTO claim_files (claim_id, file_path, is_pattern) VALUES (?, ?, ?)')
       .bind(id, filePath, isPattern);
@@ -506,17 +624,101 @@ export async function createClaim(
       session_id: params.session_id,
       intent: params.intent,
       scope,
+      mode,
       status: 'active',
       priority,
       created_at: now,
       updated_at: now,
       completed_summary: null,
+      expires_at: expiresAt,
     },
     files: params.files,
     symbols: params.symbols,
   };
 }
 
+function leaseExpiry(ttlMinutes: number, from: number = Date.now()): string {
+  return new Date(from + ttlMinutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Extend (or start) the lease on an active claim.
+ * Returns the new expiry, or null when the claim is not active.
+ */
+export async function renewClaim(
+  db: DatabaseAdapter,
+  claimId: string,
+  ttlMinutes: number
+): Promise<string | null> {
+  const now = new Date().toISOString();
+  const expiresAt = leaseExpiry(ttlMinutes);
+
+  const result = await db
+    .prepare("UPDATE claims SET expires_at = ?, updated_at = ? WHERE id = ? AND status = 'active'")
+    .bind(expiresAt, now, claimId)
+    .run();
+
+  return result.meta.changes > 0 ? expiresAt : null;
+}
+
+/**
+ * Abandon active claims whose lease has lapsed.
+ * Each expiry is logged as its own audit action, queued sessions are notified and the claim's state memory is cleared.
+ */
+export async function expireClaimLeases(
+  db: DatabaseAdapter
+): Promise<{ expired_claims: number; details: Array<{ claim_id: string; session_id: string; files: string[] }> }> {
+  const now = new Date().toISOString();
+
+  const expired = await db
+    .prepare(
+      `SELECT c.id, c.session_id, c.expires_at, GROUP_CONCAT(cf.file_path, '|||') as files
+       FROM claims c
+       LEFT JOIN claim_files cf ON c.id = cf.claim_id
+       WHERE c.status = 'active' AND c.expires_at IS NOT NULL AND c.expires_at <= ?
+       GROUP BY c.id`
+    )
+    .bind(now)
+    .all<{ id: string; session_id: string; expires_at: string; files: string | null }>();
+
+  const details: Array<{ claim_id: string; session_id: string; files: string[] }> = [];
+
+  for (const claim of expired.results ?? []) {
+    const files = claim.files ? claim.files.split('|||') : [];
+
+    // A renew, release or handoff (or another sweep) may have committed since the SELECT
+    const expiredNow = await db.transaction(async () => {
+      const result = await db
+        .prepare(
+          `UPDATE claims SET status = 'abandoned', updated_at = ?, completed_summary = ?
+           WHERE id = ? AND status = 'active' AND expires_at IS NOT NULL AND expires_at <= ?`
+        )
+        .bind(new Date().toISOString(), 'Lease expired', claim.id, now)
+        .run();
+      if (result.meta.changes === 0) {
+        return false;
+      }
+
+      await notifyQueueOnClaimRelease(db, claim.id, claim.session_id, files);
+      await logAuditEvent(db, {
+        session_id: claim.session_id,
+        action: 'claim_expired',
+        entity_type: 'claim',
+        entity_id: claim.id,
+        metadata: { files, expires_at: claim.expires_at, status: 'abandoned' },
+      });
+      await clearMemory(db, claim.session_id, { key: `claim_${claim.id}` });
+      return true;
+    });
+
+    if (expiredNow) {
+      details.push({ claim_id: claim.id, session_id: claim.session_id, files });
+    }
+  }
+
+  return { expired_claims: details.length, details };
+}
+
 export async function updateClaimPriority(
   db: DatabaseAdapter,
   claimId: string,
@@ -537,8 +739,8 @@ export async function getClaim(db: DatabaseAdapter, id: string): Promise<ClaimWi
   const result = await db
     .prepare(
       `SELECT
-        c.id, c.session_id, c.intent, c.scope, c.priority, c.status,
-        c.created_at, c.updated_at, c.completed_summary,
+        c.id, c.session_id, c.intent, c.scope, c.mode, c.priority, c.status,
+        c.created_at, c.updated_at, c.completed_summary, c.expires_at,
         s.name as session_name,
         GROUP_CONCAT(cf.file_path, '|||') as file_paths
       FROM claims c
@@ -557,11 +759,13 @@ export async function getClaim(db: DatabaseAdapter, id: string): Promise<ClaimWi
     session_id: result.session_id,
     intent: result.intent,
     scope: result.scope,
+    mode: result.mode,
     priority: result.priority,
     status: result.status,
     created_at: result.created_at,
     updated_at: result.updated_at,
     completed_summary: result.completed_summary,
+    expires_at: result.expires_at,
     files: result.file_paths ? result.file_paths.split('|||') : [],
     session_name: result.session_name,
   };
@@ -576,7 +780,8 @@ export async function listClaims(
   } = {}
 ): Promise<ClaimWithFiles[]> {
   let query = `
-    SELECT c.*, s.name as session_name
+    SELECT c.*, s.name as session_name, s.machine_id as machine_id,
+      (SELECT COALESCE(u.display_name, u.email) FROM users u WHERE u.id = s.user_id) as user_name
     FROM claims c
     JOIN sessions s ON c.session_id = s.id
     WHERE 1=1
@@ -595,7 +800,7 @@ export async function listClaims(
 
   if (params.project_root) {
     query += ' AND s.project_root = ?';
-    bindings.push(params.project_root);
+    bindings.push(await resolveProjectRoot(db, params.project_root));
   }
 
   query += ' ORDER BY c.created_at DESC';
@@ -603,7 +808,7 @@ export async function listClaims(
   const claims = await db
     .prepare(query)
     .bind(...bindings)
-    .all<Claim & { session_name: string | null }>();
+    .all<Claim & { session_name: string | null; machine_id: string | null; user_name: string | null }>();
 
   if (claims.results.length === 0) {
     return [];
@@ -632,11 +837,17 @@ export async function listClaims(
   }));
 }
 
+/**
+ * Find active claims overlapping files/symbols.
+ * `scope.project_root` limits the check to one repository (all of its worktrees);
+ * `scope.branch` marks each conflict as same_branch or cross_branch.
+ */
 export async function checkConflicts(
   db: DatabaseAdapter,
   files: string[],
   excludeSessionId?: string,
-  symbols?: SymbolClaim[]
+  symbols?: SymbolClaim[],
+  scope: { project_root?: string; branch?: string | null } = {}
 ): Promise<ConflictInfo[]> {
   if (files.length === 0) {
     return [];
@@ -660,9 +871,20 @@ export async function checkConflicts(
 
   const hasSymbols = symbolsByFile.size > 0;
   const sessionFilter = excludeSessionId ? ' AND c.session_id != ?' : '';
+  const projectFilter = scope.project_root ? ' AND s.project_root = ?' : '';
+  // Expired leases never block, even before expireClaimLeases sweeps them
+  const leaseFilter = 'AND (c.expires_at IS NULL OR c.expires_at > ?)';
+  const now = new Date().toISOString();
 
   // Query 1: File-level conflicts (batch all files)
-  const fileConditions = files.map(() => '(cf.file_path = ? OR (cf.is_pattern = 1 AND ? GLOB cf.file_path))').join(' OR ');
+  // Pattern claims are fetched as candidates and narrowed with claimPathsOverlap below
+  const fileConditions = files
+    .map((f) =>
+      isClaimPattern(f)
+        ? '(cf.is_pattern = 1 OR cf.file_path GLOB ?)'
+        : "(cf.file_path = ? OR (cf.is_pattern = 1 AND ? GLOB replace(cf.file_path, '[', '[[]')))"
+    )
+    .join(' OR ');
 
   let fileQuery = `
     SELECT DISTINCT
@@ -672,17 +894,22 @@ export async function checkConflicts(
       cf.file_path,
       c.intent,
       c.scope,
+      c.mode as claim_mode,
       c.created_at,
       NULL as symbol_name,
       NULL as symbol_type,
-      'file' as conflict_level
+      'file' as conflict_level,
+      s.branch as session_branch,
+      s.machine_id as session_machine_id,
+      (SELECT COALESCE(u.display_name, u.email) FROM users u WHERE u.id = s.user_id) as session_user
     FROM claim_files cf
     JOIN claims c ON cf.claim_id = c.id
     JOIN sessions s ON c.session_id = s.id
     WHERE c.status = 'active'
       AND s.status = 'active'
+      ${leaseFilter}
       AND (${fileConditions})
-      ${sessionFilter}
+      ${sessionFilter}${projectFilter}
   `;
 
   // For symbol-level checks, exclude file claims that have symbol-level claims
@@ -695,20 +922,32 @@ export async function checkConflicts(
     `;
   }
 
-  const fileBindings: string[] = files.flatMap(f => [f, f]);
+  const fileBindings: string[] = [now, ...files.flatMap(f => (isClaimPattern(f) ? [toSqlGlob(f)] : [f, f]))];
   if (excludeSessionId) {
     fileBindings.push(excludeSessionId);
   }
+  if (scope.project_root) {
+    fileBindings.push(scope.project_root);
+  }
 
   const fileResult = await db
     .prepare(fileQuery)
     .bind(...fileBindings)
     .all<ConflictInfo>();
 
-  conflicts.push(...fileResult.results);
+  conflicts.push(
+    ...fileResult.results.filter(
+      (row) => !isClaimPattern(row.file_path) || files.some((f) => claimPathsOverlap(f, row.file_path))
+    )
+  );
 
   // Query 2: Symbol-level conflicts (batch all files)
-  const symbolFilePlaceholders = files.map(() => '?').join(',');
+  const literalFiles = files.filter((f) => !isClaimPattern(f));
+  const patternFiles = files.filter((f) => isClaimPattern(f));
+  const symbolFileConditions = [
+    ...(literalFiles.length > 0 ? [`cs.file_path IN (${literalFiles.map(() => '?').join(',')})`] : []),
+    ...patternFiles.map(() => 'cs.file_path GLOB ?'),
+  ].join(' OR ');
   let symbolQuery: string;
   let symbolBindings: string[];
 
@@ -728,7 +967,7 @@ export async function checkConflicts(
     }
 
     if (symbolConditions.length === 0) {
-      return conflicts;
+      return markBranchScope(conflicts, scope.branch);
     }
 
     symbolQuery = `
@@ -739,19 +978,24 @@ export async function checkConflicts(
         cs.file_path,
         c.intent,
         c.scope,
+        c.mode as claim_mode,
         c.created_at,
         cs.symbol_name,
         cs.symbol_type,
-        'symbol' as conflict_level
+        'symbol' as conflict_level,
+        s.branch as session_branch,
+        s.machine_id as session_machine_id,
+        (SELECT COALESCE(u.display_name, u.email) FROM users u WHERE u.id = s.user_id) as session_user
       FROM claim_symbols cs
       JOIN claims c ON cs.claim_id = c.id
       JOIN sessions s ON c.session_id = s.id
       WHERE c.status = 'active'
         AND s.status = 'active'
+        ${leaseFilter}
         AND (${symbolConditions.join(' OR ')})
-        ${sessionFilter}
+        ${sessionFilter}${projectFilter}
     `;
-    symbolBindings = [...symbolBindingsList];
+    symbolBindings = [now, ...symbolBindingsList];
   } else {
     // Check all symbols on these files
     symbolQuery = `
@@ -762,24 +1006,32 @@ export async function checkConflicts(
         cs.file_path,
         c.intent,
         c.scope,
+        c.mode as claim_mode,
         c.created_at,
         cs.symbol_name,
         cs.symbol_type,
-        'symbol' as conflict_level
+        'symbol' as conflict_level,
+        s.branch as session_branch,
+        s.machine_id as session_machine_id,
+        (SELECT COALESCE(u.display_name, u.email) FROM users u WHERE u.id = s.user_id) as session_user
       FROM claim_symbols cs
       JOIN claims c ON cs.claim_id = c.id
       JOIN sessions s ON c.session_id = s.id
       WHERE c.status = 'active'
         AND s.status = 'active'
-        AND cs.file_path IN (${symbolFilePlaceholders})
-        ${sessionFilter}
+        ${leaseFilter}
+        AND (${symbolFileConditions})
+        ${sessionFilter}${projectFilter}
     `;
-    symbolBindings = [...files];
+    symbolBindings = [now, ...literalFiles, ...patternFiles.map(toSqlGlob)];
   }
 
   if (excludeSessionId) {
     symbolBindings.push(excludeSessionId);
   }
+  if (scope.project_root) {
+    symbolBindings.push(scope.project_root);
+  }
 
   const symbolResult = await db
     .prepare(symbolQuery)
@@ -790,14 +1042,27 @@ export async function checkConflicts(
 
   // Deduplicate by claim_id + file_path + symbol_name
   const seen = new Set<string>();
-  return conflicts.filter((c) => {
-    const key = `${c.claim_id}:${c.file_path}:${c.symbol_name ?? ''}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
+  return markBranchScope(
+    conflicts.filter((c) => {
+      const key = `${c.claim_id}:${c.file_path}:${c.symbol_name ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }),
+    scope.branch
+  );
+}
+
+// Conflicts are cross-branch only when both branches are known and differ
+function markBranchScope(conflicts: ConflictInfo[], branch: string | null | undefined): ConflictInfo[] {
+  return conflicts.map((conflict) => ({
+    ...conflict,
+    branch_scope:
+      branch && conflict.session_branch && conflict.session_branch !== branch ? 'cross_branch' : 'same_branch',
+  }));
 }
 
+/** Release an active claim; false when it was already released (e.g. by a concurrent sweep). */
 export async function releaseClaim(
   db: DatabaseAdapter,
   id: string,
@@ -809,7 +1074,7 @@ export async function releaseClaim(
   const now = new Date().toISOString();
 
   const result = await db
-    .prepare('UPDATE claims SET status = ?, updated_at = ?, completed_summary = ? WHERE id = ?')
+    .prepare("UPDATE claims SET status = ?, updated_at = ?, completed_summary = ? WHERE id = ? AND status = 'active'")
     .bind(params.status, now, params.summary ?? null, id)
     .run();
 
@@ -933,6 +1198,177 @@ export async function releaseClaimByFile(
   }
 }
 
+/**
+ * Add files (and symbols) to an active claim. Files already on the claim are kept as they are.
+ * Returns the files that were new to the claim.
+ */
+export async function addClaimFiles(
+  db: DatabaseAdapter,
+  claimId: string,
+  files: string[],
+  symbols: SymbolClaim[] = []
+): Promise<string[]> {
+  const now = new Date().toISOString();
+  const added: string[] = [];
+
+  for (const filePath of files) {
+    const result = await db
+      .prepare('INSERT OR IGNORE INTO claim_files (claim_id, file_path, is_pattern) VALUES (?, ?, ?)')
+      .bind(claimId, filePath, isClaimPattern(filePath) ? 1 : 0)
+      .run();
+    if (result.meta.changes > 0) {
+      added.push(filePath);
+    }
+  }
+
+  for (const symbolClaim of symbols) {
+    for (const symbolName of symbolClaim.symbols) {
+      await db
+        .prepare(
+          'INSERT OR IGNORE INTO claim_symbols (claim_id, file_path, symbol_name, symbol_type, created_at) VALUES (?, ?, ?, ?, ?)'
+        )
+        .bind(claimId, symbolClaim.file, symbolName, symbolClaim.symbol_type ?? 'function', now)
+        .run();
+    }
+  }
+
+  await db.prepare('UPDATE claims SET updated_at = ? WHERE id = ?').bind(now, claimId).run();
+  return added;
+}
+
+/**
+ * Drop files (and their symbols) from a claim without releasing it.
+ * Returns how many files the claim still holds.
+ */
+export async function removeClaimFiles(db: DatabaseAdapter, claimId: string, files: string[]): Promise<number> {
+  const placeholders = files.map(() => '?').join(',');
+
+  await db
+    .prepare(`DELETE FROM claim_files WHERE claim_id = ? AND file_path IN (${placeholders})`)
+    .bind(claimId, ...files)
+    .run();
+  await db
+    .prepare(`DELETE FROM claim_symbols WHERE claim_id = ? AND file_path IN (${placeholders})`)
+    .bind(claimId, ...files)
+    .run();
+  await db.prepare('UPDATE claims SET updated_at = ? WHERE id = ?').bind(new Date().toISOString(), claimId).run();
+
+  const remaining = await db
+    .prepare('SELECT COUNT(*) as count FROM claim_files WHERE claim_id = ?')
+    .bind(claimId)
+    .first<{ count: number }>();
+  return remaining?.count ?? 0;
+}
+
+/**
+ * Move some of a claim's files (and their symbols) into a new claim with its own intent.
+ * The new claim inherits the owner, scope, mode, priority and lease of the original.
+ */
+export async function splitClaim(
+  db: DatabaseAdapter,
+  claimId: string,
+  params: { files: string[]; intent: string; scope?: ClaimScope; priority?: number }
+): Promise<Claim | null> {
+  const original = await getClaim(db, claimId);
+  if (!original || original.status !== 'active') {
+    return null;
+  }
+
+  const id = generateId();
+  const now = new Date().toISOString();
+  const claim: Claim = {
+    id,
+    session_id: original.session_id,
+    intent: params.intent,
+    scope: params.scope ?? original.scope,
+    mode: original.mode,
+    status: 'active',
+    priority: params.priority ?? original.priority,
+    created_at: now,
+    updated_at: now,
+    completed_summary: null,
+    expires_at: original.expires_at,
+  };
+  const placeholders = params.files.map(() => '?').join(',');
+
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO claims (id, session_id, intent, scope, mode, priority, status, created_at, updated_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, 'active', ?, ?, ?)`
+      )
+      .bind(id, claim.session_id, claim.intent, claim.scope, claim.mode, claim.priority, now, now, claim.expires_at),
+    db
+      .prepare(`UPDATE claim_files SET claim_id = ? WHERE claim_id = ? AND file_path IN (${placeholders})`)
+      .bind(id, claimId, ...params.files),
+    db
+      .prepare(`UPDATE claim_symbols SET claim_id = ? WHERE claim_id = ? AND file_path IN (${placeholders})`)
+      .bind(id, claimId, ...params.files),
+    db.prepare('UPDATE claims SET updated_at = ? WHERE id = ?').bind(now, claimId),
+  ]);
+
+  return claim;
+}
+
+/**
+ * Give an active claim to another session, keeping its id. Working memory linked to the claim
+ * (related_claim_id) moves too, except rows whose category/key the target already uses.
+ * Returns null when the claim is no longer active.
+ */
+export async function transferClaim(
+  db: DatabaseAdapter,
+  claimId: string,
+  toSessionId: string
+): Promise<{ memory_moved: number } | null> {
+  const now = new Date().toISOString();
+
+  const result = await db
+    .prepare("UPDATE claims SET session_id = ?, updated_at = ? WHERE id = ? AND status = 'active'")
+    .bind(toSessionId, now, claimId)
+    .run();
+  if (result.meta.changes === 0) {
+    return null;
+  }
+
+  const memory = await db
+    .prepare('UPDATE OR IGNORE working_memory SET session_id = ?, updated_at = ? WHERE related_claim_id = ?')
+    .bind(toSessionId, now, claimId)
+    .run();
+
+  return { memory_moved: memory.meta.changes };
+}
+
+/**
+ * Schedule (or push back) the release of a session's claim on one file.
+ */
+export async function scheduleClaimRelease(
+  db: DatabaseAdapter,
+  params: { session_id: string; file_path: string; release_at: string }
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO scheduled_releases (id, session_id, file_path, release_at, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (session_id, file_path) DO UPDATE SET release_at = excluded.release_at`
+    )
+    .bind(generateId(), params.session_id, params.file_path, params.release_at, new Date().toISOString())
+    .run();
+}
+
+export async function listDueReleases(db: DatabaseAdapter, now: string = new Date().toISOString()): Promise<ScheduledRelease[]> {
+  const result = await db
+    .prepare('SELECT * FROM scheduled_releases WHERE release_at <= ? ORDER BY release_at')
+    .bind(now)
+    .all<ScheduledRelease>();
+  return result.results;
+}
+
+/** Returns false when another process already took the release. */
+export async function deleteScheduledRelease(db: DatabaseAdapter, id: string): Promise<boolean> {
+  const result = await db.prepare('DELETE FROM scheduled_releases WHERE id = ?').bind(id).run();
+  return result.meta.changes > 0;
+}
+
 // Legacy queries moved to legacy-queries.ts (messages, decisions, references, queue, notifications).
 // Keep queue cleanup here because core session end uses it.
 export async function removeSessionFromAllQueues(
@@ -994,43 +1430,49 @@ export async function joinQueue(
     intent: string;
     priority?: number;
     scope?: ClaimScope;
+    mode?: ClaimMode;
   }
 ): Promise<QueueEntry> {
-  const existing = await db
-    .prepare('SELECT * FROM claim_queue WHERE claim_id = ? AND session_id = ?')
-    .bind(params.claim_id, params.session_id)
-    .first<QueueEntry>();
-
-  if (existing) {
-    return existing;
-  }
+  // Position is derived from the current queue, so read and insert under one write lock
+  return db.transaction(async () => {
+    const existing = await db
+      .prepare('SELECT * FROM claim_queue WHERE claim_id = ? AND session_id = ?')
+      .bind(params.claim_id, params.session_id)
+      .first<QueueEntry>();
+
+    if (existing) {
+      return existing;
+    }
 
-  const id = generateId();
-  const now = new Date().toISOString();
-  const priority = params.priority ?? 50;
-  const scope = params.scope ?? 'medium';
-  const position = await getNextQueuePosition(db, params.claim_id);
-  const estimatedWait = await calculateEstimatedWait(db, params.claim_id, position);
+    const id = generateId();
+    const now = new Date().toISOString();
+    const priority = params.priority ?? 50;
+    const scope = params.scope ?? 'medium';
+    const mode = params.mode ?? 'write';
+    const position = await getNextQueuePosition(db, params.claim_id);
+    const estimatedWait = await calculateEstimatedWait(db, params.claim_id, position);
 
-  await db
-    .prepare(
-      `INSERT INTO claim_queue (id, claim_id, session_id, intent, position, priority, scope, estimated_wait_minutes, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-    )
-    .bind(id, params.claim_id, params.session_id, params.intent, position, priority, scope, estimatedWait, now)
-    .run();
+    await db
+      .prepare(
+        `INSERT INTO claim_queue (id, claim_id, session_id, intent, position, priority, scope, mode, estimated_wait_minutes, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(id, params.claim_id, params.session_id, params.intent, position, priority, scope, mode, estimatedWait, now)
+      .run();
 
-  return {
-    id,
-    claim_id: params.claim_id,
-    session_id: params.session_id,
-    intent: params.intent,
-    position,
-    priority,
-    scope,
-    estimated_wait_minutes: estimatedWait,
-    created_at: now,
-  };
+    return {
+      id,
+      claim_id: params.claim_id,
+      session_id: params.session_id,
+      intent: params.intent,
+      position,
+      priority,
+      scope,
+      mode,
+      estimated_wait_minutes: estimatedWait,
+      created_at: now,
+    };
+  });
 }
 
 export async function listQueue(
@@ -1045,6 +1487,7 @@ export async function listQueue(
     SELECT
       q.*,
       s.name as session_name,
+      s.last_heartbeat as session_last_heartbeat,
       c.session_id as owner_session_id,
       c.intent as claim_intent,
       cs.name as claim_session_name,
@@ -1082,6 +1525,7 @@ export async function listQueue(
     .bind(...bindings)
     .all<QueueEntry & {
       session_name: string | null;
+      session_last_heartbeat: string;
       owner_session_id: string;
       claim_intent: string;
       claim_session_name: string | null;
@@ -1094,6 +1538,143 @@ export async function listQueue(
   }));
 }
 
+/**
+ * Wait-for graph edges: every queued session waiting on a live claim of another active session.
+ * Lapsed leases are left out because they no longer block anyone.
+ */
+export async function listWaitForEdges(db: DatabaseAdapter): Promise<WaitForEdge[]> {
+  const result = await db
+    .prepare(
+      `SELECT
+        q.id as queue_id,
+        q.session_id as waiter_session_id,
+        ws.name as waiter_session_name,
+        c.id as claim_id,
+        c.session_id as owner_session_id,
+        os.name as owner_session_name,
+        c.priority as claim_priority,
+        c.created_at as claim_created_at,
+        GROUP_CONCAT(cf.file_path, '|||') as files_concat
+      FROM claim_queue q
+      JOIN claims c ON q.claim_id = c.id
+      JOIN sessions ws ON q.session_id = ws.id
+      JOIN sessions os ON c.session_id = os.id
+      LEFT JOIN claim_files cf ON c.id = cf.claim_id
+      WHERE c.status = 'active'
+        AND (c.expires_at IS NULL OR c.expires_at > ?)
+        AND ws.status = 'active'
+        AND os.status = 'active'
+        AND q.session_id != c.session_id
+      GROUP BY q.id
+      ORDER BY q.created_at ASC`
+    )
+    .bind(new Date().toISOString())
+    .all<Omit<WaitForEdge, 'files'> & { files_concat: string | null }>();
+
+  return result.results.map(({ files_concat, ...edge }) => ({
+    ...edge,
+    files: files_concat ? files_concat.split('|||') : [],
+  }));
+}
+
+/** Renumber a claim's queue 1..n in the given order so positions stay dense after a leave or reorder. */
+async function renumberQueue(db: DatabaseAdapter, orderedIds: string[]): Promise<void> {
+  if (orderedIds.length === 0) {
+    return;
+  }
+  await db.batch(
+    orderedIds.map((id, index) =>
+      db.prepare('UPDATE claim_queue SET position = ? WHERE id = ?').bind(index + 1, id)
+    )
+  );
+}
+
+async function queueOrder(db: DatabaseAdapter, claimId: string): Promise<QueueEntry[]> {
+  const result = await db
+    .prepare('SELECT * FROM claim_queue WHERE claim_id = ? ORDER BY priority DESC, position ASC')
+    .bind(claimId)
+    .all<QueueEntry>();
+  return result.results;
+}
+
+/** Remove a session from one claim's queue (or every queue when claim_id is omitted); returns the removed entries. */
+export async function leaveQueue(
+  db: DatabaseAdapter,
+  params: { session_id: string; claim_id?: string }
+): Promise<QueueEntry[]> {
+  return db.transaction(async () => {
+    let query = 'SELECT * FROM claim_queue WHERE session_id = ?';
+    const bindings: string[] = [params.session_id];
+    if (params.claim_id) {
+      query += ' AND claim_id = ?';
+      bindings.push(params.claim_id);
+    }
+    const entries = (await db.prepare(query).bind(...bindings).all<QueueEntry>()).results;
+
+    for (const entry of entries) {
+      await db.prepare('DELETE FROM claim_queue WHERE id = ?').bind(entry.id).run();
+      await renumberQueue(db, (await queueOrder(db, entry.claim_id)).map((remaining) => remaining.id));
+    }
+    return entries;
+  });
+}
+
+/**
+ * Move a waiter to the head of a claim's queue. Its priority is raised to the queue's
+ * highest so the priority-first ordering keeps it there. Returns null when it is not queued.
+ */
+export async function promoteQueueEntry(
+  db: DatabaseAdapter,
+  params: { claim_id: string; session_id: string }
+): Promise<QueueEntry | null> {
+  return db.transaction(async () => {
+    const order = await queueOrder(db, params.claim_id);
+    const target = order.find((entry) => entry.session_id === params.session_id);
+    if (!target) {
+      return null;
+    }
+
+    const priority = Math.max(...order.map((entry) => entry.priority));
+    await db.prepare('UPDATE claim_queue SET priority = ? WHERE id = ?').bind(priority, target.id).run();
+    await renumberQueue(db, [target.id, ...order.filter((entry) => entry.id !== target.id).map((entry) => entry.id)]);
+    return { ...target, priority, position: 1 };
+  });
+}
+
+/** Raise a waiter's priority (never lowers it), e.g. when it escalates to a preempt request. */
+export async function raiseQueuePriority(db: DatabaseAdapter, queueId: string, priority: number): Promise<void> {
+  await db.prepare('UPDATE claim_queue SET priority = MAX(priority, ?) WHERE id = ?').bind(priority, queueId).run();
+}
+
+/** Re-point the remaining waiters of a handed-off claim at its successor claim. */
+export async function moveQueue(db: DatabaseAdapter, fromClaimId: string, toClaimId: string): Promise<number> {
+  const result = await db
+    .prepare('UPDATE claim_queue SET claim_id = ? WHERE claim_id = ?')
+    .bind(toClaimId, fromClaimId)
+    .run();
+  await renumberQueue(db, (await queueOrder(db, toClaimId)).map((entry) => entry.id));
+  return result.meta.changes;
+}
+
+export async function getClaimSymbols(db: DatabaseAdapter, claimId: string): Promise<SymbolClaim[]> {
+  const result = await db
+    .prepare('SELECT file_path, symbol_name, symbol_type FROM claim_symbols WHERE claim_id = ? ORDER BY id')
+    .bind(claimId)
+    .all<{ file_path: string; symbol_name: string; symbol_type: SymbolClaim['symbol_type'] }>();
+
+  const grouped = new Map<string, SymbolClaim>();
+  for (const row of result.results) {
+    const key = `${row.file_path}\0${row.symbol_type}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.symbols.push(row.symbol_name);
+    } else {
+      grouped.set(key, { file: row.file_path, symbols: [row.symbol_name], symbol_type: row.symbol_type });
+    }
+  }
+  return Array.from(grouped.values());
+}
+
 export async function createNotification(
   db: DatabaseAdapter,
   params: {
@@ -1142,18 +1723,88 @@ export async function createNotification(
   };
 }
 
-export async function notifyQueueOnClaimRelease(
+export async function getNotification(
   db: DatabaseAdapter,
-  claimId: string,
-  releasedBy: string,
-  files: string[]
-): Promise<number> {
-  const queuedSessions = await listQueue(db, { claim_id: claimId });
-  let notified = 0;
+  id: string
+): Promise<Notification | null> {
+  const result = await db
+    .prepare('SELECT * FROM notifications WHERE id = ?')
+    .bind(id)
+    .first<Notification>();
 
-  for (const entry of queuedSessions) {
-    await createNotification(db, {
-      session_id: entry.session_id,
+  return result ?? null;
+}
+
+/**
+ * Where a session's notification stream stands: the sequence of `eventId` (a notification's seq,
+ * or its id for older clients) when it is one of the session's notifications, else the latest sequence.
+ */
+export async function resolveNotificationSeq(
+  db: DatabaseAdapter,
+  sessionId: string,
+  eventId?: string
+): Promise<number> {
+  if (eventId) {
+    const seq = /^\d+$/.test(eventId) ? Number(eventId) : -1;
+    const row = await db
+      .prepare('SELECT rowid AS seq FROM notifications WHERE session_id = ? AND (rowid = ? OR id = ?)')
+      .bind(sessionId, seq, eventId)
+      .first<{ seq: number }>();
+    if (row) {
+      return row.seq;
+    }
+  }
+
+  const latest = await db.prepare('SELECT MAX(rowid) AS seq FROM notifications').first<{ seq: number | null }>();
+  return latest?.seq ?? 0;
+}
+
+/**
+ * List a session's notifications after a sequence cursor (see resolveNotificationSeq), oldest first.
+ * Rows are numbered as they commit, so a cursor never skips one written in the same millisecond.
+ */
+export async function listNotificationsAfter(
+  db: DatabaseAdapter,
+  sessionId: string,
+  afterSeq: number | null,
+  limit: number = 100
+): Promise<SequencedNotification[]> {
+  const result = await db
+    .prepare(
+      'SELECT rowid AS seq, * FROM notifications WHERE session_id = ? AND rowid > ? ORDER BY rowid ASC LIMIT ?'
+    )
+    .bind(sessionId, afterSeq ?? 0, limit)
+    .all<SequencedNotification>();
+
+  return result.results;
+}
+
+/**
+ * Tell the live waiters on a claim that its files are free. Reads the queue directly rather than
+ * through listQueue, so it works before or after the claim's status changes.
+ */
+export async function notifyQueueOnClaimRelease(
+  db: DatabaseAdapter,
+  claimId: string,
+  releasedBy: string,
+  files: string[]
+): Promise<number> {
+  const queued = await db
+    .prepare(
+      `SELECT q.session_id, q.position
+       FROM claim_queue q
+       JOIN sessions s ON q.session_id = s.id
+       WHERE q.claim_id = ? AND s.status = 'active'
+       ORDER BY q.priority DESC, q.position ASC`
+    )
+    .bind(claimId)
+    .all<{ session_id: string; position: number }>();
+  const queuedSessions = queued.results;
+  let notified = 0;
+
+  for (const entry of queuedSessions) {
+    await createNotification(db, {
+      session_id: entry.session_id,
       type: 'queue_ready',
       title: 'Claim released',
       message: `The claim for ${files.join(', ')} has been released. You can claim these files now.`,
@@ -1172,6 +1823,95 @@ export async function notifyQueueOnClaimRelease(
   return notified;
 }
 
+// ============ Preemption Queries ============
+
+export async function createPreemptRequest(
+  db: DatabaseAdapter,
+  params: {
+    claim_id: string;
+    requester_session_id: string;
+    owner_session_id: string;
+    intent: string;
+    priority: number;
+    deadline_at: string;
+  }
+): Promise<PreemptRequest> {
+  const id = generateId();
+  const now = new Date().toISOString();
+
+  await db
+    .prepare(
+      `INSERT INTO preempt_requests (id, claim_id, requester_session_id, owner_session_id, intent, priority, status, deadline_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?)`
+    )
+    .bind(
+      id,
+      params.claim_id,
+      params.requester_session_id,
+      params.owner_session_id,
+      params.intent,
+      params.priority,
+      params.deadline_at,
+      now
+    )
+    .run();
+
+  return { id, ...params, status: 'pending', created_at: now, resolved_at: null };
+}
+
+export async function getPreemptRequest(db: DatabaseAdapter, id: string): Promise<PreemptRequest | null> {
+  const result = await db.prepare('SELECT * FROM preempt_requests WHERE id = ?').bind(id).first<PreemptRequest>();
+  return result ?? null;
+}
+
+/** Open (pending or acknowledged) preempt requests, oldest first. */
+export async function listOpenPreemptRequests(
+  db: DatabaseAdapter,
+  params: { claim_id?: string; owner_session_id?: string; requester_session_id?: string } = {}
+): Promise<PreemptRequest[]> {
+  let query = "SELECT * FROM preempt_requests WHERE status IN ('pending', 'acknowledged')";
+  const bindings: string[] = [];
+
+  if (params.claim_id) {
+    query += ' AND claim_id = ?';
+    bindings.push(params.claim_id);
+  }
+  if (params.owner_session_id) {
+    query += ' AND owner_session_id = ?';
+    bindings.push(params.owner_session_id);
+  }
+  if (params.requester_session_id) {
+    query += ' AND requester_session_id = ?';
+    bindings.push(params.requester_session_id);
+  }
+
+  query += ' ORDER BY created_at ASC';
+
+  const result = await db.prepare(query).bind(...bindings).all<PreemptRequest>();
+  return result.results;
+}
+
+/**
+ * Move an open request to `status`. Only succeeds from `from` so two sweeps cannot resolve it twice.
+ */
+export async function updatePreemptStatus(
+  db: DatabaseAdapter,
+  id: string,
+  status: PreemptStatus,
+  from: PreemptStatus[] = ['pending', 'acknowledged']
+): Promise<boolean> {
+  const resolvedAt = status === 'acknowledged' ? null : new Date().toISOString();
+  const result = await db
+    .prepare(
+      `UPDATE preempt_requests SET status = ?, resolved_at = ?
+       WHERE id = ? AND status IN (${from.map(() => '?').join(', ')})`
+    )
+    .bind(status, resolvedAt, id, ...from)
+    .run();
+
+  return result.meta.changes > 0;
+}
+
 // ============ Audit History Queries ============
 
 export async function logAuditEvent(
@@ -1284,6 +2024,48 @@ export async function cleanupOldAuditHistory(
 
 // ============ Working Memory Queries ============
 
+/**
+ * WHERE clause for the memories a session sees: its own, its project's shared ones, or both.
+ * Binds the session id once per `?` returned in `bindings`.
+ */
+function memoryScopeClause(
+  sessionId: string,
+  scope: MemoryScope | undefined,
+  alias = ''
+): { sql: string; bindings: string[] } {
+  const projectSql = `(${alias}scope = 'project' AND ${alias}project_root = (SELECT project_root FROM sessions WHERE id = ?))`;
+  if (scope === 'session') {
+    return { sql: `${alias}session_id = ?`, bindings: [sessionId] };
+  }
+  if (scope === 'project') {
+    return { sql: projectSql, bindings: [sessionId] };
+  }
+  return { sql: `(${alias}session_id = ? OR ${projectSql})`, bindings: [sessionId, sessionId] };
+}
+
+/**
+ * Keep the working_memory rows matched by `where` as revisions before a save overwrites them
+ * or a clear deletes them. Returns the number of rows kept.
+ */
+async function recordMemoryRevisions(
+  db: DatabaseAdapter,
+  where: string,
+  bindings: (string | number)[],
+  change: MemoryRevision['change'],
+  changedBy: string
+): Promise<number> {
+  const result = await db
+    .prepare(
+      `INSERT INTO working_memory_revisions
+       (memory_id, session_id, scope, project_root, category, key, content, priority, pinned, metadata, change, changed_by, changed_at)
+       SELECT id, session_id, scope, project_root, category, key, content, priority, pinned, metadata, ?, ?, ?
+       FROM working_memory WHERE ${where}`
+    )
+    .bind(change, changedBy, new Date().toISOString(), ...bindings)
+    .run();
+  return result.meta.changes;
+}
+
 export async function saveMemory(
   db: DatabaseAdapter,
   sessionId: string,
@@ -1291,61 +2073,159 @@ export async function saveMemory(
 ): Promise<WorkingMemory> {
   const now = new Date().toISOString();
   const metadataJson = input.metadata ? JSON.stringify(input.metadata) : null;
+  const priority = input.priority ?? 50;
+  const pinned = input.pinned ? 1 : 0;
+
+  // The revision and the upsert land together, so history never records a save that did not happen
+  return db.transaction(async () => {
+    await recordMemoryRevisions(
+      db,
+      'session_id = ? AND category = ? AND key = ? AND (content != ? OR priority != ? OR pinned != ?)',
+      [sessionId, input.category, input.key, input.content, priority, pinned],
+      'updated',
+      sessionId
+    );
+
+    // Use INSERT OR REPLACE to update if exists
+    await db
+      .prepare(
+        `INSERT INTO working_memory
+         (session_id, category, key, content, priority, pinned, created_at, updated_at, expires_at, related_claim_id, related_decision_id, metadata)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(session_id, category, key) DO UPDATE SET
+           content = excluded.content,
+           priority = excluded.priority,
+           pinned = excluded.pinned,
+           updated_at = excluded.updated_at,
+           expires_at = excluded.expires_at,
+           related_claim_id = excluded.related_claim_id,
+           related_decision_id = excluded.related_decision_id,
+           metadata = excluded.metadata`
+      )
+      .bind(
+        sessionId,
+        input.category,
+        input.key,
+        input.content,
+        priority,
+        pinned,
+        now,
+        now,
+        input.expires_at ?? null,
+        input.related_claim_id ?? null,
+        input.related_decision_id ?? null,
+        metadataJson
+      )
+      .run();
 
-  // Use INSERT OR REPLACE to update if exists
-  await db
-    .prepare(
-      `INSERT INTO working_memory
-       (session_id, category, key, content, priority, pinned, created_at, updated_at, expires_at, related_claim_id, related_decision_id, metadata)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-       ON CONFLICT(session_id, category, key) DO UPDATE SET
-         content = excluded.content,
-         priority = excluded.priority,
-         pinned = excluded.pinned,
-         updated_at = excluded.updated_at,
-         expires_at = excluded.expires_at,
-         related_claim_id = excluded.related_claim_id,
-         related_decision_id = excluded.related_decision_id,
-         metadata = excluded.metadata`
-    )
-    .bind(
-      sessionId,
-      input.category,
-      input.key,
-      input.content,
-      input.priority ?? 50,
-      input.pinned ? 1 : 0,
-      now,
-      now,
-      input.expires_at ?? null,
-      input.related_claim_id ?? null,
-      input.related_decision_id ?? null,
-      metadataJson
-    )
-    .run();
+    // Fetch the saved/updated record
+    const result = await db
+      .prepare('SELECT * FROM working_memory WHERE session_id = ? AND category = ? AND key = ?')
+      .bind(sessionId, input.category, input.key)
+      .first<WorkingMemory>();
 
-  // Fetch the saved/updated record
-  const result = await db
-    .prepare('SELECT * FROM working_memory WHERE session_id = ? AND category = ? AND key = ?')
-    .bind(sessionId, input.category, input.key)
-    .first<WorkingMemory>();
+    return result!;
+  });
+}
+
+/**
+ * Project-scoped save: the row belongs to `projectRoot`, records `sessionId` as its writer and outlives
+ * the session. `expected_updated_at` is the `updated_at` the caller last read: a key saved since then is
+ * returned as `conflict` and left untouched. Without it, a key last written by another session conflicts.
+ * `overwrite` saves regardless.
+ */
+export async function saveProjectMemory(
+  db: DatabaseAdapter,
+  sessionId: string,
+  projectRoot: string,
+  input: WorkingMemoryInput,
+  options: { overwrite?: boolean; expected_updated_at?: string } = {}
+): Promise<{ memory: WorkingMemory; conflict: boolean }> {
+  return db.transaction(async () => {
+    const select = db
+      .prepare(
+        "SELECT * FROM working_memory WHERE scope = 'project' AND project_root = ? AND category = ? AND key = ?"
+      )
+      .bind(projectRoot, input.category, input.key);
+
+    const existing = await select.first<WorkingMemory>();
+    const stale =
+      options.expected_updated_at !== undefined
+        ? existing?.updated_at !== options.expected_updated_at
+        : existing?.updated_by !== sessionId;
+    if (existing && stale && !options.overwrite) {
+      return { memory: existing, conflict: true };
+    }
+
+    const priority = input.priority ?? 50;
+    const pinned = input.pinned ? 1 : 0;
+    await recordMemoryRevisions(
+      db,
+      "scope = 'project' AND project_root = ? AND category = ? AND key = ? AND (content != ? OR priority != ? OR pinned != ?)",
+      [projectRoot, input.category, input.key, input.content, priority, pinned],
+      'updated',
+      sessionId
+    );
+
+    // updated_at is the revision token callers send back, so every save must move it forward
+    let now = new Date().toISOString();
+    if (existing && now <= existing.updated_at) {
+      now = new Date(Date.parse(existing.updated_at) + 1).toISOString();
+    }
+    await db
+      .prepare(
+        `INSERT INTO working_memory
+         (session_id, scope, project_root, category, key, content, priority, pinned, created_at, updated_at, expires_at, related_claim_id, related_decision_id, metadata, created_by, updated_by)
+         VALUES (NULL, 'project', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(project_root, category, key) WHERE scope = 'project' DO UPDATE SET
+           content = excluded.content,
+           priority = excluded.priority,
+           pinned = excluded.pinned,
+           updated_at = excluded.updated_at,
+           expires_at = excluded.expires_at,
+           related_claim_id = excluded.related_claim_id,
+           related_decision_id = excluded.related_decision_id,
+           metadata = excluded.metadata,
+           updated_by = excluded.updated_by`
+      )
+      .bind(
+        projectRoot,
+        input.category,
+        input.key,
+        input.content,
+        priority,
+        pinned,
+        now,
+        now,
+        input.expires_at ?? null,
+        input.related_claim_id ?? null,
+        input.related_decision_id ?? null,
+        input.metadata ? JSON.stringify(input.metadata) : null,
+        sessionId,
+        sessionId
+      )
+      .run();
 
-  return result!;
+    return { memory: (await select.first<WorkingMemory>())!, conflict: false };
+  });
 }
 
+/** Session memories plus the project's shared ones (`scope` narrows to one of them). */
 export async function recallMemory(
   db: DatabaseAdapter,
   sessionId: string,
   params: {
     category?: MemoryCategory;
     key?: string;
+    scope?: MemoryScope;
     pinned_only?: boolean;
     limit?: number;
     include_expired?: boolean;
   } = {}
 ): Promise<WorkingMemory[]> {
-  let query = 'SELECT * FROM working_memory WHERE session_id = ?';
-  const bindings: (string | number)[] = [sessionId];
+  const visible = memoryScopeClause(sessionId, params.scope);
+  let query = `SELECT * FROM working_memory WHERE ${visible.sql}`;
+  const bindings: (string | number)[] = [...visible.bindings];
 
   if (params.category) {
     query += ' AND category = ?';
@@ -1381,6 +2261,57 @@ export async function recallMemory(
   return result.results;
 }
 
+/**
+ * Rank a session's memories against an FTS5 `match` expression (see toMemorySearchQuery),
+ * best first, with highlighted content snippets.
+ */
+export async function searchMemory(
+  db: DatabaseAdapter,
+  sessionId: string,
+  params: {
+    match: string;
+    category?: MemoryCategory;
+    scope?: MemoryScope;
+    limit?: number;
+    include_expired?: boolean;
+  }
+): Promise<MemorySearchResult[]> {
+  const visible = memoryScopeClause(sessionId, params.scope, 'm.');
+  let query = `
+    SELECT m.*,
+      snippet(working_memory_fts, 1, '**', '**', '…', 16) as snippet,
+      bm25(working_memory_fts) as rank
+    FROM working_memory_fts
+    JOIN working_memory m ON m.id = working_memory_fts.rowid
+    WHERE working_memory_fts MATCH ? AND ${visible.sql}
+  `;
+  const bindings: (string | number)[] = [params.match, ...visible.bindings];
+
+  if (params.category) {
+    query += ' AND m.category = ?';
+    bindings.push(params.category);
+  }
+
+  if (!params.include_expired) {
+    query += ' AND (m.expires_at IS NULL OR m.expires_at > ?)';
+    bindings.push(new Date().toISOString());
+  }
+
+  query += ' ORDER BY bm25(working_memory_fts), m.priority DESC';
+
+  if (params.limit) {
+    query += ' LIMIT ?';
+    bindings.push(params.limit);
+  }
+
+  const result = await db
+    .prepare(query)
+    .bind(...bindings)
+    .all<MemorySearchResult>();
+
+  return result.results;
+}
+
 export async function updateMemory(
   db: DatabaseAdapter,
   sessionId: string,
@@ -1424,6 +2355,10 @@ export async function updateMemory(
 
   bindings.push(sessionId, key);
 
+  if (updates.content !== undefined || updates.priority !== undefined) {
+    await recordMemoryRevisions(db, 'session_id = ? AND key = ?', [sessionId, key], 'updated', sessionId);
+  }
+
   const result = await db
     .prepare(`UPDATE working_memory SET ${setParts.join(', ')} WHERE session_id = ? AND key = ?`)
     .bind(...bindings)
@@ -1439,36 +2374,113 @@ export async function clearMemory(
     key?: string;
     category?: MemoryCategory;
     clear_all?: boolean;
+    /** 'project' clears the project's shared memories by key or category (never all of them). */
+    scope?: MemoryScope;
   } = {}
 ): Promise<number> {
-  if (params.key) {
+  let where: string;
+  let bindings: string[];
+
+  if (params.scope === 'project') {
+    if (!params.key && !params.category) {
+      return 0;
+    }
+    const visible = memoryScopeClause(sessionId, 'project');
+    where = visible.sql;
+    bindings = [...visible.bindings];
+    if (params.key) {
+      where += ' AND key = ?';
+      bindings.push(params.key);
+    }
+    if (params.category) {
+      where += ' AND category = ?';
+      bindings.push(params.category);
+    }
+  } else if (params.key) {
     // Clear specific key
-    const result = await db
-      .prepare('DELETE FROM working_memory WHERE session_id = ? AND key = ?')
-      .bind(sessionId, params.key)
-      .run();
-    return result.meta.changes;
+    where = 'session_id = ? AND key = ?';
+    bindings = [sessionId, params.key];
+  } else if (params.category) {
+    // Clear entire category
+    where = 'session_id = ? AND category = ?';
+    bindings = [sessionId, params.category];
+  } else if (params.clear_all) {
+    // Clear all memory for session
+    where = 'session_id = ?';
+    bindings = [sessionId];
+  } else {
+    return 0;
   }
 
-  if (params.category) {
-    // Clear entire category
+  return db.transaction(async () => {
+    // Cleared memories stay restorable for MEMORY_REVISION_RETENTION_HOURS
+    await recordMemoryRevisions(db, where, bindings, 'deleted', sessionId);
     const result = await db
-      .prepare('DELETE FROM working_memory WHERE session_id = ? AND category = ?')
-      .bind(sessionId, params.category)
+      .prepare(`DELETE FROM working_memory WHERE ${where}`)
+      .bind(...bindings)
       .run();
     return result.meta.changes;
+  });
+}
+
+/**
+ * Revisions of `key` visible to a session (its own, or its project's with scope 'project'),
+ * newest first, limited to the retention window.
+ */
+export async function listMemoryRevisions(
+  db: DatabaseAdapter,
+  sessionId: string,
+  params: { key: string; category?: MemoryCategory; scope?: MemoryScope; limit?: number }
+): Promise<MemoryRevision[]> {
+  const visible = memoryScopeClause(sessionId, params.scope);
+  let query = `SELECT * FROM working_memory_revisions WHERE ${visible.sql} AND key = ? AND changed_at > ?`;
+  const bindings: (string | number)[] = [...visible.bindings, params.key, memoryRevisionCutoff()];
+
+  if (params.category) {
+    query += ' AND category = ?';
+    bindings.push(params.category);
   }
 
-  if (params.clear_all) {
-    // Clear all memory for session
-    const result = await db
-      .prepare('DELETE FROM working_memory WHERE session_id = ?')
-      .bind(sessionId)
-      .run();
-    return result.meta.changes;
+  query += ' ORDER BY changed_at DESC, id DESC';
+
+  if (params.limit) {
+    query += ' LIMIT ?';
+    bindings.push(params.limit);
   }
 
-  return 0;
+  const result = await db
+    .prepare(query)
+    .bind(...bindings)
+    .all<MemoryRevision>();
+
+  return result.results;
+}
+
+/** One revision visible to the session and still inside the retention window. */
+export async function getMemoryRevision(
+  db: DatabaseAdapter,
+  sessionId: string,
+  revisionId: number
+): Promise<MemoryRevision | null> {
+  const visible = memoryScopeClause(sessionId, undefined);
+  return db
+    .prepare(`SELECT * FROM working_memory_revisions WHERE id = ? AND ${visible.sql} AND changed_at > ?`)
+    .bind(revisionId, ...visible.bindings, memoryRevisionCutoff())
+    .first<MemoryRevision>();
+}
+
+/** Drop revisions older than the retention window. */
+export async function pruneMemoryRevisions(db: DatabaseAdapter): Promise<number> {
+  const result = await db
+    .prepare('DELETE FROM working_memory_revisions WHERE changed_at <= ?')
+    .bind(memoryRevisionCutoff())
+    .run();
+
+  return result.meta.changes;
+}
+
+function memoryRevisionCutoff(): string {
+  return new Date(Date.now() - MEMORY_REVISION_RETENTION_HOURS * 60 * 60 * 1000).toISOString();
 }
 
 export async function pinMemory(
@@ -1555,17 +2567,18 @@ export async function getActiveMemories(
   const threshold = params.priority_threshold ?? 70;
   const limit = params.max_items ?? 20;
   const now = new Date().toISOString();
+  const visible = memoryScopeClause(sessionId, undefined);
 
   const result = await db
     .prepare(
       `SELECT * FROM working_memory
-       WHERE session_id = ?
+       WHERE ${visible.sql}
          AND (pinned = 1 OR priority >= ?)
          AND (expires_at IS NULL OR expires_at > ?)
        ORDER BY pinned DESC, priority DESC, updated_at DESC
        LIMIT ?`
     )
-    .bind(sessionId, threshold, now, limit)
+    .bind(...visible.bindings, threshold, now, limit)
     .all<WorkingMemory>();
 
   return result.results;
@@ -1904,3 +2917,160 @@ export async function getProtectedFiles(
     };
   });
 }
+
+// ============ Auth: Users & API Tokens ============
+
+export async function getUserByEmail(db: DatabaseAdapter, email: string): Promise<User | null> {
+  const result = await db.prepare('SELECT * FROM users WHERE email = ?').bind(email.trim().toLowerCase()).first<User>();
+  return result ?? null;
+}
+
+/**
+ * Create a token-only user account. Password login is not implemented, so password_hash stays empty.
+ */
+export async function createUser(
+  db: DatabaseAdapter,
+  params: { email: string; display_name?: string }
+): Promise<User> {
+  const id = generateId();
+  const now = new Date().toISOString();
+  const email = params.email.trim().toLowerCase();
+
+  await db
+    .prepare(
+      `INSERT INTO users (id, email, password_hash, display_name, created_at, updated_at, status)
+       VALUES (?, ?, '', ?, ?, ?, 'active')`
+    )
+    .bind(id, email, params.display_name ?? null, now, now)
+    .run();
+
+  return {
+    id,
+    email,
+    password_hash: '',
+    display_name: params.display_name ?? null,
+    created_at: now,
+    updated_at: now,
+    last_login_at: null,
+    status: 'active',
+  };
+}
+
+/**
+ * Issue an API token for a user. The plaintext token is returned once; only its hash is stored.
+ */
+export async function createApiToken(
+  db: DatabaseAdapter,
+  params: { user_id: string; name: string; scopes: ApiTokenScope[]; expires_at?: string | null }
+): Promise<{ token: string; api_token: ApiToken }> {
+  const id = generateId();
+  const now = new Date().toISOString();
+  const token = generateApiToken();
+  const apiToken: ApiToken = {
+    id,
+    user_id: params.user_id,
+    name: params.name,
+    token_hash: hashToken(token),
+    token_prefix: token.slice(0, API_TOKEN_PREFIX.length + 8),
+    scopes: JSON.stringify(params.scopes),
+    last_used_at: null,
+    expires_at: params.expires_at ?? null,
+    created_at: now,
+    revoked_at: null,
+  };
+
+  await db
+    .prepare(
+      `INSERT INTO api_tokens (id, user_id, name, token_hash, token_prefix, scopes, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      apiToken.id,
+      apiToken.user_id,
+      apiToken.name,
+      apiToken.token_hash,
+      apiToken.token_prefix,
+      apiToken.scopes,
+      apiToken.expires_at,
+      now
+    )
+    .run();
+
+  return { token, api_token: apiToken };
+}
+
+export type ApiTokenWithUser = ApiToken & { email: string; display_name: string | null; user_status: UserStatus };
+
+export async function listApiTokens(
+  db: DatabaseAdapter,
+  params: { user_id?: string; include_revoked?: boolean } = {}
+): Promise<ApiTokenWithUser[]> {
+  let query = `
+    SELECT t.*, u.email, u.display_name, u.status as user_status
+    FROM api_tokens t
+    JOIN users u ON t.user_id = u.id
+    WHERE 1=1
+  `;
+  const bindings: string[] = [];
+
+  if (params.user_id) {
+    query += ' AND t.user_id = ?';
+    bindings.push(params.user_id);
+  }
+
+  if (!params.include_revoked) {
+    query += ' AND t.revoked_at IS NULL';
+  }
+
+  query += ' ORDER BY t.created_at DESC';
+
+  const result = await db.prepare(query).bind(...bindings).all<ApiTokenWithUser>();
+  return result.results;
+}
+
+/**
+ * Look up a presented token by hash. Revocation, expiry and user status are left to the caller.
+ */
+export async function findApiTokenByHash(db: DatabaseAdapter, tokenHash: string): Promise<ApiTokenWithUser | null> {
+  const result = await db
+    .prepare(
+      `SELECT t.*, u.email, u.display_name, u.status as user_status
+       FROM api_tokens t
+       JOIN users u ON t.user_id = u.id
+       WHERE t.token_hash = ?`
+    )
+    .bind(tokenHash)
+    .first<ApiTokenWithUser>();
+  return result ?? null;
+}
+
+export async function touchApiToken(db: DatabaseAdapter, id: string): Promise<void> {
+  await db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?').bind(new Date().toISOString(), id).run();
+}
+
+/**
+ * Revoke a token by id or by its displayed prefix. Prefixes are not unique, so a prefix
+ * shared by several active tokens revokes nothing and reports 'ambiguous'.
+ */
+export async function revokeApiToken(
+  db: DatabaseAdapter,
+  idOrPrefix: string
+): Promise<'revoked' | 'not_found' | 'ambiguous'> {
+  return db.transaction(async () => {
+    const matches = await db
+      .prepare('SELECT id FROM api_tokens WHERE (id = ? OR token_prefix = ?) AND revoked_at IS NULL')
+      .bind(idOrPrefix, idOrPrefix)
+      .all<{ id: string }>();
+    const rows = matches.results ?? [];
+    const byId = rows.find((row) => row.id === idOrPrefix);
+    if (!byId && rows.length > 1) {
+      return 'ambiguous';
+    }
+    const target = byId ?? rows[0];
+    if (!target) {
+      return 'not_found';
+    }
+    await db.prepare('UPDATE api_tokens SET revoked_at = ? WHERE id = ?').bind(new Date().toISOString(), target.id).run();
+    return 'revoked';
+  });
+}
@@ -2,10 +2,11 @@
 // This allows the same queries.ts to work with both Cloudflare D1 and local SQLite
 
 import Database from 'better-sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
 import { randomUUID } from 'crypto';
 import { existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
-import { splitMigrationStatements } from './migrations.js';
+import { isIgnorableMigrationError, splitMigrationStatements } from './migrations.js';
 import { getDefaultDbPath } from './db-path.js';
 
 // Polyfill crypto.randomUUID for Node.js
@@ -33,14 +34,95 @@ export interface PreparedStatement {
 export interface DatabaseAdapter {
   prepare(sql: string): PreparedStatement;
   batch(statements: PreparedStatement[]): Promise<QueryResult<unknown>[]>;
+  /**
+   * Run `fn` inside BEGIN IMMEDIATE so check-then-write sequences are atomic across processes.
+   * Commits when `fn` resolves, rolls back when it throws. Nested calls join the outer transaction.
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
   getStoragePath?(): string;
 }
 
+// How long BEGIN IMMEDIATE keeps retrying SQLITE_BUSY beyond busy_timeout
+const TRANSACTION_LOCK_TIMEOUT_MS = 15_000;
+
+function isBusyError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'SQLITE_BUSY' || code === 'SQLITE_LOCKED';
+}
+
+export interface ConnectionGate {
+  /** DatabaseAdapter.transaction() for this connection. */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+  /** Run one statement; outside a transaction's scope it waits until open transactions finish. */
+  statement<T>(fn: () => T): Promise<T>;
+}
+
+/**
+ * Serialize all work on one better-sqlite3 connection. Statements are async-shaped, so while a
+ * transaction awaits, another request's statement would otherwise run inside its BEGIN IMMEDIATE
+ * (reading its uncommitted rows and rolled back with it). Transactions and statements from
+ * outside the transaction therefore share one queue; statements inside it run directly.
+ */
+export function createConnectionGate(
+  db: Database.Database,
+  options: { lockTimeoutMs?: number } = {}
+): ConnectionGate {
+  const scope = new AsyncLocalStorage<true>();
+  const lockTimeoutMs = options.lockTimeoutMs ?? TRANSACTION_LOCK_TIMEOUT_MS;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function begin(): Promise<void> {
+    const deadline = Date.now() + lockTimeoutMs;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        db.exec('BEGIN IMMEDIATE');
+        return;
+      } catch (error) {
+        if (!isBusyError(error) || Date.now() >= deadline) {
+          throw error;
+        }
+        const backoff = Math.min(10 * 2 ** attempt, 250) + Math.random() * 10;
+        await new Promise((resolve) => setTimeout(resolve, backoff));
+      }
+    }
+  }
+
+  async function run<T>(fn: () => Promise<T>): Promise<T> {
+    await begin();
+    try {
+      const result = await scope.run(true, fn);
+      db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      if (db.inTransaction) {
+        db.exec('ROLLBACK');
+      }
+      throw error;
+    }
+  }
+
+  function enqueue<T>(fn: () => Promise<T> | T): Promise<T> {
+    const result = queue.then(fn);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  return {
+    transaction<T>(fn: () => Promise<T>): Promise<T> {
+      return scope.getStore() ? fn() : enqueue(() => run(fn));
+    },
+    statement<T>(fn: () => T): Promise<T> {
+      return scope.getStore() ? new Promise<T>((resolve) => resolve(fn())) : enqueue(fn);
+    },
+  };
+}
+
 class SqlitePreparedStatement implements PreparedStatement {
   private bindings: unknown[] = [];
 
   constructor(
     private db: Database.Database,
+    private gate: ConnectionGate,
     private sql: string
   ) {}
 
@@ -49,24 +131,27 @@ class SqlitePreparedStatement implements PreparedStatement {
     return this;
   }
 
-  async first<T>(): Promise<T | null> {
-    const stmt = this.db.prepare(this.sql);
-    const result = stmt.get(...this.bindings) as T | undefined;
-    return result ?? null;
+  first<T>(): Promise<T | null> {
+    return this.gate.statement(() => {
+      const stmt = this.db.prepare(this.sql);
+      const result = stmt.get(...this.bindings) as T | undefined;
+      return result ?? null;
+    });
   }
 
-  async all<T>(): Promise<QueryResult<T>> {
-    const stmt = this.db.prepare(this.sql);
-    const results = stmt.all(...this.bindings) as T[];
-    return {
-      results,
-      meta: { changes: 0, last_row_id: 0 },
-    };
+  all<T>(): Promise<QueryResult<T>> {
+    return this.gate.statement(() => {
+      const stmt = this.db.prepare(this.sql);
+      const results = stmt.all(...this.bindings) as T[];
+      return {
+        results,
+        meta: { changes: 0, last_row_id: 0 },
+      };
+    });
   }
 
   async run(): Promise<{ meta: { changes: number } }> {
-    const stmt = this.db.prepare(this.sql);
-    const result = stmt.run(...this.bindings);
+    const result = await this.gate.statement(() => this._run());
     // Note: wal_autocheckpoint handles periodic checkpoints automatically
     // No need to checkpoint after every write - reduces I/O overhead
     return {
@@ -84,6 +169,7 @@ class SqlitePreparedStatement implements PreparedStatement {
 class SqliteDatabase implements DatabaseAdapter {
   private db: Database.Database;
   private readonly dbPath: string;
+  private readonly gate: ConnectionGate;
 
   constructor(dbPath: string) {
     this.dbPath = dbPath;
@@ -104,16 +190,22 @@ class SqliteDatabase implements DatabaseAdapter {
 
     // Checkpoint on open to see latest data from other processes
     this.db.pragma('wal_checkpoint(PASSIVE)');
+
+    this.gate = createConnectionGate(this.db);
   }
 
   // Force checkpoint to make changes visible to other processes
   // Only called after batch operations, not after individual writes
   checkpoint(): void {
+    // SQLite refuses to checkpoint inside an open transaction; the commit makes the writes visible
+    if (this.db.inTransaction) {
+      return;
+    }
     this.db.pragma('wal_checkpoint(PASSIVE)');
   }
 
   prepare(sql: string): PreparedStatement {
-    return new SqlitePreparedStatement(this.db, sql);
+    return new SqlitePreparedStatement(this.db, this.gate, sql);
   }
 
   async batch(statements: PreparedStatement[]): Promise<QueryResult<unknown>[]> {
@@ -127,10 +219,16 @@ class SqliteDatabase implements DatabaseAdapter {
         };
       });
     });
-    const results = transaction();
-    // Checkpoint after batch write to ensure visibility to other processes
-    this.checkpoint();
-    return results;
+    return this.gate.statement(() => {
+      const results = transaction();
+      // Checkpoint after batch write to ensure visibility to other processes
+      this.checkpoint();
+      return results;
+    });
+  }
+
+  transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.gate.transaction(fn);
   }
 
   // Initialize database schema
@@ -144,13 +242,7 @@ class SqliteDatabase implements DatabaseAdapter {
           this.runSql(stmt);
         } catch (error) {
           // Ignore errors for idempotent operations (upgrades)
-          const message = error instanceof Error ? error.message : String(error);
-          const isIgnorable =
-            message.includes('already exists') ||
-            message.includes('duplicate column name') ||
-            message.includes('UNIQUE constraint failed');
-
-          if (!isIgnorable) {
+          if (!isIgnorableMigrationError(error)) {
             throw error;
           }
         }
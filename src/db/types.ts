@@ -3,17 +3,32 @@
 export type SessionStatus = 'active' | 'inactive' | 'terminated';
 export type ClaimStatus = 'active' | 'completed' | 'abandoned';
 export type ClaimScope = 'small' | 'medium' | 'large';
+// Read claims are shared; write claims are exclusive and report read holders as soft conflicts
+export type ClaimMode = 'read' | 'write';
 export type DecisionCategory = 'architecture' | 'naming' | 'api' | 'database' | 'ui' | 'other';
 
 // Audit history types
 export type AuditAction =
   | 'session_started'
   | 'session_ended'
+  | 'session_resumed'
   | 'claim_created'
   | 'claim_released'
+  | 'claim_renewed'
+  | 'claim_expired'
+  | 'claim_extended'
+  | 'claim_split'
+  | 'claim_transferred'
+  | 'claim_changed_by_git'
   | 'conflict_detected'
   | 'queue_joined'
   | 'queue_left'
+  | 'queue_promoted'
+  | 'claim_handed_off'
+  | 'deadlock_detected'
+  | 'preempt_requested'
+  | 'preempt_acknowledged'
+  | 'preempt_resolved'
   | 'priority_changed';
 
 export type AuditEntityType = 'session' | 'claim' | 'queue';
@@ -37,11 +52,15 @@ export interface AuditMetadata {
   files?: string[];
   intent?: string;
   scope?: ClaimScope;
+  mode?: ClaimMode;
   priority?: number;
   status?: ClaimStatus | 'partial';
   auto_release?: boolean;
   partial?: boolean;
   files_remaining?: number;
+  expires_at?: string | null;
+  ttl_minutes?: number;
+  commit_sha?: string;
 
   // Conflict actions
   conflicting_session_id?: string;
@@ -50,9 +69,14 @@ export interface AuditMetadata {
   // Queue actions
   position?: number;
   claim_id?: string;
+  to_session_id?: string;
+  to_session_name?: string;
+  preempt_id?: string;
 
   // Session actions
   project_root?: string;
+  branch?: string;
+  worktree?: string;
   memory_count?: number;
 
   // Generic
@@ -86,6 +110,9 @@ export interface TodoItem {
 // Session configuration
 export type ConflictMode = 'strict' | 'smart' | 'bypass';
 
+// Which session in a wait-for cycle is asked to yield its claim
+export type DeadlockResolution = 'lowest_priority' | 'youngest_claim';
+
 export interface SessionConfig {
   mode: ConflictMode;
   allow_release_others: boolean;
@@ -95,6 +122,9 @@ export interface SessionConfig {
   auto_release_immediate: boolean;
   // Grace period before stale release (minutes)
   auto_release_delay_minutes: number;
+  deadlock_resolution: DeadlockResolution;
+  // Let critical waiters take this session's claims after a preempt deadline
+  allow_preemption: boolean;
 }
 
 export const DEFAULT_SESSION_CONFIG: SessionConfig = {
@@ -104,6 +134,8 @@ export const DEFAULT_SESSION_CONFIG: SessionConfig = {
   stale_threshold_hours: 2,
   auto_release_immediate: false,
   auto_release_delay_minutes: 5,
+  deadlock_resolution: 'lowest_priority',
+  allow_preemption: false,
 };
 
 export interface SessionProgress {
@@ -121,6 +153,9 @@ export interface Session {
   created_at: string;
   last_heartbeat: string;
   status: SessionStatus;
+  branch: string | null;
+  /** Checkout path when the session works in a separate git worktree of project_root. */
+  worktree: string | null;
   current_task: string | null;
   progress: string | null; // JSON string of SessionProgress
   todos: string | null; // JSON string of TodoItem[]
@@ -132,11 +167,13 @@ export interface Claim {
   session_id: string;
   intent: string;
   scope: ClaimScope;
+  mode: ClaimMode;
   status: ClaimStatus;
   priority: number;
   created_at: string;
   updated_at: string;
   completed_summary: string | null;
+  expires_at: string | null; // Lease expiry (null = no lease)
 }
 
 // Symbol types for fine-grained conflict detection
@@ -217,6 +254,10 @@ export interface Decision {
 export interface ClaimWithFiles extends Claim {
   files: string[];
   session_name: string | null;
+  /** Machine of the owning session (set by listClaims). */
+  machine_id?: string | null;
+  /** Display name (or email) of the owning session's user, when it was started with a user API token. */
+  user_name?: string | null;
 }
 
 export interface ConflictInfo {
@@ -226,11 +267,45 @@ export interface ConflictInfo {
   file_path: string;
   intent: string;
   scope: ClaimScope;
+  /** Mode of the conflicting claim; read holders never block a write claim. */
+  claim_mode: ClaimMode;
   created_at: string;
   // Symbol-level conflict info (optional)
   symbol_name?: string;
   symbol_type?: SymbolType;
   conflict_level: 'file' | 'symbol';
+  // Branch of the owning session; cross_branch conflicts are merge risks, not concurrent edits
+  session_branch?: string | null;
+  session_machine_id?: string | null;
+  session_user?: string | null;
+  branch_scope?: BranchScope;
+}
+
+export type BranchScope = 'same_branch' | 'cross_branch';
+
+// Pending post-edit release (auto_release_immediate with a grace delay)
+export interface ScheduledRelease {
+  id: string;
+  session_id: string;
+  file_path: string;
+  release_at: string;
+  created_at: string;
+}
+
+// Request from a critical waiter for the claim owner to yield before deadline_at
+export type PreemptStatus = 'pending' | 'acknowledged' | 'released' | 'transferred' | 'cancelled';
+
+export interface PreemptRequest {
+  id: string;
+  claim_id: string;
+  requester_session_id: string;
+  owner_session_id: string;
+  intent: string;
+  priority: number;
+  status: PreemptStatus;
+  deadline_at: string;
+  created_at: string;
+  resolved_at: string | null;
 }
 
 // ============ Claim Queue Types ============
@@ -243,12 +318,28 @@ export interface QueueEntry {
   position: number;
   priority: number;
   scope: ClaimScope;
+  /** Mode of the claim the waiter asked for, and so of the claim it is handed. */
+  mode: ClaimMode;
   estimated_wait_minutes: number | null;
   created_at: string;
 }
 
+/** One edge of the wait-for graph: a queued session waiting on another session's active claim. */
+export interface WaitForEdge {
+  queue_id: string;
+  waiter_session_id: string;
+  waiter_session_name: string | null;
+  claim_id: string;
+  owner_session_id: string;
+  owner_session_name: string | null;
+  claim_priority: number;
+  claim_created_at: string;
+  files: string[];
+}
+
 export interface QueueEntryWithDetails extends QueueEntry {
   session_name: string | null;
+  session_last_heartbeat: string;
   claim_files: string[];
   owner_session_id: string;
   claim_session_name: string | null;
@@ -270,9 +361,14 @@ export type NotificationType = 'claim_released' | 'queue_ready' | 'conflict_dete
 
 export type MemoryCategory = 'finding' | 'decision' | 'state' | 'todo' | 'important' | 'context';
 
+/** 'session' memories belong to one session; 'project' memories are shared by every session in a project_root. */
+export type MemoryScope = 'session' | 'project';
+
 export interface WorkingMemory {
   id: number;
-  session_id: string;
+  session_id: string | null; // null for project-scoped memories
+  scope: MemoryScope;
+  project_root: string | null; // set for project-scoped memories
   category: MemoryCategory;
   key: string;
   content: string;
@@ -284,6 +380,32 @@ export interface WorkingMemory {
   related_claim_id: string | null;
   related_decision_id: string | null;
   metadata: string | null; // JSON string
+  created_by: string | null; // authoring session (project scope)
+  updated_by: string | null; // session that last wrote it (project scope)
+}
+
+/** A previous version of a working memory, kept when a save overwrote it or a clear deleted it. */
+export interface MemoryRevision {
+  id: number;
+  memory_id: number;
+  session_id: string | null;
+  scope: MemoryScope;
+  project_root: string | null;
+  category: MemoryCategory;
+  key: string;
+  content: string;
+  priority: number | null;
+  pinned: number | null;
+  metadata: string | null;
+  change: 'updated' | 'deleted';
+  changed_by: string | null;
+  changed_at: string;
+}
+
+/** A full-text match from searchMemory: `snippet` marks matched terms with ** and `rank` is bm25 (lower is better). */
+export interface MemorySearchResult extends WorkingMemory {
+  snippet: string;
+  rank: number;
 }
 
 export interface WorkingMemoryInput {
@@ -328,6 +450,11 @@ export interface Notification {
   created_at: string;
 }
 
+/** A notification with its rowid, which only grows, so it can serve as a stream cursor. */
+export interface SequencedNotification extends Notification {
+  seq: number;
+}
+
 export interface NotificationMetadata {
   // claim_released
   claim_id?: string;
@@ -337,12 +464,49 @@ export interface NotificationMetadata {
   // queue_ready
   queue_position?: number;
 
+  // preemption (conflict_detected / session_message)
+  preempt_id?: string;
+  deadline_at?: string;
+
   // conflict_detected
   conflicting_session_id?: string;
   conflicting_session_name?: string;
+  commit_sha?: string;
 
   // session_message
   from_session_id?: string;
   from_session_name?: string;
   is_broadcast?: boolean;
 }
+
+// ============ Auth Types ============
+
+export type UserStatus = 'active' | 'suspended' | 'deleted';
+
+export interface User {
+  id: string;
+  email: string;
+  password_hash: string;
+  display_name: string | null;
+  created_at: string;
+  updated_at: string;
+  last_login_at: string | null;
+  status: UserStatus;
+}
+
+// mcp: every tool call; read: list/check/recall calls and the event stream only
+export type ApiTokenScope = 'mcp' | 'read';
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ['mcp', 'read'];
+
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_hash: string;
+  token_prefix: string;
+  scopes: string | null; // JSON string of ApiTokenScope[]
+  last_used_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
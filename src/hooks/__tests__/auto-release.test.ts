@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
+import { createClaim, createSession, listAuditHistory, updateSessionConfig } from '../../db/queries.js';
+import { DEFAULT_SESSION_CONFIG } from '../../db/types.js';
+import type { Session } from '../../db/types.js';
+import { autoReleaseAfterEdit, processScheduledReleases } from '../auto-release.js';
+
+describe('post-edit auto-release', () => {
+  let db: TestDatabase;
+  let session: Session;
+
+  beforeEach(async () => {
+    db = createTestDatabase();
+    session = await createSession(db, { name: 'editor', project_root: '/repo' });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  async function configure(immediate: boolean, delayMinutes: number): Promise<void> {
+    await updateSessionConfig(db, session.id, {
+      ...DEFAULT_SESSION_CONFIG,
+      auto_release_immediate: immediate,
+      auto_release_delay_minutes: delayMinutes,
+    });
+  }
+
+  async function claimStatus(claimId: string): Promise<string | undefined> {
+    const row = await db.prepare('SELECT status FROM claims WHERE id = ?').bind(claimId).first<{ status: string }>();
+    return row?.status;
+  }
+
+  it('leaves claims alone unless auto_release_immediate is on', async () => {
+    await configure(false, 0);
+    const { claim } = await createClaim(db, { session_id: session.id, files: ['src/a.ts'], intent: 'edit' });
+
+    expect(await autoReleaseAfterEdit(db, { session_id: session.id, files: ['src/a.ts'] })).toEqual([]);
+    expect(await claimStatus(claim.id)).toBe('active');
+  });
+
+  it('releases the claim right away and records auto_release in the audit', async () => {
+    await configure(true, 0);
+    const { claim } = await createClaim(db, { session_id: session.id, files: ['src/a.ts'], intent: 'edit' });
+
+    const outcomes = await autoReleaseAfterEdit(db, { session_id: session.id, files: ['src/a.ts'] });
+
+    expect(outcomes).toEqual([{ file_path: 'src/a.ts', action: 'released', claim_id: claim.id, partial: false }]);
+    expect(await claimStatus(claim.id)).toBe('completed');
+    const [entry] = await listAuditHistory(db, { session_id: session.id, action: 'claim_released' });
+    expect(JSON.parse(entry?.metadata ?? '{}')).toMatchObject({ auto_release: true, files: ['src/a.ts'] });
+  });
+
+  it('drops only the edited file from a multi-file claim', async () => {
+    await configure(true, 0);
+    const { claim } = await createClaim(db, {
+      session_id: session.id,
+      files: ['src/a.ts', 'src/b.ts'],
+      intent: 'edit',
+    });
+
+    const [outcome] = await autoReleaseAfterEdit(db, { session_id: session.id, files: ['src/a.ts'] });
+
+    expect(outcome).toMatchObject({ action: 'released', partial: true });
+    expect(await claimStatus(claim.id)).toBe('active');
+    const files = await db
+      .prepare('SELECT file_path FROM claim_files WHERE claim_id = ?')
+      .bind(claim.id)
+      .all<{ file_path: string }>();
+    expect(files.results.map((row) => row.file_path)).toEqual(['src/b.ts']);
+  });
+
+  it('schedules a delayed release and processes it once due', async () => {
+    await configure(true, 5);
+    const { claim } = await createClaim(db, { session_id: session.id, files: ['src/a.ts'], intent: 'edit' });
+
+    const [outcome] = await autoReleaseAfterEdit(db, { session_id: session.id, files: ['src/a.ts', 'src/unclaimed.ts'] });
+    expect(outcome).toMatchObject({ file_path: 'src/a.ts', action: 'scheduled' });
+    expect(await processScheduledReleases(db)).toEqual([]);
+    expect(await claimStatus(claim.id)).toBe('active');
+
+    await db.prepare('UPDATE scheduled_releases SET release_at = ?').bind('2000-01-01T00:00:00.000Z').run();
+    const released = await processScheduledReleases(db);
+
+    expect(released).toMatchObject([{ file_path: 'src/a.ts', action: 'released', claim_id: claim.id }]);
+    expect(await claimStatus(claim.id)).toBe('completed');
+    const pending = await db.prepare('SELECT COUNT(*) as count FROM scheduled_releases').first<{ count: number }>();
+    expect(pending?.count).toBe(0);
+  });
+
+  it('keeps a due release scheduled when releasing the claim fails', async () => {
+    await configure(true, 5);
+    const { claim } = await createClaim(db, { session_id: session.id, files: ['src/a.ts'], intent: 'edit' });
+    await autoReleaseAfterEdit(db, { session_id: session.id, files: ['src/a.ts'] });
+    await db.prepare('UPDATE scheduled_releases SET release_at = ?').bind('2000-01-01T00:00:00.000Z').run();
+
+    await db
+      .prepare("CREATE TRIGGER fail_release BEFORE UPDATE ON claims BEGIN SELECT RAISE(ABORT, 'release failed'); END")
+      .run();
+    await expect(processScheduledReleases(db)).rejects.toThrow('release failed');
+    await db.prepare('DROP TRIGGER fail_release').run();
+
+    const pending = await db.prepare('SELECT COUNT(*) as count FROM scheduled_releases').first<{ count: number }>();
+    expect(pending?.count).toBe(1);
+    expect(await claimStatus(claim.id)).toBe('active');
+
+    expect(await processScheduledReleases(db)).toMatchObject([{ file_path: 'src/a.ts', claim_id: claim.id }]);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
+import {
+  createClaim,
+  createSession,
+  getClaim,
+  joinQueue,
+  listAuditHistory,
+  listNotificationsAfter,
+} from '../../db/queries.js';
+import {
+  GitSyncError,
+  installGitHooks,
+  readGitCheckoutFiles,
+  readGitCommit,
+  syncGitCheckout,
+  syncGitCommit,
+} from '../git-sync.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    encoding: 'utf8',
+  });
+}
+
+function commitFiles(cwd: string, files: Record<string, string>, message: string): void {
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(cwd, file)), { recursive: true });
+    writeFileSync(path.join(cwd, file), content);
+  }
+  git(cwd, 'add', '-A');
+  git(cwd, 'commit', '-q', '-m', message);
+}
+
+describe('git sync', () => {
+  let db: TestDatabase;
+  let root: string;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    root = mkdtempSync(path.join(tmpdir(), 'collab-git-'));
+    git(root, 'init', '-q', '-b', 'main');
+    commitFiles(root, { 'README.md': 'init\n' }, 'Initial commit');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    db.close();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads the commit sha, subject, trailer and files', async () => {
+    commitFiles(root, { 'src/a.ts': 'a\n', 'src/b.ts': 'b\n' }, 'Add a and b\n\nCollab-Session: sess-1');
+    const commit = await readGitCommit(root);
+
+    expect(commit.sha).toBe(git(root, 'rev-parse', 'HEAD').trim());
+    expect(commit.subject).toBe('Add a and b');
+    expect(commit.session_trailer).toBe('sess-1');
+    expect(commit.files.sort()).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+
+  it('maps files relative to a project root below the work tree', async () => {
+    commitFiles(root, { 'pkg/src/a.ts': 'a\n', 'other/b.ts': 'b\n' }, 'Touch pkg');
+    const commit = await readGitCommit(path.join(root, 'pkg'));
+    expect(commit.files).toEqual(['src/a.ts']);
+  });
+
+  it('completes claims whose files were all committed', async () => {
+    const session = await createSession(db, { name: 'auth', project_root: root });
+    const done = await createClaim(db, { session_id: session.id, files: ['src/a.ts', 'src/b.ts'], intent: 'a+b' });
+    const partial = await createClaim(db, { session_id: session.id, files: ['src/c.ts', 'src/d.ts'], intent: 'c+d' });
+    const pattern = await createClaim(db, { session_id: session.id, files: ['src/**'], intent: 'all' });
+
+    commitFiles(root, { 'src/a.ts': 'a\n', 'src/b.ts': 'b\n', 'src/c.ts': 'c\n' }, 'Implement auth');
+    const commit = await readGitCommit(root);
+    const result = await syncGitCommit(db, { project_root: root, commit, session_id: session.id });
+
+    expect(result.session_id).toBe(session.id);
+    expect(result.attribution).toBe('explicit');
+    expect(result.completed).toEqual([{ claim_id: done.claim.id, files: ['src/a.ts', 'src/b.ts'] }]);
+    expect(result.partial.map((p) => p.claim_id).sort()).toEqual([partial.claim.id, pattern.claim.id].sort());
+
+    const completed = await getClaim(db, done.claim.id);
+    expect(completed?.status).toBe('completed');
+    expect(completed?.completed_summary).toBe(`Committed in ${commit.sha.slice(0, 7)}: Implement auth`);
+    expect((await getClaim(db, partial.claim.id))?.status).toBe('active');
+
+    const [audit] = await listAuditHistory(db, { action: 'claim_released', entity_id: done.claim.id });
+    expect(JSON.parse(audit.metadata ?? '{}')).toMatchObject({ status: 'completed', commit_sha: commit.sha });
+  });
+
+  it('completes a claim once when syncs race and rolls back a failed completion', async () => {
+    const session = await createSession(db, { name: 'auth', project_root: root });
+    const waiter = await createSession(db, { name: 'waiter', project_root: root });
+    const { claim } = await createClaim(db, { session_id: session.id, files: ['src/a.ts'], intent: 'a' });
+    await joinQueue(db, { claim_id: claim.id, session_id: waiter.id, intent: 'next' });
+    commitFiles(root, { 'src/a.ts': 'a\n' }, 'Implement a');
+    const commit = await readGitCommit(root);
+
+    await db
+      .prepare(
+        "CREATE TRIGGER fail_audit BEFORE INSERT ON audit_history BEGIN SELECT RAISE(ABORT, 'audit failed'); END"
+      )
+      .run();
+    await expect(syncGitCommit(db, { project_root: root, commit, session_id: session.id })).rejects.toThrow(
+      'audit failed'
+    );
+    await db.prepare('DROP TRIGGER fail_audit').run();
+    expect((await getClaim(db, claim.id))?.status).toBe('active');
+    expect(await listNotificationsAfter(db, waiter.id, null)).toEqual([]);
+
+    const results = await Promise.all([
+      syncGitCommit(db, { project_root: root, commit, session_id: session.id }),
+      syncGitCommit(db, { project_root: root, commit, session_id: session.id }),
+    ]);
+    expect(results.flatMap((result) => result.completed)).toHaveLength(1);
+    expect(await listNotificationsAfter(db, waiter.id, null)).toHaveLength(1);
+    expect(await listAuditHistory(db, { action: 'claim_released', entity_id: claim.id })).toHaveLength(1);
+  });
+
+  it('only flags claims when the committer is guessed from them', async () => {
+    const session = await createSession(db, { name: 'auth', project_root: root });
+    const claim = await createClaim(db, { session_id: session.id, files: ['src/a.ts'], intent: 'a' });
+
+    commitFiles(root, { 'src/a.ts': 'a\n' }, 'Unattributed change');
+    const commit = await readGitCommit(root);
+    const result = await syncGitCommit(db, { project_root: root, commit });
+
+    expect(result).toMatchObject({ session_id: session.id, attribution: 'claims', completed: [], partial: [] });
+    expect(result.flagged).toEqual([{ claim_id: claim.claim.id, session_id: session.id, files: ['src/a.ts'] }]);
+    expect((await getClaim(db, claim.claim.id))?.status).toBe('active');
+
+    const [audit] = await listAuditHistory(db, { action: 'claim_changed_by_git', entity_id: claim.claim.id });
+    expect(JSON.parse(audit.metadata ?? '{}')).toMatchObject({ commit_sha: commit.sha, reason: 'unattributed_commit' });
+    const notifications = await listNotificationsAfter(db, session.id, null);
+    expect(notifications.map((notification) => notification.title)).toEqual(['Claimed files committed']);
+  });
+
+  it('flags claims of other sessions touched by the commit, once', async () => {
+    const committer = await createSession(db, { name: 'committer', project_root: root });
+    const owner = await createSession(db, { name: 'owner', project_root: root });
+    await createClaim(db, { session_id: committer.id, files: ['src/a.ts'], intent: 'mine' });
+    const foreign = await createClaim(db, { session_id: owner.id, files: ['src/db/**'], intent: 'db work' });
+
+    commitFiles(root, { 'src/a.ts': 'a\n', 'src/db/queries.ts': 'q\n' }, 'Sneaky change');
+    const commit = await readGitCommit(root);
+
+    // Both sessions' claims are touched, so the committer must be named
+    const ambiguous = await syncGitCommit(db, { project_root: root, commit });
+    expect(ambiguous.session_id).toBeNull();
+    expect(ambiguous.completed).toEqual([]);
+
+    const result = await syncGitCommit(db, { project_root: root, commit, session_id: committer.id });
+    expect(result.completed).toHaveLength(1);
+    expect(result.flagged).toEqual([
+      { claim_id: foreign.claim.id, session_id: owner.id, files: ['src/db/**'] },
+    ]);
+    expect((await getClaim(db, foreign.claim.id))?.status).toBe('active');
+
+    const notifications = await listNotificationsAfter(db, owner.id, null);
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].type).toBe('conflict_detected');
+    expect(JSON.parse(notifications[0].metadata ?? '{}')).toMatchObject({
+      claim_id: foreign.claim.id,
+      conflicting_session_id: committer.id,
+      commit_sha: commit.sha,
+    });
+
+    const again = await syncGitCommit(db, { project_root: root, commit, session_id: committer.id });
+    expect(again.flagged).toEqual([]);
+    expect(await listNotificationsAfter(db, owner.id, null)).toHaveLength(1);
+  });
+
+  it('attributes commits by trailer and rejects unknown explicit sessions', async () => {
+    const a = await createSession(db, { project_root: root });
+    const b = await createSession(db, { project_root: root });
+    const claim = await createClaim(db, { session_id: a.id, files: ['x.ts'], intent: 'x' });
+
+    commitFiles(root, { 'x.ts': 'x\n' }, `Fix x\n\nCollab-Session: ${b.id}`);
+    const commit = await readGitCommit(root);
+    const result = await syncGitCommit(db, { project_root: root, commit });
+
+    expect(result).toMatchObject({ session_id: b.id, attribution: 'trailer', completed: [] });
+    expect(result.flagged.map((f) => f.claim_id)).toEqual([claim.claim.id]);
+
+    await expect(syncGitCommit(db, { project_root: root, commit, session_id: 'missing' })).rejects.toThrow(
+      GitSyncError
+    );
+  });
+
+  it('flags claims on files changed by a branch switch', async () => {
+    const session = await createSession(db, { project_root: root });
+    const claim = await createClaim(db, { session_id: session.id, files: ['src/a.ts'], intent: 'a' });
+    const from = git(root, 'rev-parse', 'HEAD').trim();
+    git(root, 'checkout', '-q', '-b', 'feature');
+    commitFiles(root, { 'src/a.ts': 'feature\n' }, 'Feature work');
+    const to = git(root, 'rev-parse', 'HEAD').trim();
+
+    const files = await readGitCheckoutFiles(root, to, from);
+    expect(files).toEqual(['src/a.ts']);
+
+    const result = await syncGitCheckout(db, { project_root: root, from: to, to: from, files });
+    expect(result.flagged).toEqual([{ claim_id: claim.claim.id, session_id: session.id, files: ['src/a.ts'] }]);
+    expect((await getClaim(db, claim.claim.id))?.status).toBe('active');
+  });
+
+  it('installs hooks without clobbering foreign ones', async () => {
+    const hooksDir = path.join(root, '.git', 'hooks');
+    // Ignore a core.hooksPath override in the environment running the tests
+    vi.stubEnv('GIT_CONFIG_COUNT', '0');
+    writeFileSync(path.join(hooksDir, 'post-checkout'), '#!/bin/sh\necho custom\n');
+
+    const first = await installGitHooks(root);
+    expect(first.installed).toEqual([path.join(hooksDir, 'post-commit')]);
+    expect(first.skipped).toEqual([path.join(hooksDir, 'post-checkout')]);
+    expect(readFileSync(path.join(hooksDir, 'post-commit'), 'utf8')).toContain('session-collab git-sync');
+
+    const second = await installGitHooks(root);
+    expect(second.installed).toEqual([path.join(hooksDir, 'post-commit')]);
+  });
+});
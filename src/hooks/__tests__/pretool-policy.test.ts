@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { decidePretoolWrite, extractWritePath } from '../pretool-policy.js';
+import {
+  decidePretoolProtection,
+  decidePretoolSymbolWrite,
+  decidePretoolWrite,
+  extractShellWriteTargets,
+  extractWritePath,
+  extractWriteTargets,
+  locateEditLines,
+  resolveEditedSymbols,
+} from '../pretool-policy.js';
 
 describe('pretool policy', () => {
   it('allows when there are no claims', () => {
@@ -37,3 +46,195 @@ describe('pretool policy', () => {
     expect(extractWritePath('Bash', { command: 'rm' })).toBeNull();
   });
 });
+
+describe('pretool symbol policy', () => {
+  const source = [
+    'export function validateToken(token: string): boolean {',
+    '  return token.length > 0;',
+    '}',
+    '',
+    'export function refreshToken(token: string): string {',
+    '  return token;',
+    '}',
+    '',
+  ].join('\n');
+  const claimedValidate = {
+    session_id: 'other',
+    session_name: 'feature-auth',
+    file_path: 'src/auth.ts',
+    symbol_name: 'validateToken',
+  };
+
+  it('denies only when the edit touches a foreign claimed symbol', () => {
+    const touching = decidePretoolSymbolWrite({
+      selfCollabSessionId: 'self',
+      fileHits: [],
+      symbolHits: [claimedValidate],
+      touchedSymbols: ['validateToken'],
+    });
+    expect(touching.decision).toBe('deny');
+    expect(touching.reason).toContain('validateToken');
+    expect(touching.reason).toContain('feature-auth');
+
+    const elsewhere = decidePretoolSymbolWrite({
+      selfCollabSessionId: 'self',
+      fileHits: [],
+      symbolHits: [claimedValidate],
+      touchedSymbols: ['refreshToken'],
+    });
+    expect(elsewhere.decision).toBe('allow');
+  });
+
+  it('treats an unknown edit range as touching every symbol', () => {
+    const decision = decidePretoolSymbolWrite({
+      selfCollabSessionId: 'self',
+      fileHits: [],
+      symbolHits: [claimedValidate],
+      touchedSymbols: null,
+    });
+    expect(decision.decision).toBe('deny');
+  });
+
+  it('still denies file-level foreign claims regardless of symbols', () => {
+    const decision = decidePretoolSymbolWrite({
+      selfCollabSessionId: 'self',
+      fileHits: [{ session_id: 'other', session_name: 'whole-file', file_path: 'src/auth.ts' }],
+      symbolHits: [],
+      touchedSymbols: [],
+    });
+    expect(decision.decision).toBe('deny');
+    expect(decision.reason).toContain('whole-file');
+  });
+
+  it('allows the owner of the symbol claim', () => {
+    const decision = decidePretoolSymbolWrite({
+      selfCollabSessionId: 'other',
+      fileHits: [],
+      symbolHits: [claimedValidate],
+      touchedSymbols: ['validateToken'],
+    });
+    expect(decision.decision).toBe('allow');
+  });
+
+  it('locates old_string line ranges', () => {
+    expect(locateEditLines(source, 'return token;')).toEqual([{ start_line: 6, end_line: 6 }]);
+    expect(locateEditLines(source, 'token', true)?.length).toBeGreaterThan(1);
+    expect(locateEditLines(source, 'missing')).toBeNull();
+  });
+
+  it('maps an Edit to the symbols it touches', async () => {
+    expect(
+      await resolveEditedSymbols('src/auth.ts', source, {
+        old_string: 'return token;',
+        new_string: 'return token.trim();',
+      })
+    ).toEqual(['refreshToken']);
+  });
+
+  it('includes symbols declared by new_string', async () => {
+    const touched = await resolveEditedSymbols('src/auth.ts', source, {
+      old_string: 'export function refreshToken(',
+      new_string: 'export function validateToken(',
+    });
+    expect(touched).toEqual(['refreshToken', 'validateToken']);
+  });
+
+  it('returns null when the edit cannot be mapped', async () => {
+    expect(await resolveEditedSymbols('src/auth.ts', null, { old_string: 'x' })).toBeNull();
+    expect(await resolveEditedSymbols('README.md', source, { old_string: 'token' })).toBeNull();
+    expect(await resolveEditedSymbols('src/auth.ts', source, { old_string: 'not there' })).toBeNull();
+  });
+
+  it('maps every MultiEdit entry to its symbols', async () => {
+    const touched = await resolveEditedSymbols('src/auth.ts', source, {
+      file_path: 'src/auth.ts',
+      edits: [
+        { old_string: 'return token.length > 0;', new_string: 'return token.length > 1;' },
+        { old_string: 'return token;', new_string: 'return token.trim();' },
+      ],
+    });
+    expect(touched).toEqual(['validateToken', 'refreshToken']);
+
+    expect(
+      await resolveEditedSymbols('src/auth.ts', source, {
+        edits: [{ old_string: 'return token;', new_string: 'x' }, { old_string: 'gone', new_string: 'y' }],
+      })
+    ).toBeNull();
+  });
+});
+
+describe('pretool write targets', () => {
+  const paths = (command: string): string[] => extractShellWriteTargets(command).map((t) => `${t.kind}:${t.path}`);
+
+  it('extracts targets for file tools and MultiEdit', () => {
+    expect(extractWriteTargets('Edit', { file_path: 'a.ts' })).toEqual([{ path: 'a.ts', kind: 'modify' }]);
+    expect(extractWriteTargets('MultiEdit', { file_path: 'b.ts', edits: [] })).toEqual([
+      { path: 'b.ts', kind: 'modify' },
+    ]);
+    expect(extractWriteTargets('Read', { file_path: 'a.ts' })).toEqual([]);
+  });
+
+  it('parses deletes and moves', () => {
+    expect(paths('rm -rf src/db "docs/my plan.md"')).toEqual(['remove:src/db', 'remove:docs/my plan.md']);
+    expect(paths('mv src/a.ts src/b.ts')).toEqual([
+      'remove:src/a.ts',
+      'overwrite:src/b.ts/a.ts',
+      'overwrite:src/b.ts',
+    ]);
+    expect(paths('cp -r a.ts b.ts lib/')).toEqual(['overwrite:lib/a.ts', 'overwrite:lib/b.ts']);
+    expect(paths('unlink -- -odd.ts')).toEqual(['remove:-odd.ts']);
+  });
+
+  it('parses in-place edits and redirects', () => {
+    expect(paths("sed -i 's/a/b/' src/a.ts src/b.ts")).toEqual(['modify:src/a.ts', 'modify:src/b.ts']);
+    expect(paths("sed -i.bak -e 's/a/b/' src/a.ts")).toEqual(['modify:src/a.ts']);
+    expect(paths("sed 's/a/b/' src/a.ts")).toEqual([]);
+    expect(paths('echo hi > out.txt 2>/dev/null && echo more >> log.txt')).toEqual([
+      'overwrite:out.txt',
+      'modify:log.txt',
+    ]);
+    expect(paths('cat a | tee -a notes.md')).toEqual(['modify:notes.md']);
+    expect(paths('npm test 2>&1 | head')).toEqual([]);
+  });
+
+  it('parses git discards and removals', () => {
+    expect(paths('git checkout -- src/a.ts')).toEqual(['remove:src/a.ts']);
+    expect(paths('git checkout main')).toEqual([]);
+    expect(paths('git restore --staged src/a.ts')).toEqual([]);
+    expect(paths('git restore src/a.ts')).toEqual(['remove:src/a.ts']);
+    expect(paths('git -C pkg rm --cached x.ts; git rm y.ts')).toEqual(['remove:y.ts']);
+  });
+
+  it('follows cd and skips unexpanded arguments', () => {
+    expect(paths('cd src && rm a.ts')).toEqual(['remove:src/a.ts']);
+    expect(paths('rm "$TARGET" `pwd`/x')).toEqual([]);
+    expect(paths('FOO=1 sudo rm /tmp/x # rm ignored')).toEqual(['remove:/tmp/x']);
+  });
+});
+
+describe('pretool protection policy', () => {
+  const protections = [
+    { session_id: 'planner', session_name: 'planner', file_path: 'docs/plan.md', reason: 'plan' as const },
+  ];
+
+  it('denies removing or replacing a protected file', () => {
+    const decision = decidePretoolProtection({
+      target: { path: 'docs/plan.md', kind: 'remove' },
+      protections,
+    });
+    expect(decision.decision).toBe('deny');
+    expect(decision.reason).toContain('protected plan');
+
+    expect(
+      decidePretoolProtection({ target: { path: 'docs/plan.md', kind: 'overwrite' }, protections }).decision
+    ).toBe('deny');
+  });
+
+  it('allows in-place edits of protected files', () => {
+    const decision = decidePretoolProtection({
+      target: { path: 'docs/plan.md', kind: 'modify' },
+      protections,
+    });
+    expect(decision.decision).toBe('allow');
+  });
+});
@@ -0,0 +1,136 @@
+// Post-edit auto-release: auto_release_immediate releases a session's claim on a file
+// once it has been written, right away or after auto_release_delay_minutes.
+
+import type { DatabaseAdapter } from '../db/sqlite-adapter.js';
+import {
+  clearMemory,
+  deleteScheduledRelease,
+  getClaimInfoByFile,
+  getSession,
+  listDueReleases,
+  logAuditEvent,
+  notifyQueueOnClaimRelease,
+  releaseClaimByFile,
+  scheduleClaimRelease,
+} from '../db/queries.js';
+import { DEFAULT_SESSION_CONFIG } from '../db/types.js';
+import type { SessionConfig } from '../db/types.js';
+
+export type AutoReleaseOutcome = {
+  file_path: string;
+  action: 'released' | 'scheduled';
+  claim_id?: string;
+  partial?: boolean;
+  release_at?: string;
+};
+
+function parseConfig(config: string | null): SessionConfig {
+  try {
+    return { ...DEFAULT_SESSION_CONFIG, ...(config ? (JSON.parse(config) as Partial<SessionConfig>) : {}) };
+  } catch {
+    return DEFAULT_SESSION_CONFIG;
+  }
+}
+
+/**
+ * Release the session's exact-file claim on `filePath` (the whole claim when it is the last file).
+ * Directory and glob claims are left alone: they cover more than the edited file.
+ */
+async function releaseEditedFile(
+  db: DatabaseAdapter,
+  sessionId: string,
+  filePath: string
+): Promise<AutoReleaseOutcome | null> {
+  return db.transaction(async () => {
+    const info = await getClaimInfoByFile(db, sessionId, filePath);
+    if (!info) {
+      return null;
+    }
+    if (info.file_count <= 1) {
+      await notifyQueueOnClaimRelease(db, info.claim_id, sessionId, info.files);
+    }
+
+    const result = await releaseClaimByFile(db, sessionId, filePath);
+    if (!result.released || !result.claim_id) {
+      return null;
+    }
+
+    await logAuditEvent(db, {
+      session_id: sessionId,
+      action: 'claim_released',
+      entity_type: 'claim',
+      entity_id: result.claim_id,
+      metadata: {
+        status: result.partial ? 'partial' : 'completed',
+        files: [filePath],
+        auto_release: true,
+        partial: result.partial,
+        files_remaining: result.files_remaining,
+      },
+    });
+    if (!result.partial) {
+      await clearMemory(db, sessionId, { key: `claim_${result.claim_id}` });
+    }
+
+    return { file_path: filePath, action: 'released', claim_id: result.claim_id, partial: result.partial };
+  });
+}
+
+/**
+ * Apply the session's auto-release config after a successful write of `files`
+ * (project-relative paths). Sessions without auto_release_immediate are untouched.
+ */
+export async function autoReleaseAfterEdit(
+  db: DatabaseAdapter,
+  params: { session_id: string; files: string[] }
+): Promise<AutoReleaseOutcome[]> {
+  const session = await getSession(db, params.session_id);
+  if (!session || session.status !== 'active') {
+    return [];
+  }
+  const config = parseConfig(session.config);
+  if (!config.auto_release_immediate) {
+    return [];
+  }
+
+  const outcomes: AutoReleaseOutcome[] = [];
+  for (const file of params.files) {
+    if (config.auto_release_delay_minutes > 0) {
+      // Only files this session actually claims are worth scheduling
+      if (!(await getClaimInfoByFile(db, session.id, file))) {
+        continue;
+      }
+      const releaseAt = new Date(Date.now() + config.auto_release_delay_minutes * 60 * 1000).toISOString();
+      await scheduleClaimRelease(db, { session_id: session.id, file_path: file, release_at: releaseAt });
+      outcomes.push({ file_path: file, action: 'scheduled', release_at: releaseAt });
+      continue;
+    }
+
+    const released = await releaseEditedFile(db, session.id, file);
+    if (released) {
+      outcomes.push(released);
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Release every scheduled post-edit release that is due. Run by the servers' claim sweeps
+ * and by the PostToolUse hook; safe to run from several processes at once.
+ * Each schedule is removed in the same transaction as its release, so a failed release stays scheduled.
+ */
+export async function processScheduledReleases(db: DatabaseAdapter): Promise<AutoReleaseOutcome[]> {
+  const outcomes: AutoReleaseOutcome[] = [];
+  for (const due of await listDueReleases(db)) {
+    const released = await db.transaction(async () => {
+      if (!(await deleteScheduledRelease(db, due.id))) {
+        return null;
+      }
+      return releaseEditedFile(db, due.session_id, due.file_path);
+    });
+    if (released) {
+      outcomes.push(released);
+    }
+  }
+  return outcomes;
+}
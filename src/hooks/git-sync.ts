@@ -0,0 +1,368 @@
+// Git integration: reconcile active claims with commits and branch switches in project_root.
+// Driven by `session-collab git-sync`, usually from the post-commit / post-checkout hooks it installs.
+
+import { execFile } from 'node:child_process';
+import { chmod, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { DatabaseAdapter } from '../db/sqlite-adapter.js';
+import type { ClaimWithFiles, Session } from '../db/types.js';
+import {
+  clearMemory,
+  createNotification,
+  listAuditHistory,
+  listClaims,
+  listSessions,
+  logAuditEvent,
+  notifyQueueOnClaimRelease,
+  releaseClaim,
+} from '../db/queries.js';
+import { claimPathsOverlap, isClaimPattern, normalizeProjectRoot } from '../utils/paths.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Commit trailer naming the collab session that made the commit. */
+export const SESSION_TRAILER = 'Collab-Session';
+
+const HOOK_MARKER = '# session-collab git-sync hook';
+
+// Runs from git hooks, so a wedged git (e.g. waiting on a lock) must not hang the commit
+const GIT_TIMEOUT_MS = 10_000;
+
+export class GitSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitSyncError';
+  }
+}
+
+export type GitCommit = {
+  sha: string;
+  subject: string;
+  /** Session id from the Collab-Session trailer, if present. */
+  session_trailer: string | null;
+  /** Changed files relative to project_root; files outside it are dropped. */
+  files: string[];
+};
+
+export type CommitAttribution = 'explicit' | 'trailer' | 'claims' | 'sole_session';
+
+export type GitSyncResult = {
+  commit_sha: string;
+  session_id: string | null;
+  attribution: CommitAttribution | null;
+  completed: Array<{ claim_id: string; files: string[] }>;
+  /** Committer claims with some files still uncommitted; they stay active. */
+  partial: Array<{ claim_id: string; files_remaining: string[] }>;
+  flagged: Array<{ claim_id: string; session_id: string; files: string[] }>;
+};
+
+export type GitCheckoutResult = {
+  from: string;
+  to: string;
+  flagged: Array<{ claim_id: string; session_id: string; files: string[] }>;
+};
+
+async function git(projectRoot: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: projectRoot,
+      maxBuffer: 16 * 1024 * 1024,
+      timeout: GIT_TIMEOUT_MS,
+    });
+    return stdout;
+  } catch (error) {
+    const { stderr, killed } = error as { stderr?: string; killed?: boolean };
+    if (killed) {
+      throw new GitSyncError(`git ${args[0]} timed out after ${GIT_TIMEOUT_MS} ms`);
+    }
+    throw new GitSyncError(
+      `git ${args[0]} failed: ${stderr?.trim() || (error instanceof Error ? error.message : String(error))}`
+    );
+  }
+}
+
+/** Map NUL-separated repository paths to project_root-relative paths. */
+async function toProjectPaths(projectRoot: string, output: string): Promise<string[]> {
+  // --show-prefix is the project_root location inside the work tree ('' at the top level)
+  const prefix = (await git(projectRoot, ['rev-parse', '--show-prefix'])).trim();
+  const files = new Set<string>();
+  for (const file of output.split('\0')) {
+    if (file && file.startsWith(prefix)) {
+      files.add(file.slice(prefix.length));
+    }
+  }
+  return Array.from(files);
+}
+
+export async function readGitCommit(projectRoot: string, rev: string = 'HEAD'): Promise<GitCommit> {
+  const root = normalizeProjectRoot(projectRoot);
+  const format = `%H%x00%s%x00%(trailers:key=${SESSION_TRAILER},valueonly,separator=%x00)`;
+  const [sha, subject = '', trailer = ''] = (await git(root, ['log', '-1', `--format=${format}`, rev, '--']))
+    .replace(/\n+$/, '')
+    .split('\0');
+  const changed = await git(root, ['diff-tree', '--no-commit-id', '--name-only', '-r', '-z', '--root', sha]);
+
+  return {
+    sha,
+    subject,
+    session_trailer: trailer.trim() || null,
+    files: await toProjectPaths(root, changed),
+  };
+}
+
+/** Files that differ between two revisions, e.g. the old and new HEAD of a branch switch. */
+export async function readGitCheckoutFiles(projectRoot: string, from: string, to: string): Promise<string[]> {
+  const root = normalizeProjectRoot(projectRoot);
+  const changed = await git(root, ['diff', '--name-only', '-z', '--no-renames', from, to, '--']);
+  return toProjectPaths(root, changed);
+}
+
+function overlappingFiles(claim: ClaimWithFiles, files: string[]): string[] {
+  return claim.files.filter((claimed) => files.some((file) => claimPathsOverlap(file, claimed)));
+}
+
+/**
+ * Pick the session that made the commit: explicit id, then the commit trailer,
+ * then the only session whose claims the commit touches, then the only active session.
+ */
+function attributeCommit(
+  sessions: Session[],
+  claims: ClaimWithFiles[],
+  commit: GitCommit,
+  explicitSessionId?: string
+): { session_id: string; attribution: CommitAttribution } | null {
+  const active = new Set(sessions.map((session) => session.id));
+
+  if (explicitSessionId) {
+    if (!active.has(explicitSessionId)) {
+      throw new GitSyncError(`Session ${explicitSessionId} is not active in this project`);
+    }
+    return { session_id: explicitSessionId, attribution: 'explicit' };
+  }
+
+  if (commit.session_trailer && active.has(commit.session_trailer)) {
+    return { session_id: commit.session_trailer, attribution: 'trailer' };
+  }
+
+  const touched = new Set(
+    claims.filter((claim) => overlappingFiles(claim, commit.files).length > 0).map((claim) => claim.session_id)
+  );
+  if (touched.size === 1) {
+    return { session_id: Array.from(touched)[0], attribution: 'claims' };
+  }
+  if (touched.size === 0 && sessions.length === 1) {
+    return { session_id: sessions[0].id, attribution: 'sole_session' };
+  }
+  return null;
+}
+
+async function alreadyFlagged(db: DatabaseAdapter, claimId: string, ref: string): Promise<boolean> {
+  const events = await listAuditHistory(db, { action: 'claim_changed_by_git', entity_id: claimId, limit: 100 });
+  return events.some((event) => {
+    const metadata = event.metadata ? (JSON.parse(event.metadata) as { commit_sha?: string }) : {};
+    return metadata.commit_sha === ref;
+  });
+}
+
+/**
+ * Reconcile active claims with one commit.
+ * The committing session's claims whose files were all committed are completed with the SHA;
+ * pattern claims are never auto-completed. Other sessions' claims touched by the commit are flagged.
+ * A committer guessed from the claims alone is not trusted to complete anything: its claims are only flagged.
+ * When the committer cannot be determined nothing is changed.
+ */
+export async function syncGitCommit(
+  db: DatabaseAdapter,
+  params: { project_root: string; commit: GitCommit; session_id?: string }
+): Promise<GitSyncResult> {
+  const projectRoot = normalizeProjectRoot(params.project_root);
+  const { commit } = params;
+  const sessions = await listSessions(db, { project_root: projectRoot });
+  const claims = await listClaims(db, { project_root: projectRoot, status: 'active' });
+  const result: GitSyncResult = {
+    commit_sha: commit.sha,
+    session_id: null,
+    attribution: null,
+    completed: [],
+    partial: [],
+    flagged: [],
+  };
+
+  const committer = attributeCommit(sessions, claims, commit, params.session_id);
+  if (!committer) {
+    return result;
+  }
+  result.session_id = committer.session_id;
+  result.attribution = committer.attribution;
+
+  const committed = new Set(commit.files);
+  const shortSha = commit.sha.slice(0, 7);
+  // Without an explicit id, trailer or env binding the commit may well be someone else's
+  const confirmed = committer.attribution !== 'claims';
+
+  for (const claim of claims) {
+    const touched = overlappingFiles(claim, commit.files);
+    if (touched.length === 0) continue;
+
+    if (confirmed && claim.session_id === committer.session_id) {
+      const remaining = claim.files.filter((file) => isClaimPattern(file) || !committed.has(file));
+      if (remaining.length > 0) {
+        result.partial.push({ claim_id: claim.id, files_remaining: remaining });
+        continue;
+      }
+
+      // A tool call or another git-sync may release the claim first; only the release that lands notifies
+      const completed = await db.transaction(async () => {
+        const released = await releaseClaim(db, claim.id, {
+          status: 'completed',
+          summary: `Committed in ${shortSha}: ${commit.subject}`,
+        });
+        if (!released) {
+          return false;
+        }
+        await notifyQueueOnClaimRelease(db, claim.id, claim.session_id, claim.files);
+        await logAuditEvent(db, {
+          session_id: claim.session_id,
+          action: 'claim_released',
+          entity_type: 'claim',
+          entity_id: claim.id,
+          metadata: { status: 'completed', files: claim.files, commit_sha: commit.sha },
+        });
+        await clearMemory(db, claim.session_id, { key: `claim_${claim.id}` });
+        return true;
+      });
+      if (completed) {
+        result.completed.push({ claim_id: claim.id, files: claim.files });
+      }
+      continue;
+    }
+
+    if (await alreadyFlagged(db, claim.id, commit.sha)) continue;
+
+    const own = claim.session_id === committer.session_id;
+    const committerName = sessions.find((session) => session.id === committer.session_id)?.name ?? undefined;
+    const conflicting = own
+      ? {}
+      : { conflicting_session_id: committer.session_id, conflicting_session_name: committerName };
+    await createNotification(db, {
+      session_id: claim.session_id,
+      type: 'conflict_detected',
+      title: own ? 'Claimed files committed' : 'Claimed files changed by another session',
+      message: own
+        ? `Commit ${shortSha} (${commit.subject}) changed ${touched.join(', ')} but names no session, so your claim stays active. Release it if the work is done.`
+        : `Commit ${shortSha} (${commit.subject}) changed ${touched.join(', ')} while you hold a claim on them.`,
+      reference_type: 'claim',
+      reference_id: claim.id,
+      metadata: {
+        claim_id: claim.id,
+        files: touched,
+        ...conflicting,
+        commit_sha: commit.sha,
+      },
+    });
+    await logAuditEvent(db, {
+      session_id: claim.session_id,
+      action: 'claim_changed_by_git',
+      entity_type: 'claim',
+      entity_id: claim.id,
+      metadata: {
+        files: touched,
+        ...conflicting,
+        commit_sha: commit.sha,
+        reason: own ? 'unattributed_commit' : 'commit',
+      },
+    });
+    result.flagged.push({ claim_id: claim.id, session_id: claim.session_id, files: touched });
+  }
+
+  return result;
+}
+
+/**
+ * A branch switch rewrites the work tree under every session using that checkout,
+ * so all their active claims on files that differ between the two revisions are flagged.
+ */
+export async function syncGitCheckout(
+  db: DatabaseAdapter,
+  params: { project_root: string; from: string; to: string; files: string[] }
+): Promise<GitCheckoutResult> {
+  const checkoutRoot = normalizeProjectRoot(params.project_root);
+  // Other worktrees of the repository keep their own files
+  const sessions = await listSessions(db, { project_root: checkoutRoot });
+  const inCheckout = new Set(
+    sessions
+      .filter((session) => (session.worktree ?? session.project_root) === checkoutRoot)
+      .map((session) => session.id)
+  );
+  const claims = await listClaims(db, { project_root: checkoutRoot, status: 'active' });
+  const result: GitCheckoutResult = { from: params.from, to: params.to, flagged: [] };
+  const ref = `${params.from}..${params.to}`;
+
+  for (const claim of claims.filter((entry) => inCheckout.has(entry.session_id))) {
+    const touched = overlappingFiles(claim, params.files);
+    if (touched.length === 0 || (await alreadyFlagged(db, claim.id, ref))) continue;
+
+    await createNotification(db, {
+      session_id: claim.session_id,
+      type: 'conflict_detected',
+      title: 'Claimed files changed by a branch switch',
+      message: `Switching from ${params.from.slice(0, 7)} to ${params.to.slice(0, 7)} changed ${touched.join(', ')} in the work tree.`,
+      reference_type: 'claim',
+      reference_id: claim.id,
+      metadata: { claim_id: claim.id, files: touched, commit_sha: ref },
+    });
+    await logAuditEvent(db, {
+      session_id: claim.session_id,
+      action: 'claim_changed_by_git',
+      entity_type: 'claim',
+      entity_id: claim.id,
+      metadata: { files: touched, commit_sha: ref, reason: 'checkout' },
+    });
+    result.flagged.push({ claim_id: claim.id, session_id: claim.session_id, files: touched });
+  }
+
+  return result;
+}
+
+const HOOK_SCRIPTS: Record<string, string> = {
+  'post-commit': `#!/bin/sh
+${HOOK_MARKER}
+command -v session-collab >/dev/null 2>&1 || exit 0
+session-collab git-sync >/dev/null 2>&1 || true
+`,
+  'post-checkout': `#!/bin/sh
+${HOOK_MARKER}
+# $3 is 1 for branch checkouts, 0 for file checkouts
+[ "$3" = "1" ] || exit 0
+command -v session-collab >/dev/null 2>&1 || exit 0
+session-collab git-sync --from "$1" --to "$2" >/dev/null 2>&1 || true
+`,
+};
+
+/**
+ * Install the post-commit and post-checkout hooks into the repository at project_root.
+ * Existing hooks not written by session-collab are left alone and reported as skipped.
+ */
+export async function installGitHooks(
+  projectRoot: string
+): Promise<{ installed: string[]; skipped: string[] }> {
+  const root = normalizeProjectRoot(projectRoot);
+  const hooksDir = path.resolve(root, (await git(root, ['rev-parse', '--git-path', 'hooks'])).trim());
+  await mkdir(hooksDir, { recursive: true });
+
+  const installed: string[] = [];
+  const skipped: string[] = [];
+  for (const [name, script] of Object.entries(HOOK_SCRIPTS)) {
+    const hookPath = path.join(hooksDir, name);
+    const existing = await readFile(hookPath, 'utf8').catch(() => null);
+    if (existing !== null && !existing.includes(HOOK_MARKER)) {
+      skipped.push(hookPath);
+      continue;
+    }
+    await writeFile(hookPath, script);
+    await chmod(hookPath, 0o755);
+    installed.push(hookPath);
+  }
+  return { installed, skipped };
+}
@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+// PostToolUse hook: after a successful Write/Edit, apply the session's auto_release_immediate
+// config to the claim on the written file (release now or after auto_release_delay_minutes).
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { createLocalDatabase, getDefaultDbPath } from '../db/sqlite-adapter.js';
+import { lookupCollabSessionId } from '../db/client-map.js';
+import { normalizeClaimPath, normalizeProjectRoot, PathNormalizationError } from '../utils/paths.js';
+import { extractWriteTargets } from './pretool-policy.js';
+import { autoReleaseAfterEdit, processScheduledReleases } from './auto-release.js';
+
+type HookInput = {
+  session_id?: string;
+  cwd?: string;
+  hook_event_name?: string;
+  tool_name?: string;
+  tool_input?: Record<string, unknown>;
+  tool_response?: Record<string, unknown>;
+};
+
+const WRITE_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'NotebookEdit']);
+
+function done(systemMessage?: string): never {
+  process.stdout.write(`${JSON.stringify(systemMessage ? { continue: true, systemMessage } : { continue: true })}\n`);
+  process.exit(0);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function main(): Promise<void> {
+  if (process.env.SESSION_COLLAB_HOOK_DISABLE === '1') {
+    done();
+  }
+
+  const raw = await readStdin();
+  let input: HookInput = {};
+  try {
+    input = raw.trim() ? (JSON.parse(raw) as HookInput) : {};
+  } catch {
+    done();
+  }
+
+  const toolName = input.tool_name ?? '';
+  if (!WRITE_TOOLS.has(toolName) || input.tool_response?.success === false) {
+    done();
+  }
+
+  const dbPath = getDefaultDbPath();
+  if (!existsSync(dbPath)) {
+    done();
+  }
+
+  const projectRoot = normalizeProjectRoot(
+    process.env.CLAUDE_PROJECT_DIR?.trim() || input.cwd || process.cwd()
+  );
+  const files: string[] = [];
+  for (const target of extractWriteTargets(toolName, input.tool_input)) {
+    try {
+      files.push(normalizeClaimPath(path.resolve(input.cwd || projectRoot, target.path), projectRoot));
+    } catch (error) {
+      if (!(error instanceof PathNormalizationError)) throw error;
+    }
+  }
+
+  const db = createLocalDatabase(dbPath);
+  try {
+    await processScheduledReleases(db);
+    if (files.length === 0) {
+      done();
+    }
+
+    let sessionId = lookupCollabSessionId(input.session_id);
+    if (!sessionId) {
+      const activeSessions = await db
+        .prepare(`SELECT id FROM sessions WHERE status = 'active' AND COALESCE(worktree, project_root) = ?`)
+        .bind(projectRoot)
+        .all<{ id: string }>();
+      sessionId = activeSessions.results.length === 1 ? activeSessions.results[0]?.id ?? null : null;
+    }
+    if (!sessionId) {
+      done();
+    }
+
+    const outcomes = await autoReleaseAfterEdit(db, { session_id: sessionId, files });
+    const released = outcomes.filter((outcome) => outcome.action === 'released').map((outcome) => outcome.file_path);
+    const scheduled = outcomes.filter((outcome) => outcome.action === 'scheduled').map((outcome) => outcome.file_path);
+    const notes = [
+      ...(released.length > 0 ? [`released claim on ${released.join(', ')}`] : []),
+      ...(scheduled.length > 0 ? [`scheduled claim release on ${scheduled.join(', ')}`] : []),
+    ];
+    done(notes.length > 0 ? `session-collab: ${notes.join('; ')} (auto_release_immediate).` : undefined);
+  } finally {
+    db.close();
+  }
+}
+
+main().catch(() => {
+  done();
+});
@@ -1,9 +1,25 @@
 #!/usr/bin/env node
-import { existsSync } from 'node:fs';
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
 import { createLocalDatabase, getDefaultDbPath } from '../db/sqlite-adapter.js';
+import type { DatabaseAdapter } from '../db/sqlite-adapter.js';
+import { getProtectedFiles, isFileProtected } from '../db/queries.js';
 import { lookupCollabSessionId, writePendingClientSession } from '../db/client-map.js';
-import { normalizeClaimPath, normalizeProjectRoot, PathNormalizationError } from '../utils/paths.js';
-import { decidePretoolWrite, extractWritePath } from './pretool-policy.js';
+import {
+  claimPathsOverlap,
+  isClaimPattern,
+  normalizeClaimPath,
+  normalizeProjectRoot,
+  PathNormalizationError,
+  toSqlGlob,
+} from '../utils/paths.js';
+import {
+  decidePretoolProtection,
+  decidePretoolSymbolWrite,
+  extractWriteTargets,
+  resolveEditedSymbols,
+} from './pretool-policy.js';
+import type { ClaimHit, ProtectionHit, SymbolClaimHit, WriteTarget } from './pretool-policy.js';
 
 type HookInput = {
   session_id?: string;
@@ -27,6 +43,14 @@ function deny(reason: string): never {
   process.exit(2);
 }
 
+function readSource(filePath: string): string | null {
+  try {
+    return readFileSync(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
 async function readStdin(): Promise<string> {
   const chunks: Buffer[] = [];
   for await (const chunk of process.stdin) {
@@ -54,8 +78,8 @@ async function main(): Promise<void> {
   }
 
   const toolName = input.tool_name ?? '';
-  const filePath = extractWritePath(toolName, input.tool_input);
-  if (!filePath) {
+  const targets = extractWriteTargets(toolName, input.tool_input);
+  if (targets.length === 0) {
     allow();
   }
 
@@ -67,49 +91,59 @@ async function main(): Promise<void> {
   const projectRoot = normalizeProjectRoot(
     process.env.CLAUDE_PROJECT_DIR?.trim() || input.cwd || process.cwd()
   );
-
-  let relativePath: string;
-  try {
-    relativePath = normalizeClaimPath(filePath, projectRoot);
-  } catch (error) {
-    if (error instanceof PathNormalizationError) {
-      allow();
-    }
-    throw error;
+  const resolvedTargets = resolveTargets(targets, input.cwd || projectRoot, projectRoot);
+  if (resolvedTargets.length === 0) {
+    allow();
   }
 
   const db = createLocalDatabase(dbPath);
   try {
-    const hits = await db
-      .prepare(
-        `SELECT c.session_id as session_id, s.name as session_name, cf.file_path as file_path
-         FROM claim_files cf
-         JOIN claims c ON c.id = cf.claim_id
-         JOIN sessions s ON s.id = c.session_id
-         WHERE c.status = 'active' AND s.status = 'active'
-           AND s.project_root = ? AND cf.file_path = ?`
-      )
-      .bind(projectRoot, relativePath)
-      .all<{ session_id: string; session_name: string; file_path: string }>();
-
+    const now = new Date().toISOString();
+    // Only sessions working in this checkout: other git worktrees edit their own copies
     const activeSessions = await db
       .prepare(
-        `SELECT id FROM sessions WHERE status = 'active' AND project_root = ?`
+        `SELECT id, name FROM sessions WHERE status = 'active' AND COALESCE(worktree, project_root) = ?`
       )
       .bind(projectRoot)
-      .all<{ id: string }>();
+      .all<{ id: string; name: string | null }>();
 
     const soleActiveSessionId =
       activeSessions.results.length === 1 ? activeSessions.results[0]?.id ?? null : null;
+    const selfCollabSessionId = lookupCollabSessionId(input.session_id);
+    const isEdit = toolName === 'Edit' || toolName === 'MultiEdit';
+
+    for (const target of resolvedTargets) {
+      const fileHits = await findFileHits(db, projectRoot, target.path, now);
+      const symbolHits = await findSymbolHits(db, projectRoot, target.path, now);
+
+      // Only parse the file when symbol claims exist; other tools replace or remove the whole file
+      let touchedSymbols: string[] | null = null;
+      if (symbolHits.length > 0 && isEdit && !isClaimPattern(target.path)) {
+        touchedSymbols = await resolveEditedSymbols(
+          target.path,
+          readSource(path.join(projectRoot, target.path)),
+          input.tool_input
+        );
+      }
 
-    const decision = decidePretoolWrite({
-      selfCollabSessionId: lookupCollabSessionId(input.session_id),
-      soleActiveSessionId,
-      hits: hits.results,
-    });
+      const decision = decidePretoolSymbolWrite({
+        selfCollabSessionId,
+        soleActiveSessionId,
+        fileHits,
+        symbolHits,
+        touchedSymbols,
+      });
+      if (decision.decision === 'deny' && decision.reason) {
+        deny(decision.reason);
+      }
 
-    if (decision.decision === 'deny' && decision.reason) {
-      deny(decision.reason);
+      if (target.kind !== 'modify') {
+        const protections = await findProtections(db, activeSessions.results, projectRoot, target.path);
+        const protection = decidePretoolProtection({ target, protections });
+        if (protection.decision === 'deny' && protection.reason) {
+          deny(protection.reason);
+        }
+      }
     }
     allow();
   } finally {
@@ -117,6 +151,116 @@ async function main(): Promise<void> {
   }
 }
 
+/**
+ * Normalize targets against project_root, dropping those outside it.
+ * Removals may name a directory (`rm -r src/db`), so they also cover everything beneath the path.
+ */
+function resolveTargets(targets: WriteTarget[], cwd: string, projectRoot: string): WriteTarget[] {
+  const resolved: WriteTarget[] = [];
+  for (const target of targets) {
+    const absolute = path.resolve(cwd, target.path);
+    const candidates = target.kind === 'remove' ? [absolute, `${absolute}/`] : [absolute];
+    for (const candidate of candidates) {
+      try {
+        resolved.push({ path: normalizeClaimPath(candidate, projectRoot), kind: target.kind });
+      } catch (error) {
+        if (!(error instanceof PathNormalizationError)) throw error;
+      }
+    }
+  }
+  return resolved;
+}
+
+/** File-level hits: write claims covering the path that hold no symbol rows for it (read claims never deny). */
+async function findFileHits(
+  db: DatabaseAdapter,
+  projectRoot: string,
+  relativePath: string,
+  now: string
+): Promise<ClaimHit[]> {
+  const hits = await db
+    .prepare(
+      `SELECT c.session_id as session_id, s.name as session_name, cf.file_path as file_path
+       FROM claim_files cf
+       JOIN claims c ON c.id = cf.claim_id
+       JOIN sessions s ON s.id = c.session_id
+       WHERE c.status = 'active' AND s.status = 'active' AND c.mode = 'write'
+         AND (c.expires_at IS NULL OR c.expires_at > ?)
+         AND COALESCE(s.worktree, s.project_root) = ? AND (cf.is_pattern = 1 OR cf.file_path GLOB ?)
+         AND NOT EXISTS (
+           SELECT 1 FROM claim_symbols cs WHERE cs.claim_id = c.id AND cs.file_path = cf.file_path
+         )`
+    )
+    .bind(now, projectRoot, toSqlGlob(relativePath))
+    .all<ClaimHit>();
+  // Directory and glob claims cover the target when the patterns overlap
+  return hits.results.filter((hit) => claimPathsOverlap(relativePath, hit.file_path));
+}
+
+async function findSymbolHits(
+  db: DatabaseAdapter,
+  projectRoot: string,
+  relativePath: string,
+  now: string
+): Promise<SymbolClaimHit[]> {
+  const hits = await db
+    .prepare(
+      `SELECT c.session_id as session_id, s.name as session_name, cs.file_path as file_path,
+              cs.symbol_name as symbol_name
+       FROM claim_symbols cs
+       JOIN claims c ON c.id = cs.claim_id
+       JOIN sessions s ON s.id = c.session_id
+       WHERE c.status = 'active' AND s.status = 'active' AND c.mode = 'write'
+         AND (c.expires_at IS NULL OR c.expires_at > ?)
+         AND COALESCE(s.worktree, s.project_root) = ? AND cs.file_path GLOB ?`
+    )
+    .bind(now, projectRoot, toSqlGlob(relativePath))
+    .all<SymbolClaimHit>();
+  return hits.results;
+}
+
+/** collab_protect registrations from any active session in the project that cover the target. */
+async function findProtections(
+  db: DatabaseAdapter,
+  sessions: Array<{ id: string; name: string | null }>,
+  projectRoot: string,
+  relativePath: string
+): Promise<ProtectionHit[]> {
+  const protections: ProtectionHit[] = [];
+  for (const session of sessions) {
+    const sessionName = session.name ?? session.id;
+    if (!isClaimPattern(relativePath)) {
+      // Protected paths are stored as registered, so try both the relative and absolute spelling
+      for (const candidate of [relativePath, path.join(projectRoot, relativePath)]) {
+        const result = await isFileProtected(db, session.id, candidate);
+        if (result.protected && result.reason) {
+          protections.push({ session_id: session.id, session_name: sessionName, file_path: relativePath, reason: result.reason });
+          break;
+        }
+      }
+      continue;
+    }
+
+    for (const file of await getProtectedFiles(db, session.id)) {
+      let protectedPath: string;
+      try {
+        protectedPath = normalizeClaimPath(file.file_path, projectRoot);
+      } catch {
+        continue;
+      }
+      if (claimPathsOverlap(relativePath, protectedPath)) {
+        protections.push({
+          session_id: session.id,
+          session_name: sessionName,
+          file_path: protectedPath,
+          reason: file.protection_type,
+        });
+      }
+    }
+  }
+  return protections;
+}
+
 main().catch(() => {
   allow();
 });
@@ -1,3 +1,6 @@
+import { findEnclosingSymbols, indexSource, isIndexableFile } from '../utils/symbol-index.js';
+import type { IndexedSymbol } from '../utils/symbol-index.js';
+
 export type ClaimHit = {
   session_id: string;
   session_name: string;
@@ -48,3 +51,467 @@ export function extractWritePath(toolName: string, toolInput: Record<string, unk
   }
   return null;
 }
+
+export type WriteTarget = {
+  path: string;
+  /**
+   * modify: content edited in place; overwrite: replaced wholesale (cp/mv destination, `>`);
+   * remove: deleted, moved away or reverted, possibly a whole directory.
+   */
+  kind: 'modify' | 'overwrite' | 'remove';
+};
+
+type ShellWord = {
+  value: string;
+  /** Contains `$` or backticks, so the real path is unknown until the shell expands it. */
+  dynamic: boolean;
+};
+
+type ShellCommand = {
+  words: ShellWord[];
+  outputs: Array<ShellWord & { append: boolean }>;
+};
+
+/** Split a shell line into simple commands with their words and output-redirect targets. */
+function parseShellCommands(command: string): ShellCommand[] {
+  const commands: ShellCommand[] = [];
+  let current: ShellCommand = { words: [], outputs: [] };
+  let word = '';
+  let dynamic = false;
+  let inWord = false;
+  let pending: 'output' | 'append' | 'skip' | null = null;
+
+  const endWord = (): void => {
+    if (!inWord) return;
+    if (pending === 'output' || pending === 'append') {
+      current.outputs.push({ value: word, dynamic, append: pending === 'append' });
+    } else if (pending === null) {
+      current.words.push({ value: word, dynamic });
+    }
+    pending = null;
+    word = '';
+    dynamic = false;
+    inWord = false;
+  };
+
+  const endCommand = (): void => {
+    endWord();
+    if (current.words.length > 0 || current.outputs.length > 0) {
+      commands.push(current);
+    }
+    current = { words: [], outputs: [] };
+    pending = null;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+
+    if (ch === "'") {
+      const close = command.indexOf("'", i + 1);
+      const end = close === -1 ? command.length : close;
+      word += command.slice(i + 1, end);
+      inWord = true;
+      i = end;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < command.length && command[j] !== '"') {
+        if (command[j] === '\\' && j + 1 < command.length) {
+          word += command[j + 1];
+          j += 2;
+          continue;
+        }
+        if (command[j] === '$' || command[j] === '`') dynamic = true;
+        word += command[j];
+        j++;
+      }
+      inWord = true;
+      i = j;
+    } else if (ch === '\\') {
+      if (i + 1 < command.length && command[i + 1] !== '\n') word += command[i + 1];
+      inWord = true;
+      i++;
+    } else if (ch === '$' || ch === '`') {
+      word += ch;
+      dynamic = true;
+      inWord = true;
+    } else if (ch === '#' && !inWord) {
+      const newline = command.indexOf('\n', i);
+      i = newline === -1 ? command.length : newline - 1;
+    } else if (ch === ' ' || ch === '\t') {
+      endWord();
+    } else if (ch === '&' && command[i + 1] === '>') {
+      // `&>file` redirects both streams; the `>` is handled next
+      endWord();
+    } else if (ch === '\n' || ch === ';' || ch === '|' || ch === '&') {
+      endCommand();
+      if ((ch === '|' || ch === '&') && command[i + 1] === ch) i++;
+    } else if (ch === '>' || ch === '<') {
+      // A bare fd number before the operator (`2>`) is not a word
+      if (inWord && !dynamic && /^\d+$/.test(word)) {
+        word = '';
+        inWord = false;
+      } else {
+        endWord();
+      }
+      const append = ch === '>' && command[i + 1] === '>';
+      if (ch === '>' && (append || command[i + 1] === '|')) i++;
+      if (command[i + 1] === '&') {
+        // `>&2` duplicates a descriptor rather than naming a file
+        i++;
+        pending = 'skip';
+      } else if (ch === '>') {
+        pending = append ? 'append' : 'output';
+      } else {
+        pending = 'skip';
+      }
+    } else {
+      word += ch;
+      inWord = true;
+    }
+  }
+  endCommand();
+
+  return commands;
+}
+
+const COMMAND_PREFIXES = new Set(['sudo', 'command', 'env', 'nohup', 'time', 'exec', 'builtin']);
+
+function stripCommandPrefix(words: ShellWord[]): ShellWord[] {
+  let start = 0;
+  while (start < words.length) {
+    const value = words[start].value;
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(value) || COMMAND_PREFIXES.has(value)) {
+      start++;
+    } else if (start > 0 && COMMAND_PREFIXES.has(words[start - 1].value) && value.startsWith('-')) {
+      // Options of the prefix itself, e.g. `sudo -E`
+      start++;
+    } else {
+      break;
+    }
+  }
+  return words.slice(start);
+}
+
+/** Positional arguments; options listed in valueOptions consume the following word. */
+function operands(args: ShellWord[], valueOptions: string[] = []): ShellWord[] {
+  const result: ShellWord[] = [];
+  let endOfOptions = false;
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i].value;
+    if (endOfOptions || !value.startsWith('-') || value === '-') {
+      result.push(args[i]);
+    } else if (value === '--') {
+      endOfOptions = true;
+    } else if (valueOptions.includes(value)) {
+      i++;
+    }
+  }
+  return result;
+}
+
+function lastSegment(filePath: string): string {
+  const parts = filePath.split('/').filter(Boolean);
+  return parts[parts.length - 1] ?? filePath;
+}
+
+/** Files `sed -i` rewrites: operands after the script (or all of them when -e/-f supplied it). */
+function sedInPlaceFiles(args: ShellWord[]): ShellWord[] {
+  let inPlace = false;
+  let hasScript = false;
+  const positional: ShellWord[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i].value;
+    if (value === '--') {
+      positional.push(...args.slice(i + 1));
+      break;
+    }
+    if (value.startsWith('--')) {
+      if (value.startsWith('--in-place')) inPlace = true;
+      if (value.startsWith('--expression') || value.startsWith('--file')) {
+        hasScript = true;
+        if (!value.includes('=')) i++;
+      }
+      continue;
+    }
+    if (value.startsWith('-') && value.length > 1) {
+      const cluster = value.slice(1);
+      for (let j = 0; j < cluster.length; j++) {
+        const flag = cluster[j];
+        if (flag === 'i') {
+          // Anything after -i is the backup suffix
+          inPlace = true;
+          break;
+        }
+        if (flag === 'e' || flag === 'f') {
+          hasScript = true;
+          if (j === cluster.length - 1) i++;
+          break;
+        }
+      }
+      continue;
+    }
+    positional.push(args[i]);
+  }
+
+  if (!inPlace) return [];
+  return hasScript ? positional : positional.slice(1);
+}
+
+/**
+ * Paths a shell command line would overwrite, delete or revert.
+ * Covers common mutating commands (rm, mv, cp, sed -i, tee, truncate, output redirects, git checkout --,
+ * git restore, git rm). Arguments that need shell expansion (`$VAR`, backticks) are skipped.
+ */
+export function extractShellWriteTargets(commandLine: string): WriteTarget[] {
+  const targets: WriteTarget[] = [];
+  let cwd = '';
+
+  const resolve = (value: string, base = cwd): string =>
+    value.startsWith('/') || value.startsWith('~') || !base ? value : `${base.replace(/\/+$/, '')}/${value}`;
+  const add = (wordValue: ShellWord, kind: WriteTarget['kind'], base = cwd): void => {
+    if (wordValue.dynamic || !wordValue.value || wordValue.value.startsWith('/dev/')) return;
+    targets.push({ path: resolve(wordValue.value, base), kind });
+  };
+
+  for (const command of parseShellCommands(commandLine)) {
+    for (const output of command.outputs) {
+      add(output, output.append ? 'modify' : 'overwrite');
+    }
+
+    const [program, ...args] = stripCommandPrefix(command.words);
+    if (!program || program.dynamic) continue;
+
+    switch (lastSegment(program.value)) {
+      case 'cd': {
+        const dir = args[0];
+        if (dir && !dir.dynamic) cwd = resolve(dir.value);
+        break;
+      }
+      case 'rm':
+      case 'rmdir':
+      case 'unlink':
+        operands(args).forEach((arg) => add(arg, 'remove'));
+        break;
+      case 'mv':
+      case 'cp': {
+        const targetDirIndex = args.findIndex((arg) => arg.value === '-t' || arg.value === '--target-directory');
+        const files = operands(args, ['-t', '--target-directory', '-S', '--suffix']);
+        const sources = targetDirIndex === -1 ? files.slice(0, -1) : files;
+        const destination = targetDirIndex === -1 ? files[files.length - 1] : args[targetDirIndex + 1];
+        if (!destination || sources.length === 0) break;
+
+        for (const source of sources) {
+          if (lastSegment(program.value) === 'mv') add(source, 'remove');
+          // The destination may be a directory, so cover the source's name inside it too
+          if (!source.dynamic) {
+            const inside = `${destination.value.replace(/\/+$/, '')}/${lastSegment(source.value)}`;
+            add({ value: inside, dynamic: destination.dynamic }, 'overwrite');
+          }
+        }
+        if (targetDirIndex === -1 && sources.length === 1 && !destination.value.endsWith('/')) {
+          add(destination, 'overwrite');
+        }
+        break;
+      }
+      case 'sed':
+        sedInPlaceFiles(args).forEach((arg) => add(arg, 'modify'));
+        break;
+      case 'tee': {
+        const append = args.some((arg) => arg.value === '-a' || arg.value === '--append');
+        operands(args).forEach((arg) => add(arg, append ? 'modify' : 'overwrite'));
+        break;
+      }
+      case 'truncate':
+        operands(args, ['-s', '--size', '-r', '--reference']).forEach((arg) => add(arg, 'overwrite'));
+        break;
+      case 'git': {
+        let base = cwd;
+        let index = 0;
+        while (index < args.length && args[index].value.startsWith('-')) {
+          if (args[index].value === '-C' && args[index + 1]) {
+            base = resolve(args[index + 1].value);
+            index += 2;
+          } else if (args[index].value === '-c') {
+            index += 2;
+          } else {
+            index++;
+          }
+        }
+        const subcommand = args[index]?.value;
+        const rest = args.slice(index + 1);
+        if (subcommand === 'checkout') {
+          const separator = rest.findIndex((arg) => arg.value === '--');
+          if (separator !== -1) rest.slice(separator + 1).forEach((arg) => add(arg, 'remove', base));
+        } else if (subcommand === 'restore') {
+          const values = rest.map((arg) => arg.value);
+          const stagedOnly = (values.includes('--staged') || values.includes('-S')) &&
+            !values.includes('--worktree') && !values.includes('-W');
+          if (!stagedOnly) {
+            operands(rest, ['-s', '--source']).forEach((arg) => add(arg, 'remove', base));
+          }
+        } else if (subcommand === 'rm' && !rest.some((arg) => arg.value === '--cached')) {
+          operands(rest).forEach((arg) => add(arg, 'remove', base));
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return targets;
+}
+
+/** Every path a tool call would write or delete: file tools, MultiEdit and Bash. */
+export function extractWriteTargets(
+  toolName: string,
+  toolInput: Record<string, unknown> | undefined
+): WriteTarget[] {
+  if (!toolInput) return [];
+  if (toolName === 'Bash') {
+    const command = toolInput.command;
+    return typeof command === 'string' ? extractShellWriteTargets(command) : [];
+  }
+  if (toolName === 'MultiEdit') {
+    const filePath = toolInput.file_path;
+    return typeof filePath === 'string' && filePath ? [{ path: filePath, kind: 'modify' }] : [];
+  }
+  const filePath = extractWritePath(toolName, toolInput);
+  return filePath ? [{ path: filePath, kind: 'modify' }] : [];
+}
+
+export type ProtectionHit = {
+  session_id: string;
+  session_name: string;
+  file_path: string;
+  reason: 'plan' | 'created_file';
+};
+
+/** Deleting, moving, reverting or clobbering a file registered with collab_protect is denied for every session. */
+export function decidePretoolProtection(options: {
+  disabled?: boolean;
+  target: WriteTarget;
+  protections: ProtectionHit[];
+}): PretoolDecision {
+  if (options.disabled || options.target.kind === 'modify' || options.protections.length === 0) {
+    return { decision: 'allow' };
+  }
+
+  const hit = options.protections[0];
+  const kind = hit.reason === 'plan' ? 'plan' : 'created file';
+  return {
+    decision: 'deny',
+    reason: `session-collab: ${hit.file_path} is a protected ${kind} (registered by ${hit.session_name || hit.session_id}). Do not delete, replace or revert it; archive or coordinate first.`,
+  };
+}
+
+export type SymbolClaimHit = ClaimHit & {
+  symbol_name: string;
+};
+
+/**
+ * Symbol-aware variant of decidePretoolWrite.
+ * File-level claims still cover the whole file; symbol claims only block when the edit touches one of
+ * their symbols. touchedSymbols null means the touched range is unknown (e.g. Write), so every symbol counts.
+ */
+export function decidePretoolSymbolWrite(options: {
+  disabled?: boolean;
+  selfCollabSessionId?: string | null;
+  soleActiveSessionId?: string | null;
+  fileHits: ClaimHit[];
+  symbolHits: SymbolClaimHit[];
+  touchedSymbols: string[] | null;
+}): PretoolDecision {
+  const fileDecision = decidePretoolWrite({ ...options, hits: options.fileHits });
+  if (fileDecision.decision === 'deny' || options.disabled) {
+    return fileDecision;
+  }
+
+  const touched = options.touchedSymbols ? new Set(options.touchedSymbols) : null;
+  const self = options.selfCollabSessionId ?? options.soleActiveSessionId ?? null;
+  const foreign = options.symbolHits.filter(
+    (hit) => hit.session_id !== self && (!touched || touched.has(hit.symbol_name))
+  );
+  if (foreign.length === 0) {
+    return { decision: 'allow' };
+  }
+
+  const owners = [...new Set(foreign.map((hit) => hit.session_name || hit.session_id))];
+  const symbols = [...new Set(foreign.map((hit) => hit.symbol_name))];
+  const file = foreign[0]?.file_path ?? 'file';
+  return {
+    decision: 'deny',
+    reason: `session-collab: ${symbols.join(', ')} in ${file} claimed by ${owners.join(', ')}. Edit other symbols only, or coordinate and wait.`,
+  };
+}
+
+/** 1-based line ranges of old_string in the current file; null when it cannot be located. */
+export function locateEditLines(
+  source: string,
+  oldString: string,
+  replaceAll = false
+): Array<{ start_line: number; end_line: number }> | null {
+  if (!oldString) return null;
+
+  const ranges: Array<{ start_line: number; end_line: number }> = [];
+  const lineAt = (offset: number): number => source.slice(0, offset).split('\n').length;
+  let offset = source.indexOf(oldString);
+  while (offset !== -1) {
+    ranges.push({ start_line: lineAt(offset), end_line: lineAt(offset + oldString.length) });
+    if (!replaceAll) break;
+    offset = source.indexOf(oldString, offset + oldString.length);
+  }
+  return ranges.length > 0 ? ranges : null;
+}
+
+/**
+ * Symbols an Edit or MultiEdit touches: the declarations enclosing each old_string plus any declared in
+ * new_string (so renaming a function onto a claimed name is caught). Null when any edit cannot be mapped.
+ */
+export async function resolveEditedSymbols(
+  fileName: string,
+  source: string | null,
+  toolInput: Record<string, unknown> | undefined
+): Promise<string[] | null> {
+  if (source === null || !toolInput || !isIndexableFile(fileName)) {
+    return null;
+  }
+
+  const edits = Array.isArray(toolInput.edits)
+    ? (toolInput.edits as Array<Record<string, unknown>>)
+    : [toolInput];
+  if (edits.length === 0) return null;
+
+  let index: IndexedSymbol[];
+  try {
+    index = await indexSource(fileName, source);
+  } catch {
+    return null;
+  }
+
+  const touched: IndexedSymbol[] = [];
+  for (const edit of edits) {
+    const oldString = edit?.old_string;
+    const newString = edit?.new_string;
+    if (typeof oldString !== 'string') return null;
+
+    // Later MultiEdit entries may target text from earlier ones; unlocatable edits are treated as unknown
+    const ranges = locateEditLines(source, oldString, edit.replace_all === true);
+    if (!ranges) return null;
+
+    touched.push(...ranges.flatMap((range) => findEnclosingSymbols(index, range.start_line, range.end_line)));
+    if (typeof newString === 'string' && newString) {
+      try {
+        touched.push(...(await indexSource(fileName, newString)));
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  const names = touched.flatMap((symbol) =>
+    symbol.container ? [symbol.name, `${symbol.container}.${symbol.name}`] : [symbol.name]
+  );
+  return [...new Set(names)];
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
+import {
+  createClaim,
+  createNotification,
+  createSession,
+  joinQueue,
+  listNotificationsAfter,
+} from '../../db/queries.js';
+import { createHttpServer } from '../server.js';
+import {
+  COLLAB_NOTIFICATION_METHOD,
+  COLLAB_QUEUE_METHOD,
+  diffQueuePositions,
+  formatSseEvent,
+} from '../event-stream.js';
+import type { QueuePosition } from '../event-stream.js';
+
+const shouldRun = process.env.SESSION_COLLAB_HTTP_TESTS !== 'false';
+
+type StreamReader = ReadableStreamDefaultReader<Uint8Array>;
+
+async function readUntil(reader: StreamReader, marker: string, buffer = '', timeoutMs = 3000): Promise<string> {
+  const decoder = new TextDecoder();
+  const deadline = Date.now() + timeoutMs;
+
+  while (!buffer.includes(marker)) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new Error(`Timed out waiting for ${marker}; received: ${buffer}`);
+    }
+    const chunk = await Promise.race([
+      reader.read(),
+      new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`Timed out waiting for ${marker}`)), remaining)),
+    ]);
+    if (chunk.done) break;
+    buffer += decoder.decode(chunk.value, { stream: true });
+  }
+
+  return buffer;
+}
+
+function parseDataLines(buffer: string): Array<{ method: string; params: Record<string, unknown> }> {
+  return buffer
+    .split('\n')
+    .filter((line) => line.startsWith('data: '))
+    .map((line) => JSON.parse(line.slice('data: '.length)));
+}
+
+describe('Event stream helpers', () => {
+  it('formats a JSON-RPC notification as an SSE event', () => {
+    const event = formatSseEvent({ jsonrpc: '2.0', method: 'notifications/test', params: { a: 1 } }, 'evt-1');
+    expect(event).toBe('id: evt-1\ndata: {"jsonrpc":"2.0","method":"notifications/test","params":{"a":1}}\n\n');
+  });
+
+  it('reports new, moved, and removed queue entries', () => {
+    const entry = (queueId: string, position: number): QueuePosition => ({
+      queue_id: queueId,
+      claim_id: 'claim-1',
+      files: ['src/a.ts'],
+      position,
+    });
+    const previous = new Map([
+      ['q1', entry('q1', 2)],
+      ['q2', entry('q2', 1)],
+      ['q3', entry('q3', 3)],
+    ]);
+
+    const { changed, removed } = diffQueuePositions(previous, [entry('q1', 1), entry('q3', 3), entry('q4', 2)]);
+
+    expect(changed).toEqual([
+      { ...entry('q1', 1), previous_position: 2 },
+      { ...entry('q4', 2), previous_position: null },
+    ]);
+    expect(removed.map((item) => item.queue_id)).toEqual(['q2']);
+  });
+});
+
+describe.runIf(shouldRun)('HTTP Server event stream', () => {
+  let db: TestDatabase;
+  let server: ReturnType<typeof createHttpServer>;
+  let baseUrl: string;
+  let controller: AbortController;
+
+  beforeEach(async () => {
+    db = createTestDatabase();
+    controller = new AbortController();
+    server = createHttpServer(db, { eventStream: { pollIntervalMs: 20 } });
+    await new Promise<void>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+      server.on('error', reject);
+    });
+    const address = server.address();
+    if (typeof address === 'string' || address === null) {
+      throw new Error('Unexpected server address');
+    }
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    db.close();
+  });
+
+  async function openStream(
+    sessionId: string,
+    headers: Record<string, string> = {}
+  ): Promise<{ reader: StreamReader; received: string }> {
+    const res = await fetch(`${baseUrl}/mcp?session_id=${sessionId}`, {
+      headers: { Accept: 'text/event-stream', ...headers },
+      signal: controller.signal,
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    const reader = res.body!.getReader();
+    const received = await readUntil(reader, ': connected');
+    return { reader, received };
+  }
+
+  it('rejects GET /mcp without an event-stream Accept header', async () => {
+    const res = await fetch(`${baseUrl}/mcp?session_id=abc`);
+    expect(res.status).toBe(406);
+    const body = await res.json();
+    expect(body.code).toBe('NOT_ACCEPTABLE');
+  });
+
+  it('rejects unknown sessions', async () => {
+    const res = await fetch(`${baseUrl}/mcp?session_id=missing`, {
+      headers: { Accept: 'text/event-stream' },
+    });
+    expect(res.status).toBe(404);
+    const body = await res.json();
+    expect(body.code).toBe('SESSION_NOT_FOUND');
+  });
+
+  it('pushes new notifications for the session', async () => {
+    const session = await createSession(db, { project_root: '/test', name: 'listener' });
+    const other = await createSession(db, { project_root: '/test', name: 'other' });
+    const { reader } = await openStream(session.id);
+
+    await createNotification(db, {
+      session_id: other.id,
+      type: 'session_message',
+      title: 'Not for you',
+      message: 'ignored',
+    });
+    const notification = await createNotification(db, {
+      session_id: session.id,
+      type: 'claim_released',
+      title: 'Files available',
+      message: 'src/a.ts was released',
+      metadata: { files: ['src/a.ts'] },
+    });
+
+    const buffer = await readUntil(reader, COLLAB_NOTIFICATION_METHOD);
+    const [sequenced] = await listNotificationsAfter(db, session.id, null);
+    expect(sequenced.id).toBe(notification.id);
+    expect(buffer).toContain(`id: ${sequenced.seq}`);
+    const [event] = parseDataLines(buffer);
+    expect(event.method).toBe(COLLAB_NOTIFICATION_METHOD);
+    expect(event.params.title).toBe('Files available');
+    expect(event.params.metadata).toEqual({ files: ['src/a.ts'] });
+    expect(buffer).not.toContain('Not for you');
+  });
+
+  it('replays notifications after Last-Event-ID', async () => {
+    const session = await createSession(db, { project_root: '/test', name: 'listener' });
+    const first = await createNotification(db, {
+      session_id: session.id,
+      type: 'session_message',
+      title: 'first',
+      message: 'first',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await createNotification(db, {
+      session_id: session.id,
+      type: 'session_message',
+      title: 'second',
+      message: 'second',
+    });
+
+    const [firstEvent] = await listNotificationsAfter(db, session.id, null);
+    expect(firstEvent.id).toBe(first.id);
+
+    const { reader, received } = await openStream(session.id, { 'Last-Event-ID': String(firstEvent.seq) });
+    const buffer = await readUntil(reader, COLLAB_NOTIFICATION_METHOD, received);
+    const titles = parseDataLines(buffer).map((event) => event.params.title);
+    expect(titles).toEqual(['second']);
+  });
+
+  it('pushes queue position changes', async () => {
+    const owner = await createSession(db, { project_root: '/test', name: 'owner' });
+    const waiter = await createSession(db, { project_root: '/test', name: 'waiter' });
+    const { claim } = await createClaim(db, { session_id: owner.id, files: ['src/a.ts'], intent: 'Refactor' });
+    const { reader } = await openStream(waiter.id);
+
+    await joinQueue(db, { claim_id: claim.id, session_id: waiter.id, intent: 'Fix bug' });
+
+    const buffer = await readUntil(reader, COLLAB_QUEUE_METHOD);
+    const [event] = parseDataLines(buffer).filter((item) => item.method === COLLAB_QUEUE_METHOD);
+    expect(event.params.changed).toEqual([
+      {
+        queue_id: expect.any(String),
+        claim_id: claim.id,
+        files: ['src/a.ts'],
+        position: 1,
+        previous_position: null,
+      },
+    ]);
+  });
+});
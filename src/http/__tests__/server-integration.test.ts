@@ -2,6 +2,7 @@ import http from 'http';
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
 import { createHttpServer } from '../server.js';
+import { createApiToken, createUser, revokeApiToken } from '../../db/queries.js';
 
 const shouldRun = process.env.SESSION_COLLAB_HTTP_TESTS !== 'false';
 
@@ -81,6 +82,42 @@ describe.runIf(shouldRun)('HTTP Server Integration', () => {
     expect(updateBody.data.progress).toEqual({ completed: 2, total: 3, percentage: 67 });
   });
 
+  it('should list and hand off claim queues via /v1/queue', async () => {
+    const start = async (name: string): Promise<string> => {
+      const res = await fetch(`${baseUrl}/v1/sessions/start`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ project_root: '/test', name }),
+      });
+      return (await res.json()).data.session_id;
+    };
+    const claim = async (sessionId: string) => {
+      const res = await fetch(`${baseUrl}/v1/claims`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ session_id: sessionId, files: ['src/queued.ts'], intent: 'edit' }),
+      });
+      return (await res.json()).data;
+    };
+    const ownerId = await start('queue-owner');
+    const waiterId = await start('queue-waiter');
+    const { claim_id: claimId } = await claim(ownerId);
+    await claim(waiterId);
+
+    const listRes = await fetch(`${baseUrl}/v1/queue?session_id=${waiterId}`);
+    const listBody = await listRes.json();
+    expect(listBody.data.waiting).toMatchObject([{ claim_id: claimId, position: 1 }]);
+
+    const handoffRes = await fetch(`${baseUrl}/v1/queue/handoff`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ session_id: ownerId, claim_id: claimId }),
+    });
+    expect(handoffRes.status).toBe(200);
+    const handoffBody = await handoffRes.json();
+    expect(handoffBody.data.handed_off_to.session_id).toBe(waiterId);
+  });
+
   it('should return trace_id on invalid input', async () => {
     const res = await fetch(`${baseUrl}/v1/tools/call`, {
       method: 'POST',
@@ -237,3 +274,158 @@ describe.runIf(shouldRun)('HTTP Server token mode', () => {
     expect(auth.status).toBe(200);
   });
 });
+
+describe.runIf(shouldRun)('HTTP Server user tokens', () => {
+  let db: TestDatabase;
+  let server: ReturnType<typeof createHttpServer>;
+  let baseUrl: string;
+  const sharedToken = 'shared-token';
+
+  async function startServer(options: { requireUserToken?: boolean } = {}): Promise<void> {
+    server = createHttpServer(db, { host: '127.0.0.1', apiToken: sharedToken, ...options });
+    await new Promise<void>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+      server.on('error', reject);
+    });
+    const address = server.address();
+    if (typeof address === 'string' || address === null) {
+      throw new Error('Unexpected server address');
+    }
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  }
+
+  function callTool(token: string, name: string, args: Record<string, unknown>): Promise<Response> {
+    return fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }),
+    });
+  }
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    db.close();
+  });
+
+  it('attributes sessions to the token user and shows them on conflicts', async () => {
+    await startServer();
+    const alice = await createUser(db, { email: 'Alice@Example.com', display_name: 'Alice' });
+    const { token } = await createApiToken(db, { user_id: alice.id, name: 'laptop', scopes: ['mcp'] });
+
+    const startRes = await callTool(token, 'collab_session_start', { project_root: '/repo', name: 'alice-agent' });
+    expect(startRes.status).toBe(200);
+    const started = JSON.parse((await startRes.json()).result.content[0].text);
+    expect(started.user_id).toBe(alice.id);
+
+    await callTool(token, 'collab_claim', {
+      action: 'create',
+      session_id: started.session_id,
+      files: ['src/auth.ts'],
+      intent: 'Refactor auth',
+    });
+
+    // The shared token still works and sees whose agent holds the claim
+    const otherRes = await callTool(sharedToken, 'collab_session_start', { project_root: '/repo', name: 'ci-agent' });
+    const other = JSON.parse((await otherRes.json()).result.content[0].text);
+    expect(other.user_id).toBeNull();
+
+    const restRes = await fetch(`${baseUrl}/v1/claims/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${sharedToken}` },
+      body: JSON.stringify({ session_id: other.session_id, files: ['src/auth.ts'] }),
+    });
+    const check = await restRes.json();
+    expect(check.data.conflicts[0].user).toBe('Alice');
+
+    const stored = await db.prepare('SELECT last_used_at FROM api_tokens').first<{ last_used_at: string | null }>();
+    expect(stored?.last_used_at).not.toBeNull();
+  });
+
+  it('rejects unknown, revoked and expired tokens', async () => {
+    await startServer();
+    const bob = await createUser(db, { email: 'bob@example.com' });
+    const revoked = await createApiToken(db, { user_id: bob.id, name: 'old', scopes: ['mcp'] });
+    await revokeApiToken(db, revoked.api_token.token_prefix);
+    const expired = await createApiToken(db, {
+      user_id: bob.id,
+      name: 'expired',
+      scopes: ['mcp'],
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+    });
+
+    const unknown = await callTool('scm_not-a-real-token', 'collab_session_list', {});
+    expect(unknown.status).toBe(401);
+
+    const revokedRes = await callTool(revoked.token, 'collab_session_list', {});
+    expect(revokedRes.status).toBe(401);
+    expect((await revokedRes.json()).code).toBe('TOKEN_REVOKED');
+
+    const expiredRes = await callTool(expired.token, 'collab_session_list', {});
+    expect((await expiredRes.json()).code).toBe('TOKEN_EXPIRED');
+  });
+
+  it('limits read-scoped tokens to read-only calls', async () => {
+    await startServer();
+    const carol = await createUser(db, { email: 'carol@example.com' });
+    const { token } = await createApiToken(db, { user_id: carol.id, name: 'dashboard', scopes: ['read'] });
+
+    const list = await callTool(token, 'collab_claim', { action: 'list' });
+    expect(list.status).toBe(200);
+
+    const start = await callTool(token, 'collab_session_start', { project_root: '/repo' });
+    expect(start.status).toBe(403);
+
+    const rest = await fetch(`${baseUrl}/v1/memory/save`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ session_id: 'x', category: 'finding', key: 'k', content: 'c' }),
+    });
+    expect(rest.status).toBe(403);
+  });
+
+  it("refuses a token acting on another user's session", async () => {
+    await startServer();
+    const erin = await createUser(db, { email: 'erin@example.com' });
+    const frank = await createUser(db, { email: 'frank@example.com' });
+    const erinToken = (await createApiToken(db, { user_id: erin.id, name: 'laptop', scopes: ['mcp'] })).token;
+    const frankToken = (await createApiToken(db, { user_id: frank.id, name: 'laptop', scopes: ['mcp'] })).token;
+
+    const startRes = await callTool(erinToken, 'collab_session_start', { project_root: '/repo', name: 'erin-agent' });
+    const erinSession = JSON.parse((await startRes.json()).result.content[0].text).session_id as string;
+
+    const clear = await callTool(frankToken, 'collab_memory_clear', { session_id: erinSession, clear_all: true });
+    expect(clear.status).toBe(403);
+    expect((await clear.json()).code).toBe('FORBIDDEN');
+
+    const release = await fetch(`${baseUrl}/v1/claims/release`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${frankToken}` },
+      body: JSON.stringify({ session_id: erinSession, claim_id: 'any' }),
+    });
+    expect(release.status).toBe(403);
+
+    const stream = await fetch(`${baseUrl}/mcp?session_id=${erinSession}`, {
+      headers: { Accept: 'text/event-stream', Authorization: `Bearer ${frankToken}` },
+    });
+    expect(stream.status).toBe(403);
+
+    const own = await callTool(erinToken, 'collab_memory_recall', { session_id: erinSession });
+    expect(own.status).toBe(200);
+  });
+
+  it('refuses the shared token when user tokens are required', async () => {
+    await startServer({ requireUserToken: true });
+    const dave = await createUser(db, { email: 'dave@example.com' });
+    const { token } = await createApiToken(db, { user_id: dave.id, name: 'ci', scopes: ['mcp'] });
+
+    const shared = await fetch(`${baseUrl}/health`, { headers: { Authorization: `Bearer ${sharedToken}` } });
+    expect(shared.status).toBe(401);
+
+    const personal = await fetch(`${baseUrl}/health`, { headers: { Authorization: `Bearer ${token}` } });
+    expect(personal.status).toBe(200);
+  });
+});
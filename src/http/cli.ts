@@ -5,21 +5,30 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { createLocalDatabase, getDefaultDbPath } from '../db/sqlite-adapter.js';
 import { startHttpServer } from './server.js';
-import { loadMigrationsFromDir } from '../db/migrations.js';
+import { loadMigrationFiles, runMigrations } from '../db/migrations.js';
+import type { Migration } from '../db/migrations.js';
+import { startClaimSweepTimer } from '../mcp/claim-lifecycle.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-function loadMigrations(): string[] {
+function loadMigrations(): Migration[] {
   const migrationsDir = join(__dirname, '..', '..', 'migrations');
-  return loadMigrationsFromDir(migrationsDir);
+  return loadMigrationFiles(migrationsDir);
 }
 
-function parseArgs(): { dbPath?: string; host: string; port: number; allowedHosts: string[] } {
+function parseArgs(): {
+  dbPath?: string;
+  host: string;
+  port: number;
+  allowedHosts: string[];
+  requireUserToken: boolean;
+} {
   const args = process.argv.slice(2);
   let dbPath: string | undefined;
   let host = '127.0.0.1';
   let port = 8765;
   const allowedHosts: string[] = [];
+  let requireUserToken = process.env.SESSION_COLLAB_REQUIRE_USER_TOKEN === '1';
 
   for (let i = 0; i < args.length; i++) {
     const value = args[i + 1];
@@ -35,14 +44,16 @@ function parseArgs(): { dbPath?: string; host: string; port: number; allowedHost
     } else if (args[i] === '--allowed-host' && value) {
       allowedHosts.push(value);
       i++;
+    } else if (args[i] === '--require-user-token') {
+      requireUserToken = true;
     }
   }
 
-  return { dbPath, host, port, allowedHosts };
+  return { dbPath, host, port, allowedHosts, requireUserToken };
 }
 
 async function main(): Promise<void> {
-  const { dbPath, host, port, allowedHosts } = parseArgs();
+  const { dbPath, host, port, allowedHosts, requireUserToken } = parseArgs();
   const db = createLocalDatabase(dbPath);
   const apiToken = process.env.SESSION_COLLAB_HTTP_TOKEN;
   const envAllowedHosts = (process.env.SESSION_COLLAB_ALLOWED_HOSTS ?? '')
@@ -50,25 +61,28 @@ async function main(): Promise<void> {
     .map((hostEntry) => hostEntry.trim())
     .filter(Boolean);
 
-  try {
-    const migrations = loadMigrations();
-    db.initSchema(migrations);
-  } catch (error) {
-    if (!(error instanceof Error && error.message.includes('already exists'))) {
-      console.error('Warning: Migration error:', error);
-    }
+  // Checksum drift or a failed migration stops startup
+  const { ran } = await runMigrations(db, loadMigrations());
+  if (ran.length > 0) {
+    console.error(`Applied migrations: ${ran.join(', ')}`);
   }
 
   await startHttpServer(db, {
     host,
     port,
     apiToken,
+    requireUserToken,
     allowedHosts: [...envAllowedHosts, ...allowedHosts],
   });
+  startClaimSweepTimer(db);
   console.error(`Session Collab HTTP Server running at http://${host}:${port}`);
   console.error(`Database: ${dbPath ?? getDefaultDbPath()}`);
   console.error(`MCP endpoint: POST /mcp`);
+  console.error(`Event stream: GET /mcp?session_id=<id> (Accept: text/event-stream)`);
   console.error(`Convenience REST API: /v1/*`);
+  if (requireUserToken) {
+    console.error(`Auth: per-user API tokens required (session-collab token create)`);
+  }
 }
 
 main().catch((error) => {
@@ -1,11 +1,50 @@
 #!/usr/bin/env node
 // Minimal HTTP client wrapper for Session Collab HTTP API
 
+import { readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { createLocalDatabase, getDefaultDbPath } from '../db/sqlite-adapter.js';
+import { loadMigrationFiles, runMigrations } from '../db/migrations.js';
+import { createApiToken, createUser, getSession, getUserByEmail, listApiTokens, revokeApiToken } from '../db/queries.js';
+import { API_TOKEN_SCOPES } from '../db/types.js';
+import type { ApiTokenScope } from '../db/types.js';
+import {
+  installGitHooks,
+  readGitCheckoutFiles,
+  readGitCommit,
+  syncGitCheckout,
+  syncGitCommit,
+} from '../hooks/git-sync.js';
+import { exportMemoryBundle, importMemoryBundle, renderMemoryMarkdown } from '../mcp/memory-bundle.js';
+import type { MemoryImportResult } from '../mcp/memory-bundle.js';
+import { memoryBundleSchema, memoryScopeSchema, validateInput } from '../mcp/schemas.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
 type Args = {
   baseUrl: string;
   command: string;
+  subcommand?: string;
   name?: string;
   args?: string;
+  projectRoot?: string;
+  commit?: string;
+  sessionId?: string;
+  from?: string;
+  to?: string;
+  installHook: boolean;
+  dbPath?: string;
+  email?: string;
+  displayName?: string;
+  scopes: string[];
+  expiresDays?: number;
+  id?: string;
+  all: boolean;
+  format?: string;
+  out?: string;
+  file?: string;
+  overwrite: boolean;
 };
 
 const REQUIRED_TOOLS = [
@@ -13,12 +52,17 @@ const REQUIRED_TOOLS = [
   'collab_session_end',
   'collab_session_list',
   'collab_session_update',
+  'collab_session_handoff',
   'collab_config',
   'collab_status',
   'collab_claim',
+  'collab_queue',
   'collab_memory_save',
   'collab_memory_recall',
+  'collab_memory_restore',
   'collab_memory_clear',
+  'collab_memory_export',
+  'collab_memory_import',
   'collab_protect',
 ];
 
@@ -26,10 +70,28 @@ function parseArgs(): Args {
   const argv = process.argv.slice(2);
   let baseUrl = 'http://127.0.0.1:8765';
   let command = argv[0] ?? 'help';
+  const subcommand = argv[1] && !argv[1].startsWith('--') ? argv[1] : undefined;
   let name: string | undefined;
   let args: string | undefined;
+  let projectRoot: string | undefined;
+  let commit: string | undefined;
+  let sessionId: string | undefined;
+  let from: string | undefined;
+  let to: string | undefined;
+  let installHook = false;
+  let dbPath: string | undefined;
+  let email: string | undefined;
+  let displayName: string | undefined;
+  const scopes: string[] = [];
+  let expiresDays: number | undefined;
+  let id: string | undefined;
+  let all = false;
+  let format: string | undefined;
+  let out: string | undefined;
+  let file: string | undefined;
+  let overwrite = false;
 
-  for (let i = 1; i < argv.length; i++) {
+  for (let i = subcommand ? 2 : 1; i < argv.length; i++) {
     if (argv[i] === '--base-url' && argv[i + 1]) {
       baseUrl = argv[i + 1];
       i++;
@@ -39,10 +101,81 @@ function parseArgs(): Args {
     } else if (argv[i] === '--args' && argv[i + 1]) {
       args = argv[i + 1];
       i++;
+    } else if (argv[i] === '--project-root' && argv[i + 1]) {
+      projectRoot = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--commit' && argv[i + 1]) {
+      commit = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--session-id' && argv[i + 1]) {
+      sessionId = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--from' && argv[i + 1]) {
+      from = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--to' && argv[i + 1]) {
+      to = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--install-hook') {
+      installHook = true;
+    } else if (argv[i] === '--db' && argv[i + 1]) {
+      dbPath = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--email' && argv[i + 1]) {
+      email = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--display-name' && argv[i + 1]) {
+      displayName = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--scope' && argv[i + 1]) {
+      scopes.push(argv[i + 1]);
+      i++;
+    } else if (argv[i] === '--expires-days' && argv[i + 1]) {
+      expiresDays = Number(argv[i + 1]);
+      i++;
+    } else if (argv[i] === '--id' && argv[i + 1]) {
+      id = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--all') {
+      all = true;
+    } else if (argv[i] === '--format' && argv[i + 1]) {
+      format = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--out' && argv[i + 1]) {
+      out = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--file' && argv[i + 1]) {
+      file = argv[i + 1];
+      i++;
+    } else if (argv[i] === '--overwrite') {
+      overwrite = true;
     }
   }
 
-  return { baseUrl, command, name, args };
+  return {
+    baseUrl,
+    command,
+    subcommand,
+    name,
+    args,
+    projectRoot,
+    commit,
+    sessionId,
+    from,
+    to,
+    installHook,
+    dbPath,
+    email,
+    displayName,
+    scopes,
+    expiresDays,
+    id,
+    all,
+    format,
+    out,
+    file,
+    overwrite,
+  };
 }
 
 function printHelp(): void {
@@ -51,12 +184,39 @@ function printHelp(): void {
   session-collab tools [--base-url URL]
   session-collab doctor [--base-url URL]
   session-collab call --name TOOL --args JSON [--base-url URL]
+  session-collab git-sync [--project-root DIR] [--commit REV] [--session-id ID]
+  session-collab git-sync --from REV --to REV [--project-root DIR]
+  session-collab git-sync --install-hook [--project-root DIR]
+  session-collab token create --email EMAIL [--name LABEL] [--display-name NAME] [--scope mcp|read] [--expires-days N] [--db PATH]
+  session-collab token list [--email EMAIL] [--all] [--db PATH]
+  session-collab token revoke --id ID|PREFIX [--db PATH]
+  session-collab memory export --session-id ID [--scope session|project] [--format markdown|json] [--out FILE] [--db PATH]
+  session-collab memory import --session-id ID --file FILE [--scope session|project] [--overwrite] [--db PATH]
+
+git-sync works on the local database (no HTTP server needed). After a commit it completes the
+committing session's claims whose files were all committed and flags other sessions' claims on
+the committed files. With --from/--to it flags claims on files changed by a branch switch.
+The committing session comes from --session-id, SESSION_COLLAB_SESSION_ID, a
+"Collab-Session: <id>" commit trailer, or the claims the commit touches.
+
+token manages per-user API tokens in the hub's database (run it where session-collab-http runs).
+The user is created on first use. The token is printed once; only its hash is stored. Scopes:
+mcp (default, every tool) or read (list/check/recall/export only). Sessions started with a token record
+its user, so claim lists and conflicts show whose agent owns a claim.
+
+memory exports a session's working memory (or, with --scope project, its project's shared memory)
+as Markdown for PR descriptions and handoff docs, or as a JSON bundle that memory import loads into
+another session, possibly on another machine. Import is keyed on (category, key): running it
+twice changes nothing.
 
 Examples:
   session-collab health
   session-collab tools
   session-collab doctor
   session-collab call --name collab_session_start --args '{"project_root":"/repo","name":"demo"}'
+  session-collab git-sync --install-hook
+  session-collab token create --email alice@example.com --display-name Alice --expires-days 90
+  session-collab memory export --session-id SESSION --out handoff.md
 `);
 }
 
@@ -121,8 +281,214 @@ async function runDoctor(baseUrl: string): Promise<void> {
   }
 }
 
+async function runGitSync(options: Args): Promise<void> {
+  const projectRoot = options.projectRoot ?? process.cwd();
+
+  if (options.installHook) {
+    const hooks = await installGitHooks(projectRoot);
+    console.log(JSON.stringify(hooks, null, 2));
+    return;
+  }
+
+  const db = createLocalDatabase(getDefaultDbPath());
+  try {
+    if (options.from || options.to) {
+      if (!options.from || !options.to) {
+        console.error('--from and --to must be used together');
+        process.exit(1);
+      }
+      const files = await readGitCheckoutFiles(projectRoot, options.from, options.to);
+      const result = await syncGitCheckout(db, { project_root: projectRoot, from: options.from, to: options.to, files });
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const commit = await readGitCommit(projectRoot, options.commit ?? 'HEAD');
+    const result = await syncGitCommit(db, {
+      project_root: projectRoot,
+      commit,
+      session_id: options.sessionId ?? (process.env.SESSION_COLLAB_SESSION_ID?.trim() || undefined),
+    });
+    console.log(JSON.stringify(result, null, 2));
+  } finally {
+    db.close();
+  }
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+async function runToken(options: Args): Promise<void> {
+  const db = createLocalDatabase(options.dbPath ?? getDefaultDbPath());
+  try {
+    // Token commands may run before the hub ever started on this database
+    await runMigrations(db, loadMigrationFiles(join(__dirname, '..', '..', 'migrations')));
+
+    if (options.subcommand === 'create') {
+      if (!options.email) {
+        fail('Missing --email');
+      }
+      const scopes = options.scopes.length > 0 ? options.scopes : ['mcp'];
+      const unknownScopes = scopes.filter((scope) => !API_TOKEN_SCOPES.includes(scope as ApiTokenScope));
+      if (unknownScopes.length > 0) {
+        fail(`Unknown scope(s): ${unknownScopes.join(', ')}. Valid: ${API_TOKEN_SCOPES.join(', ')}`);
+      }
+      if (options.expiresDays !== undefined && !(options.expiresDays > 0)) {
+        fail('--expires-days must be a positive number');
+      }
+
+      const user =
+        (await getUserByEmail(db, options.email)) ??
+        (await createUser(db, { email: options.email, display_name: options.displayName }));
+      const expiresAt =
+        options.expiresDays !== undefined
+          ? new Date(Date.now() + options.expiresDays * 24 * 60 * 60 * 1000).toISOString()
+          : null;
+      const { token, api_token } = await createApiToken(db, {
+        user_id: user.id,
+        name: options.name ?? 'default',
+        scopes: scopes as ApiTokenScope[],
+        expires_at: expiresAt,
+      });
+      console.log(
+        JSON.stringify(
+          {
+            token,
+            id: api_token.id,
+            prefix: api_token.token_prefix,
+            user: { id: user.id, email: user.email, display_name: user.display_name },
+            scopes,
+            expires_at: api_token.expires_at,
+            message: 'Store this token now; it cannot be shown again.',
+          },
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    if (options.subcommand === 'list') {
+      const user = options.email ? await getUserByEmail(db, options.email) : null;
+      if (options.email && !user) {
+        fail(`No user with email ${options.email}`);
+      }
+      const tokens = await listApiTokens(db, { user_id: user?.id, include_revoked: options.all });
+      console.log(
+        JSON.stringify(
+          {
+            tokens: tokens.map((t) => ({
+              id: t.id,
+              prefix: t.token_prefix,
+              name: t.name,
+              email: t.email,
+              display_name: t.display_name,
+              scopes: t.scopes ? (JSON.parse(t.scopes) as string[]) : ['mcp'],
+              created_at: t.created_at,
+              last_used_at: t.last_used_at,
+              expires_at: t.expires_at,
+              revoked_at: t.revoked_at,
+            })),
+          },
+          null,
+          2
+        )
+      );
+      return;
+    }
+
+    if (options.subcommand === 'revoke') {
+      if (!options.id) {
+        fail('Missing --id');
+      }
+      const outcome = await revokeApiToken(db, options.id);
+      if (outcome === 'not_found') {
+        fail(`No active token matches ${options.id}`);
+      }
+      if (outcome === 'ambiguous') {
+        fail(`Several active tokens share the prefix ${options.id}; revoke by --id instead`);
+      }
+      console.log(JSON.stringify({ revoked: options.id }, null, 2));
+      return;
+    }
+
+    fail(`Unknown token command: ${options.subcommand ?? '(none)'}. Use create, list or revoke.`);
+  } finally {
+    db.close();
+  }
+}
+
+async function runMemory(options: Args): Promise<void> {
+  if (!options.sessionId) {
+    fail('Missing --session-id');
+  }
+  const scope = validateInput(memoryScopeSchema.optional(), options.scopes[0]);
+  if (!scope.success) {
+    fail("--scope must be 'session' or 'project'");
+  }
+
+  const db = createLocalDatabase(options.dbPath ?? getDefaultDbPath());
+  try {
+    await runMigrations(db, loadMigrationFiles(join(__dirname, '..', '..', 'migrations')));
+    const session = await getSession(db, options.sessionId);
+    if (!session) {
+      fail(`No session ${options.sessionId}`);
+    }
+
+    if (options.subcommand === 'export') {
+      if (options.format && options.format !== 'markdown' && options.format !== 'json') {
+        fail("--format must be 'markdown' or 'json'");
+      }
+      const bundle = await exportMemoryBundle(db, session, scope.data ?? 'session');
+      const text =
+        options.format === 'json' ? `${JSON.stringify(bundle, null, 2)}\n` : renderMemoryMarkdown(bundle);
+      if (options.out) {
+        writeFileSync(options.out, text);
+        console.log(JSON.stringify({ out: options.out, count: bundle.memories.length }, null, 2));
+      } else {
+        process.stdout.write(text);
+      }
+      return;
+    }
+
+    if (options.subcommand === 'import') {
+      if (!options.file) {
+        fail('Missing --file');
+      }
+      let raw: unknown;
+      try {
+        raw = JSON.parse(readFileSync(options.file, 'utf8'));
+      } catch (error) {
+        fail(`Cannot read memory bundle ${options.file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const bundle = validateInput(memoryBundleSchema, raw);
+      if (!bundle.success) {
+        fail(`Invalid memory bundle: ${bundle.error}`);
+      }
+      let result: MemoryImportResult;
+      try {
+        result = await importMemoryBundle(db, session, bundle.data, {
+          scope: scope.data,
+          overwrite: options.overwrite,
+        });
+      } catch (error) {
+        fail(`Memory import failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    fail(`Unknown memory command: ${options.subcommand ?? '(none)'}. Use export or import.`);
+  } finally {
+    db.close();
+  }
+}
+
 async function main(): Promise<void> {
-  const { baseUrl, command, name, args } = parseArgs();
+  const options = parseArgs();
+  const { baseUrl, command, name, args } = options;
 
   if (command === 'help' || command === '--help' || command === '-h') {
     printHelp();
@@ -146,6 +512,21 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (command === 'git-sync') {
+    await runGitSync(options);
+    return;
+  }
+
+  if (command === 'token') {
+    await runToken(options);
+    return;
+  }
+
+  if (command === 'memory') {
+    await runMemory(options);
+    return;
+  }
+
   if (command === 'call') {
     if (!name) {
       console.error('Missing --name');
@@ -0,0 +1,188 @@
+// Server-Sent Events stream for session notifications and claim-queue changes.
+// Serves GET /mcp (MCP streamable HTTP transport): every event carries one JSON-RPC notification.
+// Other processes write to the same SQLite file, so the stream polls instead of subscribing in-process.
+
+import type http from 'http';
+import type { DatabaseAdapter } from '../db/sqlite-adapter.js';
+import type { JsonRpcNotification } from '../mcp/protocol.js';
+import type { Notification } from '../db/types.js';
+import { listNotificationsAfter, listQueue, resolveNotificationSeq } from '../db/queries.js';
+
+export const COLLAB_NOTIFICATION_METHOD = 'notifications/collab/notification';
+export const COLLAB_QUEUE_METHOD = 'notifications/collab/queue';
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_KEEPALIVE_MS = 15_000;
+
+export type EventStreamOptions = {
+  pollIntervalMs?: number;
+  keepAliveMs?: number;
+};
+
+export type QueuePosition = {
+  queue_id: string;
+  claim_id: string;
+  files: string[];
+  position: number;
+};
+
+export type QueuePositionChange = QueuePosition & {
+  previous_position: number | null;
+};
+
+export function formatSseEvent(message: JsonRpcNotification, eventId?: string): string {
+  const lines: string[] = [];
+  if (eventId) {
+    lines.push(`id: ${eventId}`);
+  }
+  lines.push(`data: ${JSON.stringify(message)}`);
+  return `${lines.join('\n')}\n\n`;
+}
+
+/** Compare two queue snapshots; entries seen for the first time have previous_position null. */
+export function diffQueuePositions(
+  previous: Map<string, QueuePosition>,
+  current: QueuePosition[]
+): { changed: QueuePositionChange[]; removed: QueuePosition[] } {
+  const changed: QueuePositionChange[] = [];
+  const currentIds = new Set<string>();
+
+  for (const entry of current) {
+    currentIds.add(entry.queue_id);
+    const before = previous.get(entry.queue_id);
+    if (!before || before.position !== entry.position) {
+      changed.push({ ...entry, previous_position: before?.position ?? null });
+    }
+  }
+
+  const removed = Array.from(previous.values()).filter((entry) => !currentIds.has(entry.queue_id));
+  return { changed, removed };
+}
+
+/** Effective queue positions (1 = next in line) for every queue entry the session owns. */
+async function snapshotQueuePositions(db: DatabaseAdapter, sessionId: string): Promise<QueuePosition[]> {
+  const entries = await listQueue(db, { session_id: sessionId });
+  const positions: QueuePosition[] = [];
+
+  for (const entry of entries) {
+    const line = await listQueue(db, { claim_id: entry.claim_id });
+    positions.push({
+      queue_id: entry.id,
+      claim_id: entry.claim_id,
+      files: entry.claim_files,
+      position: line.findIndex((queued) => queued.id === entry.id) + 1,
+    });
+  }
+
+  return positions;
+}
+
+function toNotificationMessage(notification: Notification): JsonRpcNotification {
+  let metadata: unknown = null;
+  try {
+    metadata = notification.metadata ? JSON.parse(notification.metadata) : null;
+  } catch {
+    // Keep the raw string if metadata is corrupted
+    metadata = notification.metadata;
+  }
+
+  return {
+    jsonrpc: '2.0',
+    method: COLLAB_NOTIFICATION_METHOD,
+    params: {
+      id: notification.id,
+      session_id: notification.session_id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      reference_type: notification.reference_type,
+      reference_id: notification.reference_id,
+      metadata,
+      created_at: notification.created_at,
+    },
+  };
+}
+
+/**
+ * Hold the response open as an SSE stream for one collab session.
+ * Pushes new notifications rows and the session's claim-queue position changes until the client disconnects.
+ */
+export async function openSessionEventStream(
+  db: DatabaseAdapter,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  params: {
+    sessionId: string;
+    traceId: string;
+    lastEventId?: string;
+    options?: EventStreamOptions;
+  }
+): Promise<void> {
+  const pollIntervalMs = params.options?.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const keepAliveMs = params.options?.keepAliveMs ?? DEFAULT_KEEPALIVE_MS;
+
+  // Resume after Last-Event-ID when it names one of the session's notifications; otherwise start from now
+  let cursor = await resolveNotificationSeq(db, params.sessionId, params.lastEventId);
+  let queue = new Map<string, QueuePosition>();
+  let closed = false;
+  let polling = false;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Request-ID': params.traceId,
+  });
+  res.write(': connected\n\n');
+
+  const poll = async (): Promise<void> => {
+    if (closed || polling) return;
+    polling = true;
+    try {
+      const notifications = await listNotificationsAfter(db, params.sessionId, cursor);
+      for (const notification of notifications) {
+        if (closed) return;
+        res.write(formatSseEvent(toNotificationMessage(notification), String(notification.seq)));
+        cursor = notification.seq;
+      }
+
+      const snapshot = await snapshotQueuePositions(db, params.sessionId);
+      const { changed, removed } = diffQueuePositions(queue, snapshot);
+      if (!closed && (changed.length > 0 || removed.length > 0)) {
+        res.write(
+          formatSseEvent({
+            jsonrpc: '2.0',
+            method: COLLAB_QUEUE_METHOD,
+            params: {
+              session_id: params.sessionId,
+              changed,
+              removed,
+              entries: snapshot,
+            },
+          })
+        );
+      }
+      queue = new Map(snapshot.map((entry) => [entry.queue_id, entry]));
+    } catch {
+      // Transient DB errors (e.g. SQLITE_BUSY from another process) are retried on the next tick
+    } finally {
+      polling = false;
+    }
+  };
+
+  const pollTimer = setInterval(() => void poll(), pollIntervalMs);
+  const keepAliveTimer = setInterval(() => {
+    if (!closed) res.write(': keepalive\n\n');
+  }, keepAliveMs);
+
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(pollTimer);
+    clearInterval(keepAliveTimer);
+  };
+  req.on('close', close);
+  res.on('close', close);
+
+  await poll();
+}
@@ -4,7 +4,12 @@ import type { DatabaseAdapter } from '../db/sqlite-adapter.js';
 import type { JsonRpcRequest, JsonRpcResponse, McpToolResult } from '../mcp/protocol.js';
 import { JsonRpcRequestSchema } from '../mcp/protocol.js';
 import { McpServer, getMcpTools, handleMcpRequest } from '../mcp/server.js';
-import { generateId } from '../utils/crypto.js';
+import type { AuthContext } from '../mcp/server.js';
+import { API_TOKEN_PREFIX, generateId, hashToken } from '../utils/crypto.js';
+import { findApiTokenByHash, getSession, touchApiToken } from '../db/queries.js';
+import type { ApiTokenScope } from '../db/types.js';
+import type { EventStreamOptions } from './event-stream.js';
+import { openSessionEventStream } from './event-stream.js';
 
 type JsonPrimitive = null | boolean | number | string;
 type JsonValue = JsonPrimitive | JsonValue[] | { [key: string]: JsonValue };
@@ -28,6 +33,9 @@ export type HttpServerOptions = {
   host?: string;
   allowedHosts?: string[];
   apiToken?: string;
+  /** Reject requests without a per-user API token (the shared apiToken is no longer enough). */
+  requireUserToken?: boolean;
+  eventStream?: EventStreamOptions;
 };
 
 class HttpRequestError extends Error {
@@ -250,7 +258,7 @@ export function parseQueryParams(url: URL): Record<string, JsonValue> {
 
 function enforceHttpSecurity(
   req: http.IncomingMessage,
-  options: Required<Pick<HttpServerOptions, 'host'>> & Pick<HttpServerOptions, 'allowedHosts' | 'apiToken'>
+  options: Required<Pick<HttpServerOptions, 'host'>> & Pick<HttpServerOptions, 'allowedHosts'>
 ): void {
   const allowedHosts = buildAllowedHosts(options.host, options.allowedHosts);
   const hostHeader = normalizeHostHeader(req.headers.host);
@@ -275,12 +283,109 @@ function enforceHttpSecurity(
     }
   }
 
+}
+
+function getBearerToken(req: http.IncomingMessage): string | null {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.slice('Bearer '.length).trim() || null;
+}
+
+function parseTokenScopes(scopes: string | null): ApiTokenScope[] {
+  try {
+    const parsed = scopes ? (JSON.parse(scopes) as unknown) : ['mcp'];
+    return Array.isArray(parsed) ? (parsed.filter((scope) => typeof scope === 'string') as ApiTokenScope[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve who is calling. Per-user API tokens (scm_…) are checked against api_tokens;
+ * otherwise the shared apiToken applies. Returns null for anonymous localhost access.
+ */
+async function authenticateRequest(
+  db: DatabaseAdapter,
+  req: http.IncomingMessage,
+  options: Pick<HttpServerOptions, 'apiToken' | 'requireUserToken'>
+): Promise<AuthContext | null> {
+  const bearer = getBearerToken(req);
+
+  if (bearer?.startsWith(API_TOKEN_PREFIX)) {
+    const token = await findApiTokenByHash(db, hashToken(bearer));
+    if (!token || token.user_status !== 'active') {
+      throw new HttpRequestError(401, 'UNAUTHORIZED', 'Invalid API token');
+    }
+    if (token.revoked_at) {
+      throw new HttpRequestError(401, 'TOKEN_REVOKED', 'API token has been revoked');
+    }
+    if (token.expires_at && token.expires_at <= new Date().toISOString()) {
+      throw new HttpRequestError(401, 'TOKEN_EXPIRED', 'API token has expired');
+    }
+    await touchApiToken(db, token.id);
+    return { type: 'api_token', userId: token.user_id, tokenId: token.id, scopes: parseTokenScopes(token.scopes) };
+  }
+
+  if (options.requireUserToken) {
+    throw new HttpRequestError(401, 'UNAUTHORIZED', 'A per-user API token is required');
+  }
+
   if (options.apiToken) {
-    const authHeader = req.headers.authorization;
-    const expected = `Bearer ${options.apiToken}`;
-    if (authHeader !== expected) {
+    if (bearer !== options.apiToken) {
       throw new HttpRequestError(401, 'UNAUTHORIZED', 'Valid bearer token is required');
     }
+    return { type: 'legacy' };
+  }
+
+  return null;
+}
+
+// Tool calls a `read`-scoped token may make
+function isReadOnlyToolCall(name: string, args: Record<string, unknown>): boolean {
+  if (
+    name === 'collab_session_list' ||
+    name === 'collab_status' ||
+    name === 'collab_memory_recall' ||
+    name === 'collab_memory_export'
+  ) {
+    return true;
+  }
+  if (name === 'collab_claim' || name === 'collab_protect') {
+    return args.action === 'check' || args.action === 'list';
+  }
+  if (name === 'collab_queue') {
+    return args.action === 'list';
+  }
+  return false;
+}
+
+function enforceToolScope(auth: AuthContext | null, name: string, args: Record<string, unknown>): void {
+  if (auth?.type !== 'api_token' || auth.scopes?.includes('mcp')) {
+    return;
+  }
+  if (auth.scopes?.includes('read') && isReadOnlyToolCall(name, args)) {
+    return;
+  }
+  throw new HttpRequestError(403, 'FORBIDDEN', `API token scope does not allow ${name}`);
+}
+
+/**
+ * A per-user token may only act as (or listen to) its own user's sessions. Unknown sessions
+ * pass through so the tool reports SESSION_NOT_FOUND as usual.
+ */
+async function enforceSessionOwner(
+  db: DatabaseAdapter,
+  auth: AuthContext | null,
+  sessionId: unknown
+): Promise<void> {
+  if (auth?.type !== 'api_token' || typeof sessionId !== 'string' || !sessionId) {
+    return;
+  }
+  const session = await getSession(db, sessionId);
+  if (session && session.user_id !== auth.userId) {
+    throw new HttpRequestError(403, 'FORBIDDEN', `API token does not own session ${sessionId}`);
   }
 }
 
@@ -288,15 +393,17 @@ async function handleRestTool(
   db: DatabaseAdapter,
   name: string,
   args: Record<string, unknown>,
-  traceId: string
+  traceId: string,
+  auth: AuthContext | null
 ): Promise<HttpResponse> {
-  const result = await handleMcpRequest(db, name, args);
+  enforceToolScope(auth, name, args);
+  await enforceSessionOwner(db, auth, args.session_id);
+  const result = await handleMcpRequest(db, name, args, auth?.userId);
   return normalizeToolResult(result, traceId);
 }
 
 export function createHttpServer(db: DatabaseAdapter, options: HttpServerOptions = {}): http.Server {
   const host = options.host ?? '127.0.0.1';
-  const mcpServer = new McpServer(db);
 
   return http.createServer(async (req, res) => {
     const traceId = getTraceId(req);
@@ -308,8 +415,8 @@ export function createHttpServer(db: DatabaseAdapter, options: HttpServerOptions
       enforceHttpSecurity(req, {
         host,
         allowedHosts: options.allowedHosts,
-        apiToken: options.apiToken,
       });
+      const auth = await authenticateRequest(db, req, options);
 
       if (method === 'GET' && url.pathname === '/health') {
         sendJson(res, 200, { ok: true, data: { status: 'ok' } }, traceId);
@@ -327,7 +434,7 @@ export function createHttpServer(db: DatabaseAdapter, options: HttpServerOptions
           sendHttpError(res, 400, 'INVALID_INPUT', 'name is required', traceId);
           return;
         }
-        const response = await handleRestTool(db, body.name, body.args ?? {}, traceId);
+        const response = await handleRestTool(db, body.name, body.args ?? {}, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
@@ -340,79 +447,113 @@ export function createHttpServer(db: DatabaseAdapter, options: HttpServerOptions
           return;
         }
 
-        const response = await mcpServer.handleRequest(validation.data as JsonRpcRequest);
+        const request = validation.data as JsonRpcRequest;
+        if (request.method === 'tools/call') {
+          const params = (request.params ?? {}) as { name?: string; arguments?: Record<string, unknown> };
+          enforceToolScope(auth, params.name ?? '', params.arguments ?? {});
+          await enforceSessionOwner(db, auth, params.arguments?.session_id);
+        }
+
+        // Per request, so sessions started with a user token are attributed to that user
+        const response = await new McpServer(db, auth ?? undefined).handleRequest(request);
         sendJsonRpcResponse(res, 200, response, traceId);
         return;
       }
 
       if (method === 'GET' && url.pathname === '/mcp') {
-        sendHttpError(
-          res,
-          501,
-          'STREAM_NOT_SUPPORTED',
-          'This server exposes MCP JSON-RPC over HTTP POST at /mcp. SSE streaming is not implemented.',
-          traceId
-        );
+        const accept = req.headers.accept ?? '';
+        if (!accept.includes('text/event-stream')) {
+          sendHttpError(res, 406, 'NOT_ACCEPTABLE', 'GET /mcp requires Accept: text/event-stream', traceId);
+          return;
+        }
+
+        const sessionId = url.searchParams.get('session_id');
+        if (!sessionId) {
+          sendHttpError(res, 400, 'INVALID_INPUT', 'session_id query parameter is required', traceId);
+          return;
+        }
+
+        const session = await getSession(db, sessionId);
+        if (!session) {
+          sendHttpError(res, 404, 'SESSION_NOT_FOUND', 'Session not found', traceId);
+          return;
+        }
+        await enforceSessionOwner(db, auth, sessionId);
+
+        const lastEventId = req.headers['last-event-id'];
+        await openSessionEventStream(db, req, res, {
+          sessionId,
+          traceId,
+          lastEventId: typeof lastEventId === 'string' ? lastEventId : undefined,
+          options: options.eventStream,
+        });
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/sessions/start') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_session_start', body ?? {}, traceId);
+        const response = await handleRestTool(db, 'collab_session_start', body ?? {}, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/sessions/end') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_session_end', body ?? {}, traceId);
+        const response = await handleRestTool(db, 'collab_session_end', body ?? {}, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/sessions/update') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_session_update', body ?? {}, traceId);
+        const response = await handleRestTool(db, 'collab_session_update', body ?? {}, traceId, auth);
+        sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
+        return;
+      }
+
+      if (method === 'POST' && url.pathname === '/v1/sessions/handoff') {
+        const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
+        const response = await handleRestTool(db, 'collab_session_handoff', body ?? {}, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'GET' && url.pathname === '/v1/sessions') {
-        const response = await handleRestTool(db, 'collab_session_list', parseQueryParams(url), traceId);
+        const response = await handleRestTool(db, 'collab_session_list', parseQueryParams(url), traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/config') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_config', body ?? {}, traceId);
+        const response = await handleRestTool(db, 'collab_config', body ?? {}, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'GET' && url.pathname === '/v1/status') {
-        const response = await handleRestTool(db, 'collab_status', parseQueryParams(url), traceId);
+        const response = await handleRestTool(db, 'collab_status', parseQueryParams(url), traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/claims') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_claim', { action: 'create', ...(body ?? {}) }, traceId);
+        const response = await handleRestTool(db, 'collab_claim', { action: 'create', ...(body ?? {}) }, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/claims/check') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_claim', { action: 'check', ...(body ?? {}) }, traceId);
+        const response = await handleRestTool(db, 'collab_claim', { action: 'check', ...(body ?? {}) }, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/claims/release') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_claim', { action: 'release', ...(body ?? {}) }, traceId);
+        const response = await handleRestTool(db, 'collab_claim', { action: 'release', ...(body ?? {}) }, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
@@ -422,43 +563,98 @@ export function createHttpServer(db: DatabaseAdapter, options: HttpServerOptions
           db,
           'collab_claim',
           { action: 'list', ...parseQueryParams(url) },
-          traceId
+          traceId,
+          auth
+        );
+        sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
+        return;
+      }
+
+      if (method === 'GET' && url.pathname === '/v1/queue') {
+        const response = await handleRestTool(
+          db,
+          'collab_queue',
+          { action: 'list', ...parseQueryParams(url) },
+          traceId,
+          auth
         );
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
+      if (method === 'POST' && url.pathname === '/v1/queue/leave') {
+        const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
+        const response = await handleRestTool(db, 'collab_queue', { action: 'leave', ...(body ?? {}) }, traceId, auth);
+        sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
+        return;
+      }
+
+      if (method === 'POST' && url.pathname === '/v1/queue/promote') {
+        const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
+        const response = await handleRestTool(db, 'collab_queue', { action: 'promote', ...(body ?? {}) }, traceId, auth);
+        sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
+        return;
+      }
+
+      if (method === 'POST' && url.pathname === '/v1/queue/handoff') {
+        const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
+        const response = await handleRestTool(db, 'collab_queue', { action: 'handoff', ...(body ?? {}) }, traceId, auth);
+        sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
+        return;
+      }
+
       if (method === 'POST' && url.pathname === '/v1/memory/save') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_memory_save', body ?? {}, traceId);
+        const response = await handleRestTool(db, 'collab_memory_save', body ?? {}, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/memory/recall') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_memory_recall', body ?? {}, traceId);
+        const response = await handleRestTool(db, 'collab_memory_recall', body ?? {}, traceId, auth);
+        sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
+        return;
+      }
+
+      if (method === 'POST' && url.pathname === '/v1/memory/restore') {
+        const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
+        const response = await handleRestTool(db, 'collab_memory_restore', body ?? {}, traceId, auth);
+        sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
+        return;
+      }
+
+      if (method === 'POST' && url.pathname === '/v1/memory/export') {
+        const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
+        const response = await handleRestTool(db, 'collab_memory_export', body ?? {}, traceId, auth);
+        sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
+        return;
+      }
+
+      if (method === 'POST' && url.pathname === '/v1/memory/import') {
+        const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
+        const response = await handleRestTool(db, 'collab_memory_import', body ?? {}, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/memory/clear') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_memory_clear', body ?? {}, traceId);
+        const response = await handleRestTool(db, 'collab_memory_clear', body ?? {}, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/protect/register') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_protect', { action: 'register', ...(body ?? {}) }, traceId);
+        const response = await handleRestTool(db, 'collab_protect', { action: 'register', ...(body ?? {}) }, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
 
       if (method === 'POST' && url.pathname === '/v1/protect/check') {
         const body = (await readJsonBody(req)) as Record<string, unknown> | undefined;
-        const response = await handleRestTool(db, 'collab_protect', { action: 'check', ...(body ?? {}) }, traceId);
+        const response = await handleRestTool(db, 'collab_protect', { action: 'check', ...(body ?? {}) }, traceId, auth);
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
       }
@@ -468,7 +664,8 @@ export function createHttpServer(db: DatabaseAdapter, options: HttpServerOptions
           db,
           'collab_protect',
           { action: 'list', ...parseQueryParams(url) },
-          traceId
+          traceId,
+          auth
         );
         sendJson(res, response.ok ? 200 : 400, response as unknown as JsonValue, traceId);
         return;
@@ -476,6 +673,11 @@ export function createHttpServer(db: DatabaseAdapter, options: HttpServerOptions
 
       sendHttpError(res, 404, 'NOT_FOUND', 'Not found', traceId);
     } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
       if (error instanceof HttpRequestError) {
         sendHttpError(res, error.status, error.code, error.message, traceId);
         return;
@@ -488,13 +690,13 @@ export function createHttpServer(db: DatabaseAdapter, options: HttpServerOptions
 
 export async function startHttpServer(
   db: DatabaseAdapter,
-  options: { host: string; port: number; allowedHosts?: string[]; apiToken?: string }
+  options: { host: string; port: number; allowedHosts?: string[]; apiToken?: string; requireUserToken?: boolean }
 ): Promise<http.Server> {
   const normalizedHost = normalizeHost(options.host);
 
   if (!isLocalBindHost(normalizedHost)) {
-    if (!options.apiToken) {
-      throw new Error('Non-local HTTP binds require SESSION_COLLAB_HTTP_TOKEN');
+    if (!options.apiToken && !options.requireUserToken) {
+      throw new Error('Non-local HTTP binds require SESSION_COLLAB_HTTP_TOKEN or per-user API tokens');
     }
 
     const allowedHosts = buildAllowedHosts(normalizedHost, options.allowedHosts);
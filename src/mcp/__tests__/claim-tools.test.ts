@@ -1,8 +1,11 @@
 // Claim tools tests - unified action-based interface
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
 import { handleClaimTool } from '../tools/claim.js';
-import { createSession, createClaim, getClaim } from '../../db/queries.js';
+import { createSession, createClaim, getClaim, listAuditHistory, recallMemory } from '../../db/queries.js';
 import { handleSessionTool } from '../tools/session.js';
 
 describe('Claim Tools', () => {
@@ -45,6 +48,48 @@ describe('Claim Tools', () => {
         expect(response.claimed_files).toBeUndefined();
       });
 
+      it('should scope conflicts to the repository and mark cross-branch ones', async () => {
+        await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: sessionId,
+          files: ['src/shared.ts'],
+          intent: 'Main branch work',
+        });
+        await db
+          .prepare('UPDATE sessions SET branch = ? WHERE id = ?')
+          .bind('main', sessionId)
+          .run();
+
+        const feature = await createSession(db, {
+          project_root: '/test/project',
+          worktree: '/test/project-feature',
+          branch: 'feature',
+          name: 'feature-session',
+        });
+        const result = await handleClaimTool(db, 'collab_claim', {
+          action: 'check',
+          session_id: feature.id,
+          // Absolute paths resolve against the session's own worktree
+          files: ['/test/project-feature/src/shared.ts'],
+          detail: true,
+        });
+        const response = JSON.parse(result.content[0].text);
+        expect(response.conflicts).toHaveLength(1);
+        expect(response.conflicts[0]).toMatchObject({
+          file: 'src/shared.ts',
+          branch: 'main',
+          branch_scope: 'cross_branch',
+        });
+
+        const unrelated = await createSession(db, { project_root: '/other/project', name: 'unrelated' });
+        const other = await handleClaimTool(db, 'collab_claim', {
+          action: 'check',
+          session_id: unrelated.id,
+          files: ['src/shared.ts'],
+        });
+        expect(JSON.parse(other.content[0].text).has_conflicts).toBe(false);
+      });
+
       it('should normalize absolute paths to project-relative claims', async () => {
         await handleClaimTool(db, 'collab_claim', {
           action: 'create',
@@ -267,6 +312,32 @@ describe('Claim Tools', () => {
         expect(claim?.files).toEqual(['src/safe.ts']);
       });
 
+      it('should treat files under another session\'s directory claim as blocked', async () => {
+        const otherSession = await createSession(db, {
+          project_root: '/test/project',
+          name: 'owner-session',
+        });
+
+        await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: otherSession.id,
+          files: ['src/db/'],
+          intent: 'Reworking the db layer',
+        });
+
+        const result = await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: sessionId,
+          files: ['src/app.ts', 'src/db/queries.ts'],
+          intent: 'Edit mixed files',
+        });
+
+        const response = JSON.parse(result.content[0].text);
+        expect(response.status).toBe('partial_claim_created');
+        expect(response.claimed_files).toEqual(['src/app.ts']);
+        expect(response.blocked_files).toEqual(['src/db/**']);
+      });
+
       it('should allow explicit conflict claim creation in bypass mode when allow_conflicts is true', async () => {
         const otherSession = await createSession(db, {
           project_root: '/test/project',
@@ -327,6 +398,71 @@ describe('Claim Tools', () => {
       });
     });
 
+    describe('claim modes', () => {
+      let readerId: string;
+
+      beforeEach(async () => {
+        readerId = (await createSession(db, { project_root: '/test/project', name: 'reviewer' })).id;
+        await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: readerId,
+          files: ['src/api.ts'],
+          intent: 'Review the API',
+          mode: 'read',
+        });
+      });
+
+      it('should share read claims and block readers behind a writer', async () => {
+        const second = JSON.parse((await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: sessionId,
+          files: ['src/api.ts'],
+          intent: 'Read the API too',
+          mode: 'read',
+        })).content[0].text);
+        expect(second.status).toBe('created');
+        expect(second.mode).toBe('read');
+        expect(second.read_holders).toBeUndefined();
+
+        const writer = await createSession(db, { project_root: '/test/project', name: 'writer' });
+        await createClaim(db, { session_id: writer.id, files: ['src/db.ts'], intent: 'Rewrite the db' });
+        const blocked = JSON.parse((await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: readerId,
+          files: ['src/db.ts'],
+          intent: 'Read the db',
+          mode: 'read',
+        })).content[0].text);
+        expect(blocked.status).toBe('waiting_for_coordination');
+      });
+
+      it('should report read holders as soft conflicts of a write claim and notify them', async () => {
+        const check = JSON.parse((await handleClaimTool(db, 'collab_claim', {
+          action: 'check',
+          session_id: sessionId,
+          files: ['src/api.ts'],
+        })).content[0].text);
+        expect(check.safe).toBe(true);
+        expect(check.read_holders).toHaveLength(1);
+
+        const response = JSON.parse((await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: sessionId,
+          files: ['src/api.ts'],
+          intent: 'Rename endpoints',
+        })).content[0].text);
+        expect(response.status).toBe('created');
+        expect(response.mode).toBe('write');
+        expect(response.read_holders).toMatchObject([{ session_id: readerId, mode: 'read', file: 'src/api.ts' }]);
+
+        const notice = await db
+          .prepare('SELECT type, title FROM notifications WHERE session_id = ?')
+          .bind(readerId)
+          .first<{ type: string; title: string }>();
+        expect(notice).toEqual({ type: 'conflict_detected', title: 'Write claim on files you read' });
+      });
+    });
+
     describe('action: check', () => {
       it('should return no conflicts for unclaimed files', async () => {
         const result = await handleClaimTool(db, 'collab_claim', {
@@ -388,6 +524,75 @@ describe('Claim Tools', () => {
       });
     });
 
+    describe('action: renew', () => {
+      it('should create a leased claim and renew it', async () => {
+        const created = await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: sessionId,
+          files: ['src/leased.ts'],
+          intent: 'Leased work',
+          ttl_minutes: 5,
+        });
+        const createResponse = JSON.parse(created.content[0].text);
+        expect(createResponse.expires_at).toBeDefined();
+
+        const renewed = await handleClaimTool(db, 'collab_claim', {
+          action: 'renew',
+          session_id: sessionId,
+          claim_id: createResponse.claim_id,
+          ttl_minutes: 60,
+        });
+
+        expect(renewed.isError).toBeFalsy();
+        const renewResponse = JSON.parse(renewed.content[0].text);
+        expect(renewResponse.success).toBe(true);
+        expect(Date.parse(renewResponse.expires_at)).toBeGreaterThan(Date.parse(createResponse.expires_at));
+      });
+
+      it('should reject renewing another session claim', async () => {
+        const other = await createSession(db, { project_root: '/test/project', name: 'other' });
+        const { claim } = await createClaim(db, {
+          session_id: other.id,
+          files: ['src/theirs.ts'],
+          intent: 'Their work',
+        });
+
+        const result = await handleClaimTool(db, 'collab_claim', {
+          action: 'renew',
+          session_id: sessionId,
+          claim_id: claim.id,
+        });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.parse(result.content[0].text).error).toBe('NOT_OWNER');
+      });
+
+      it('should let a new claim take files from an expired lease', async () => {
+        const other = await createSession(db, { project_root: '/test/project', name: 'crashed' });
+        const { claim } = await createClaim(db, {
+          session_id: other.id,
+          files: ['src/stuck.ts'],
+          intent: 'Crashed agent',
+          ttl_minutes: 5,
+        });
+        await db
+          .prepare('UPDATE claims SET expires_at = ? WHERE id = ?')
+          .bind(new Date(Date.now() - 1000).toISOString(), claim.id)
+          .run();
+
+        const result = await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: sessionId,
+          files: ['src/stuck.ts'],
+          intent: 'Take over',
+        });
+
+        const response = JSON.parse(result.content[0].text);
+        expect(response.status).toBe('created');
+        expect((await getClaim(db, claim.id))!.status).toBe('abandoned');
+      });
+    });
+
     describe('action: release', () => {
       it('should release own claim successfully', async () => {
         // Create a claim first
@@ -443,6 +648,112 @@ describe('Claim Tools', () => {
       });
     });
 
+    describe('actions: extend, shrink, split', () => {
+      let claimId: string;
+
+      async function run(args: Record<string, unknown>): Promise<Record<string, unknown>> {
+        const result = await handleClaimTool(db, 'collab_claim', { session_id: sessionId, claim_id: claimId, ...args });
+        return JSON.parse(result.content[0].text) as Record<string, unknown>;
+      }
+
+      beforeEach(async () => {
+        const created = await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: sessionId,
+          files: ['src/a.ts', 'src/b.ts'],
+          intent: 'Refactor auth',
+        });
+        claimId = JSON.parse(created.content[0].text).claim_id;
+      });
+
+      it('should extend a claim with safe files only and keep the claim id', async () => {
+        const other = await createSession(db, { project_root: '/test/project', name: 'other' });
+        await createClaim(db, { session_id: other.id, files: ['src/taken.ts'], intent: 'Other work' });
+
+        const response = await run({ action: 'extend', files: ['src/c.ts', 'src/taken.ts'] });
+        expect(response.status).toBe('partially_extended');
+        expect(response.claim_id).toBe(claimId);
+        expect(response.blocked_files).toEqual(['src/taken.ts']);
+        expect((await getClaim(db, claimId))?.files.sort()).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+
+        const [memory] = await recallMemory(db, sessionId, { key: `claim_${claimId}` });
+        expect(memory.content).toContain('Files (3)');
+        expect((await run({ action: 'extend', files: ['src/taken.ts'] })).status).toBe('blocked_by_conflicts');
+      });
+
+      it('should shrink a claim as a partial release', async () => {
+        const response = await run({ action: 'shrink', files: ['src/b.ts'] });
+        expect(response).toMatchObject({ status: 'shrunk', files_remaining: 1 });
+        expect((await getClaim(db, claimId))?.files).toEqual(['src/a.ts']);
+
+        const [entry] = await listAuditHistory(db, { entity_id: claimId, action: 'claim_released' });
+        expect(JSON.parse(entry.metadata!)).toMatchObject({ status: 'partial', files: ['src/b.ts'], files_remaining: 1 });
+
+        expect((await run({ action: 'shrink', files: ['src/a.ts'] })).error).toBe('INVALID_INPUT');
+        expect((await run({ action: 'shrink', files: ['src/zzz.ts'] })).error).toBe('INVALID_INPUT');
+      });
+
+      it('should split files into a new claim with its own intent', async () => {
+        const response = await run({ action: 'split', files: ['src/b.ts'], intent: 'Fix login copy' });
+        expect(response.status).toBe('split');
+
+        expect((await getClaim(db, claimId))?.files).toEqual(['src/a.ts']);
+        expect(await getClaim(db, response.new_claim_id as string)).toMatchObject({
+          session_id: sessionId,
+          intent: 'Fix login copy',
+          files: ['src/b.ts'],
+        });
+        const actions = (await listAuditHistory(db, { entity_id: claimId })).map((entry) => entry.action);
+        expect(actions).toContain('claim_split');
+      });
+    });
+
+    describe('action: transfer', () => {
+      it('should move every active claim with its memory and keep the claim ids', async () => {
+        const implementer = await createSession(db, { project_root: '/test/project', name: 'implementer' });
+        const waiter = await createSession(db, { project_root: '/test/project', name: 'waiter' });
+        const claimId = JSON.parse((await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: sessionId,
+          files: ['src/plan.ts'],
+          intent: 'Plan the feature',
+        })).content[0].text).claim_id;
+        await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: waiter.id,
+          files: ['src/plan.ts'],
+          intent: 'Waiting',
+        });
+
+        const response = JSON.parse((await handleClaimTool(db, 'collab_claim', {
+          action: 'transfer',
+          session_id: sessionId,
+          target_session_id: implementer.id,
+          summary: 'Plan done, implement it',
+        })).content[0].text);
+        expect(response.transferred).toMatchObject([{ claim_id: claimId, memory_moved: 1 }]);
+        expect(response.waiters_notified).toBe(1);
+
+        expect((await getClaim(db, claimId))?.session_id).toBe(implementer.id);
+        expect(await recallMemory(db, implementer.id, { key: `claim_${claimId}` })).toHaveLength(1);
+        expect(await recallMemory(db, sessionId, { key: `claim_${claimId}` })).toHaveLength(0);
+        const [entry] = await listAuditHistory(db, { entity_id: claimId, action: 'claim_transferred' });
+        expect(JSON.parse(entry.metadata!)).toMatchObject({ to_session_id: implementer.id, reason: 'Plan done, implement it' });
+      });
+
+      it('should refuse targets outside the project', async () => {
+        await createClaim(db, { session_id: sessionId, files: ['src/a.ts'], intent: 'Work' });
+        const elsewhere = await createSession(db, { project_root: '/other/project', name: 'elsewhere' });
+
+        const response = JSON.parse((await handleClaimTool(db, 'collab_claim', {
+          action: 'transfer',
+          session_id: sessionId,
+          target_session_id: elsewhere.id,
+        })).content[0].text);
+        expect(response.error).toBe('TARGET_SESSION_INVALID');
+      });
+    });
+
     describe('action: list', () => {
       it('should list active claims', async () => {
         // Create multiple claims
@@ -510,5 +821,93 @@ describe('Claim Tools', () => {
         expect(response.total).toBe(0);
       });
     });
+
+    describe('symbol index', () => {
+      let projectRoot: string;
+      let indexedSessionId: string;
+      let otherSessionId: string;
+
+      beforeEach(async () => {
+        projectRoot = mkdtempSync(path.join(tmpdir(), 'collab-claim-symbols-'));
+        mkdirSync(path.join(projectRoot, 'src'));
+        writeFileSync(
+          path.join(projectRoot, 'src', 'auth.ts'),
+          [
+            'export function validateToken(token: string): boolean {',
+            '  return token.length > 0;',
+            '}',
+            '',
+            'export class AuthService {',
+            '  login(): void {}',
+            '}',
+            '',
+          ].join('\n')
+        );
+        indexedSessionId = (await createSession(db, { project_root: projectRoot, name: 'indexed' })).id;
+        otherSessionId = (await createSession(db, { project_root: projectRoot, name: 'other' })).id;
+      });
+
+      afterEach(() => {
+        rmSync(projectRoot, { recursive: true, force: true });
+      });
+
+      it('should reject misspelled symbol names with suggestions', async () => {
+        const result = await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: indexedSessionId,
+          symbols: [{ file: 'src/auth.ts', symbols: ['validateTokn'] }],
+          intent: 'Typo',
+        });
+
+        expect(result.isError).toBe(true);
+        const response = JSON.parse(result.content[0].text);
+        expect(response.message).toContain('validateTokn');
+        expect(response.message).toContain('did you mean validateToken');
+      });
+
+      it('should fill in symbol_type from the index', async () => {
+        const result = await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: indexedSessionId,
+          symbols: [{ file: 'src/auth.ts', symbols: ['AuthService.login'] }],
+          intent: 'Change login',
+        });
+
+        const response = JSON.parse(result.content[0].text);
+        const row = await db
+          .prepare('SELECT symbol_type FROM claim_symbols WHERE claim_id = ?')
+          .bind(response.claim_id)
+          .first<{ symbol_type: string }>();
+        expect(row?.symbol_type).toBe('method');
+      });
+
+      it('should map edited lines to the enclosing symbol in check', async () => {
+        await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: otherSessionId,
+          symbols: [{ file: 'src/auth.ts', symbols: ['validateToken'] }],
+          intent: 'Harden validation',
+        });
+
+        const blocked = await handleClaimTool(db, 'collab_claim', {
+          action: 'check',
+          session_id: indexedSessionId,
+          lines: [{ file: 'src/auth.ts', start_line: 2 }],
+        });
+        const blockedResponse = JSON.parse(blocked.content[0].text);
+        expect(blockedResponse.has_conflicts).toBe(true);
+        expect(blockedResponse.conflicts[0].symbol_name).toBe('validateToken');
+        expect(blockedResponse.resolved_lines[0].symbols).toEqual(['validateToken']);
+
+        const clear = await handleClaimTool(db, 'collab_claim', {
+          action: 'check',
+          session_id: indexedSessionId,
+          lines: [{ file: 'src/auth.ts', start_line: 6, end_line: 6 }],
+        });
+        const clearResponse = JSON.parse(clear.content[0].text);
+        expect(clearResponse.has_conflicts).toBe(false);
+        expect(clearResponse.resolved_lines[0].symbols).toEqual(['AuthService', 'login', 'AuthService.login']);
+      });
+    });
   });
 });
@@ -0,0 +1,175 @@
+// Hub client tests - two machines coordinating through a local stand-in hub
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
+import { createHttpServer } from '../../http/server.js';
+import { createHubToolHandler } from '../hub-client.js';
+import type { ToolHandler } from '../hub-client.js';
+
+function parse(result: Awaited<ReturnType<ToolHandler>>) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe('Hub client', () => {
+  let db: TestDatabase;
+  let server: ReturnType<typeof createHttpServer>;
+  let hubUrl: string;
+
+  async function startHub(apiToken?: string): Promise<void> {
+    server = createHttpServer(db, { apiToken });
+    await new Promise<void>((resolve, reject) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+      server.on('error', reject);
+    });
+    const address = server.address();
+    if (typeof address === 'string' || address === null) {
+      throw new Error('Unexpected server address');
+    }
+    hubUrl = `http://127.0.0.1:${address.port}`;
+  }
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    db.close();
+  });
+
+  it('shares claims across machines and shows where each claim lives', async () => {
+    await startHub();
+    const laptop = createHubToolHandler({ hubUrl, machineId: 'laptop' });
+    const devbox = createHubToolHandler({ hubUrl, machineId: 'devbox' });
+
+    const laptopSession = parse(
+      await laptop('collab_session_start', { project_root: '/repo', name: 'laptop-agent' })
+    );
+    expect(laptopSession).toMatchObject({ machine_id: 'laptop', scope: 'hub', hub_url: hubUrl });
+    expect(laptopSession.db_path).toBeUndefined();
+
+    const devboxSession = parse(
+      await devbox('collab_session_start', { project_root: '/repo', name: 'devbox-agent' })
+    );
+
+    await laptop('collab_claim', {
+      action: 'create',
+      session_id: laptopSession.session_id,
+      files: ['src/auth.ts'],
+      intent: 'Refactor auth',
+    });
+
+    const check = parse(
+      await devbox('collab_claim', {
+        action: 'check',
+        session_id: devboxSession.session_id,
+        files: ['src/auth.ts'],
+      })
+    );
+    expect(check.has_conflicts).toBe(true);
+    expect(check.conflicts[0]).toMatchObject({ session_name: 'laptop-agent', machine_id: 'laptop' });
+
+    const list = parse(await devbox('collab_session_list', { project_root: '/repo' }));
+    expect(list.sessions.map((s: { machine_id: string }) => s.machine_id).sort()).toEqual(['devbox', 'laptop']);
+  });
+
+  it('matches checkouts at different paths by their git remote', async () => {
+    await startHub();
+    const base = mkdtempSync(path.join(tmpdir(), 'collab-hub-'));
+    try {
+      // Same repository, cloned to different paths with different remote URL spellings
+      const laptopRoot = path.join(base, 'home', 'alice', 'app');
+      const devboxRoot = path.join(base, 'srv', 'checkouts', 'acme-app');
+      for (const [root, remote] of [
+        [laptopRoot, 'git@github.com:Acme/App.git'],
+        [devboxRoot, 'https://github.com/acme/app'],
+      ]) {
+        mkdirSync(root, { recursive: true });
+        execFileSync('git', ['init', '-q', '-b', 'main'], { cwd: root });
+        execFileSync('git', ['remote', 'add', 'origin', remote], { cwd: root });
+      }
+      const laptop = createHubToolHandler({ hubUrl, machineId: 'laptop' });
+      const devbox = createHubToolHandler({ hubUrl, machineId: 'devbox' });
+
+      const laptopSession = parse(await laptop('collab_session_start', { project_root: laptopRoot, name: 'a' }));
+      const devboxSession = parse(await devbox('collab_session_start', { project_root: devboxRoot, name: 'b' }));
+      expect(laptopSession.project_root).toBe('github.com/acme/app');
+      expect(devboxSession.project_root).toBe('github.com/acme/app');
+      expect(devboxSession.branch).toBe('main');
+
+      await laptop('collab_claim', {
+        action: 'create',
+        session_id: laptopSession.session_id,
+        files: [path.join(laptopRoot, 'src', 'auth.ts')],
+        intent: 'Refactor auth',
+      });
+      const check = parse(
+        await devbox('collab_claim', {
+          action: 'check',
+          session_id: devboxSession.session_id,
+          files: [path.join(devboxRoot, 'src', 'auth.ts')],
+        })
+      );
+      expect(check.has_conflicts).toBe(true);
+      expect(check.conflicts[0]).toMatchObject({ file: 'src/auth.ts', machine_id: 'laptop' });
+
+      const list = parse(await devbox('collab_session_list', { project_root: devboxRoot }));
+      expect(list.sessions).toHaveLength(2);
+    } finally {
+      rmSync(base, { recursive: true, force: true });
+    }
+  });
+
+  it('uses an explicit project key without touching paths on the hub', async () => {
+    await startHub();
+    const laptop = createHubToolHandler({ hubUrl, machineId: 'laptop', projectKey: 'acme/app' });
+    const devbox = createHubToolHandler({ hubUrl, machineId: 'devbox', projectKey: 'acme/app' });
+
+    // Neither path exists on the hub (or anywhere)
+    const laptopSession = parse(
+      await laptop('collab_session_start', { project_root: '/Users/alice/code/app', branch: 'feature' })
+    );
+    const devboxSession = parse(await devbox('collab_session_start', { project_root: '/home/bob/app' }));
+    expect(laptopSession).toMatchObject({ project_root: 'acme/app', branch: 'feature' });
+
+    const created = parse(
+      await laptop('collab_claim', {
+        action: 'create',
+        session_id: laptopSession.session_id,
+        symbols: [{ file: '/Users/alice/code/app/src/auth.ts', symbols: ['login'] }],
+        intent: 'Fix login',
+      })
+    );
+    expect(created.status).toBe('created');
+
+    const check = parse(
+      await devbox('collab_claim', { action: 'check', session_id: devboxSession.session_id, files: ['src/auth.ts'] })
+    );
+    expect(check.has_conflicts).toBe(true);
+  });
+
+  it('forwards the bearer token', async () => {
+    await startHub('secret');
+
+    const anonymous = await createHubToolHandler({ hubUrl })('collab_session_list', {});
+    expect(anonymous.isError).toBe(true);
+    expect(parse(anonymous)).toMatchObject({ error: 'HUB_UNAVAILABLE' });
+    expect(parse(anonymous).message).toContain('UNAUTHORIZED');
+
+    const authorized = await createHubToolHandler({ hubUrl, token: 'secret' })('collab_session_list', {});
+    expect(authorized.isError).toBeFalsy();
+  });
+
+  it('reports an unreachable hub as a tool error', async () => {
+    await startHub();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    server = createHttpServer(db);
+
+    const result = await createHubToolHandler({ hubUrl, timeoutMs: 2000 })('collab_session_list', {});
+    expect(result.isError).toBe(true);
+    expect(parse(result).error).toBe('HUB_UNAVAILABLE');
+  });
+});
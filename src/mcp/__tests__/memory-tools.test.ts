@@ -2,7 +2,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
 import { handleMemoryTool } from '../tools/memory.js';
-import { createSession, saveMemory } from '../../db/queries.js';
+import { createSession, endSession, saveMemory } from '../../db/queries.js';
 
 describe('Memory Tools', () => {
   let db: TestDatabase;
@@ -21,6 +21,11 @@ describe('Memory Tools', () => {
     db.close();
   });
 
+  async function call(name: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const result = await handleMemoryTool(db, name, { session_id: sessionId, ...args });
+    return JSON.parse(result.content[0].text);
+  }
+
   describe('collab_memory_save', () => {
     it('should save memory successfully', async () => {
       const result = await handleMemoryTool(db, 'collab_memory_save', {
@@ -165,6 +170,84 @@ describe('Memory Tools', () => {
       expect(response.memories).toHaveLength(1);
       expect(response.memories[0].content).toBe('Authentication bug');
     });
+
+    it('should rank full-text matches and highlight them', async () => {
+      await saveMemory(db, sessionId, {
+        category: 'finding',
+        key: 'runner_order',
+        content: 'The migration runner applies files in filename order and records a checksum',
+      });
+      await saveMemory(db, sessionId, {
+        category: 'context',
+        key: 'schema',
+        content: 'Schema lives in the migrations folder',
+      });
+      await saveMemory(db, sessionId, {
+        category: 'finding',
+        key: 'stale_runner',
+        content: 'Old migration runner notes',
+        expires_at: '2000-01-01T00:00:00.000Z',
+      });
+
+      const result = await handleMemoryTool(db, 'collab_memory_recall', {
+        session_id: sessionId,
+        query: 'what did we find about the migration runner?',
+      });
+
+      expect(result.isError).toBeFalsy();
+      const response = JSON.parse(result.content[0].text);
+      expect(response.matches.map((m: { key: string }) => m.key)).toEqual(['runner_order', 'schema']);
+      expect(response.matches[0].snippet).toContain('**migration** **runner**');
+
+      const limited = await handleMemoryTool(db, 'collab_memory_recall', {
+        session_id: sessionId,
+        query: 'migration',
+        max_items: 1,
+      });
+      expect(JSON.parse(limited.content[0].text).count).toBe(1);
+    });
+
+    it('should fill a max_tokens budget and report what was left out', async () => {
+      await saveMemory(db, sessionId, {
+        category: 'context',
+        key: 'long_note',
+        content: 'Long background note. '.repeat(30),
+        priority: 80,
+      });
+
+      const result = await handleMemoryTool(db, 'collab_memory_recall', {
+        session_id: sessionId,
+        active: true,
+        max_tokens: 30,
+      });
+
+      expect(result.isError).toBeFalsy();
+      const response = JSON.parse(result.content[0].text);
+      expect(response.by_category.finding).toEqual([{ key: 'bug1', content: 'Authentication bug' }]);
+      expect(response.budget.used_tokens).toBeLessThanOrEqual(30);
+      expect(response.budget.omitted.map((m: { key: string }) => m.key)).toEqual(['long_note', 'approach1']);
+
+      const invalid = await handleMemoryTool(db, 'collab_memory_recall', { session_id: sessionId, max_tokens: -1 });
+      expect(JSON.parse(invalid.content[0].text).error).toBe('INVALID_INPUT');
+    });
+
+    it('should keep the search index in sync with updates and deletes', async () => {
+      await saveMemory(db, sessionId, { category: 'finding', key: 'cache', content: 'Redis cache is stale' });
+      await saveMemory(db, sessionId, { category: 'finding', key: 'cache', content: 'Cache fixed by TTL' });
+
+      const search = async (query: string): Promise<string[]> => {
+        const result = await handleMemoryTool(db, 'collab_memory_recall', { session_id: sessionId, query });
+        return JSON.parse(result.content[0].text).matches.map((m: { key: string }) => m.key);
+      };
+      expect(await search('redis')).toEqual([]);
+      expect(await search('ttl')).toEqual(['cache']);
+
+      await handleMemoryTool(db, 'collab_memory_clear', { session_id: sessionId, key: 'cache' });
+      expect(await search('ttl')).toEqual([]);
+
+      const empty = await handleMemoryTool(db, 'collab_memory_recall', { session_id: sessionId, query: '?!' });
+      expect(JSON.parse(empty.content[0].text).error).toBe('INVALID_INPUT');
+    });
   });
 
   describe('collab_memory_clear', () => {
@@ -228,4 +311,180 @@ describe('Memory Tools', () => {
       expect(response.cleared).toBe(2);
     });
   });
+
+  describe('project scope', () => {
+    let otherId: string;
+
+    beforeEach(async () => {
+      otherId = (await createSession(db, { project_root: '/test/project', name: 'other-session' })).id;
+    });
+
+    async function save(session: string, content: string, extra: Record<string, unknown> = {}) {
+      const result = await handleMemoryTool(db, 'collab_memory_save', {
+        session_id: session,
+        category: 'finding',
+        key: 'flaky_test',
+        content,
+        scope: 'project',
+        ...extra,
+      });
+      return JSON.parse(result.content[0].text);
+    }
+
+    async function recall(session: string): Promise<Array<Record<string, unknown>>> {
+      const result = await handleMemoryTool(db, 'collab_memory_recall', { session_id: session, key: 'flaky_test' });
+      return JSON.parse(result.content[0].text).memories;
+    }
+
+    it('should share project memories across sessions and keep them after the author ends', async () => {
+      expect((await save(sessionId, 'sync.test.ts races on the temp dir')).scope).toBe('project');
+      await endSession(db, sessionId);
+
+      expect(await recall(otherId)).toEqual([
+        expect.objectContaining({ content: 'sync.test.ts races on the temp dir', scope: 'project', updated_by: sessionId }),
+      ]);
+
+      const stranger = await createSession(db, { project_root: '/other/project', name: 'stranger' });
+      expect(await recall(stranger.id)).toEqual([]);
+    });
+
+    it('should report a conflict when another session wrote the key last', async () => {
+      await save(sessionId, 'First finding');
+      expect((await save(sessionId, 'First finding, revised')).saved).toBe(true);
+
+      const conflict = await save(otherId, 'Competing finding');
+      expect(conflict.error).toBe('MEMORY_CONFLICT');
+      expect(conflict.current).toMatchObject({ content: 'First finding, revised', updated_by: sessionId });
+
+      expect((await save(otherId, 'Merged finding', { overwrite: true })).saved).toBe(true);
+      const row = await db
+        .prepare("SELECT content, created_by, updated_by FROM working_memory WHERE scope = 'project'")
+        .first<{ content: string; created_by: string; updated_by: string }>();
+      expect(row).toEqual({ content: 'Merged finding', created_by: sessionId, updated_by: otherId });
+    });
+
+    it('should only report a conflict when the expected_updated_at is stale', async () => {
+      await save(sessionId, 'First finding');
+      const [read] = await recall(otherId);
+
+      // Another session's key, but nothing changed since it was read
+      const merged = await save(otherId, 'Merged finding', { expected_updated_at: read.updated_at });
+      expect(merged.saved).toBe(true);
+      expect(merged.updated_at).not.toBe(read.updated_at);
+
+      // The author saves from the version it read before the merge
+      const conflict = await save(sessionId, 'Stale rewrite', { expected_updated_at: read.updated_at });
+      expect(conflict.error).toBe('MEMORY_CONFLICT');
+      expect(conflict.current).toMatchObject({ content: 'Merged finding', updated_at: merged.updated_at });
+
+      expect((await save(sessionId, 'Rewrite', { expected_updated_at: merged.updated_at })).saved).toBe(true);
+    });
+  });
+
+  describe('revisions', () => {
+    it('should keep overwritten versions and roll back to one', async () => {
+      await call('collab_memory_save', { category: 'decision', key: 'db', content: 'Use SQLite', priority: 80 });
+      await call('collab_memory_save', { category: 'decision', key: 'db', content: 'Use Postgres', priority: 60 });
+
+      const history = await call('collab_memory_recall', { key: 'db', history: true });
+      expect(history.current).toEqual([expect.objectContaining({ content: 'Use Postgres' })]);
+      expect(history.revisions).toEqual([
+        expect.objectContaining({ content: 'Use SQLite', priority: 80, change: 'updated', changed_by: sessionId }),
+      ]);
+
+      const restored = await call('collab_memory_restore', { key: 'db' });
+      expect(restored).toMatchObject({ restored: true, change: 'rolled_back' });
+      expect(restored.memory).toMatchObject({ content: 'Use SQLite', priority: 80 });
+
+      // The rolled-back value is a revision too, so the restore can be undone
+      const after = await call('collab_memory_recall', { key: 'db', history: true });
+      expect((after.revisions as Array<{ content: string }>)[0].content).toBe('Use Postgres');
+    });
+
+    it('should not keep a revision for a save that failed', async () => {
+      await saveMemory(db, sessionId, { category: 'decision', key: 'db', content: 'Use SQLite' });
+      await db
+        .prepare(
+          "CREATE TRIGGER fail_save BEFORE UPDATE ON working_memory BEGIN SELECT RAISE(ABORT, 'save failed'); END"
+        )
+        .run();
+      await expect(saveMemory(db, sessionId, { category: 'decision', key: 'db', content: 'Use Postgres' })).rejects.toThrow(
+        'save failed'
+      );
+      await db.prepare('DROP TRIGGER fail_save').run();
+
+      const history = await call('collab_memory_recall', { key: 'db', history: true });
+      expect(history.current).toEqual([expect.objectContaining({ content: 'Use SQLite' })]);
+      expect(history.revisions).toEqual([]);
+    });
+
+    it('should undelete a cleared memory within the retention window only', async () => {
+      await call('collab_memory_save', { category: 'finding', key: 'leak', content: 'Leak in worker pool' });
+      await call('collab_memory_clear', { key: 'leak' });
+      expect((await call('collab_memory_recall', { key: 'leak' })).memories).toEqual([]);
+
+      const restored = await call('collab_memory_restore', { key: 'leak' });
+      expect(restored).toMatchObject({ change: 'undeleted', memory: { content: 'Leak in worker pool' } });
+
+      await call('collab_memory_clear', { key: 'leak' });
+      await db.prepare('UPDATE working_memory_revisions SET changed_at = ?').bind('2000-01-01T00:00:00.000Z').run();
+      expect((await call('collab_memory_restore', { key: 'leak' })).error).toBe('MEMORY_NOT_FOUND');
+    });
+  });
+
+  describe('export and import', () => {
+    beforeEach(async () => {
+      await call('collab_memory_save', { category: 'finding', key: 'slow', content: 'N+1 query in list', priority: 70 });
+      await call('collab_memory_save', { category: 'decision', key: 'cache', content: 'Cache per request', priority: 40 });
+      await call('collab_memory_save', {
+        category: 'decision',
+        key: 'db',
+        content: 'Keep SQLite\nRevisit at 10k users',
+        pinned: true,
+        priority: 20,
+      });
+    });
+
+    it('should render Markdown grouped by category with pinned items first', async () => {
+      const exported = await call('collab_memory_export', {});
+      const markdown = exported.markdown as string;
+
+      expect(exported.count).toBe(3);
+      expect(markdown).toContain('# Working memory: test-session');
+      expect(markdown.indexOf('## Decisions')).toBeLessThan(markdown.indexOf('## Findings'));
+      expect(markdown).toContain('- **db** (pinned): Keep SQLite\n  Revisit at 10k users\n- **cache**: Cache per request');
+    });
+
+    it('should import a JSON bundle idempotently on (category, key)', async () => {
+      const { bundle } = await call('collab_memory_export', { format: 'json' });
+      expect(bundle).toMatchObject({ format: 'session-collab-memory', version: 1 });
+      expect((bundle as { memories: Array<{ key: string }> }).memories.map((m) => m.key)).toEqual([
+        'db',
+        'cache',
+        'slow',
+      ]);
+
+      const other = await createSession(db, { project_root: '/other/machine', name: 'other' });
+      const importInto = (args: Record<string, unknown>) =>
+        call('collab_memory_import', { session_id: other.id, bundle, ...args });
+
+      expect(await importInto({})).toMatchObject({ created: expect.arrayContaining(['decision/db']), unchanged: [] });
+      expect(await importInto({})).toMatchObject({ created: [], updated: [], unchanged: expect.any(Array) });
+
+      await saveMemory(db, other.id, { category: 'finding', key: 'slow', content: 'Edited locally' });
+      expect(await importInto({})).toMatchObject({ updated: ['finding/slow'] });
+      const count = await db
+        .prepare('SELECT COUNT(*) AS n FROM working_memory WHERE session_id = ?')
+        .bind(other.id)
+        .first<{ n: number }>();
+      expect(count?.n).toBe(3);
+    });
+
+    it('should reject bundles from a newer version', async () => {
+      const { bundle } = await call('collab_memory_export', { format: 'json' });
+      const result = await call('collab_memory_import', { bundle: { ...(bundle as object), version: 2 } });
+      expect(result.error).toBe('INVALID_INPUT');
+      expect(result.message).toContain('newer');
+    });
+  });
 });
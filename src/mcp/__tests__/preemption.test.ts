@@ -0,0 +1,168 @@
+// Preemption tests - critical waiters asking claim owners to yield
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
+import { handleClaimTool } from '../tools/claim.js';
+import { processPreemptions } from '../claim-lifecycle.js';
+import {
+  createSession,
+  getClaim,
+  getPreemptRequest,
+  joinQueue,
+  listAuditHistory,
+  updateSessionConfig,
+} from '../../db/queries.js';
+import { DEFAULT_SESSION_CONFIG } from '../../db/types.js';
+
+function parse(result: { content: Array<{ text: string }> }): Record<string, unknown> {
+  return JSON.parse(result.content[0].text) as Record<string, unknown>;
+}
+
+describe('Claim preemption', () => {
+  let db: TestDatabase;
+  let ownerId: string;
+  let hotfixId: string;
+  let claimId: string;
+
+  beforeEach(async () => {
+    db = createTestDatabase();
+    ownerId = (await createSession(db, { project_root: '/test/project', name: 'refactor' })).id;
+    hotfixId = (await createSession(db, { project_root: '/test/project', name: 'hotfix' })).id;
+    claimId = parse(
+      await handleClaimTool(db, 'collab_claim', {
+        action: 'create',
+        session_id: ownerId,
+        files: ['src/payments.ts'],
+        intent: 'Long refactor',
+      })
+    ).claim_id as string;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  async function allowPreemption(): Promise<void> {
+    await updateSessionConfig(db, ownerId, { ...DEFAULT_SESSION_CONFIG, allow_preemption: true });
+  }
+
+  async function preempt(priority = 95): Promise<Record<string, unknown>> {
+    return parse(
+      await handleClaimTool(db, 'collab_claim', {
+        action: 'preempt',
+        session_id: hotfixId,
+        claim_id: claimId,
+        intent: 'Fix production outage',
+        priority,
+      })
+    );
+  }
+
+  async function passDeadline(): Promise<void> {
+    await db.prepare('UPDATE preempt_requests SET deadline_at = ?').bind('2000-01-01T00:00:00.000Z').run();
+  }
+
+  it('is refused unless the owner allows it and the request is critical', async () => {
+    expect((await preempt()).error).toBe('PREEMPTION_NOT_ALLOWED');
+
+    await allowPreemption();
+    expect((await preempt(70)).error).toBe('INVALID_INPUT');
+  });
+
+  it('moves the claim to the requester once the deadline passes unanswered', async () => {
+    await allowPreemption();
+    const request = await preempt();
+    expect(request.status).toBe('pending');
+
+    const notice = await db
+      .prepare("SELECT title FROM notifications WHERE session_id = ? AND type = 'conflict_detected'")
+      .bind(ownerId)
+      .first<{ title: string }>();
+    expect(notice?.title).toBe('Preemption requested');
+
+    expect(await processPreemptions(db)).toEqual([]);
+    await passDeadline();
+    const [outcome] = await processPreemptions(db);
+
+    expect(outcome).toMatchObject({ preempt_id: request.preempt_id, status: 'transferred' });
+    expect((await getClaim(db, claimId))?.status).toBe('abandoned');
+    expect(await getClaim(db, outcome.new_claim_id!)).toMatchObject({
+      session_id: hotfixId,
+      intent: 'Fix production outage',
+      files: ['src/payments.ts'],
+    });
+
+    const actions = (await listAuditHistory(db, { entity_id: claimId })).map((entry) => entry.action);
+    expect(actions).toEqual(
+      expect.arrayContaining(['preempt_requested', 'claim_handed_off', 'preempt_resolved'])
+    );
+  });
+
+  it('tells the owner and keeps the critical priority when the claim is moved', async () => {
+    await allowPreemption();
+    // Already waiting at normal priority before escalating
+    await joinQueue(db, { claim_id: claimId, session_id: hotfixId, intent: 'Fix production outage', priority: 50 });
+    await preempt(95);
+
+    await passDeadline();
+    const [outcome] = await processPreemptions(db);
+
+    expect((await getClaim(db, outcome.new_claim_id!))?.priority).toBe(95);
+    const notice = await db
+      .prepare("SELECT title, reference_id FROM notifications WHERE session_id = ? AND type = 'claim_released'")
+      .bind(ownerId)
+      .first<{ title: string; reference_id: string }>();
+    expect(notice).toEqual({ title: 'Your claim was preempted', reference_id: claimId });
+  });
+
+  it('reports a deadlock when joining the queue to preempt closes a cycle', async () => {
+    await allowPreemption();
+    const hotfixClaim = parse(
+      await handleClaimTool(db, 'collab_claim', {
+        action: 'create',
+        session_id: hotfixId,
+        files: ['src/alerts.ts'],
+        intent: 'Alerting change',
+      })
+    );
+    const blocked = parse(
+      await handleClaimTool(db, 'collab_claim', {
+        action: 'create',
+        session_id: ownerId,
+        files: ['src/alerts.ts'],
+        intent: 'Refactor touches alerts',
+      })
+    );
+    expect(blocked.status).toBe('waiting_for_coordination');
+
+    const request = await preempt();
+    expect(request.status).toBe('pending');
+    expect(request.deadlock).toMatchObject({
+      cycle: expect.arrayContaining([
+        expect.objectContaining({ session_id: hotfixId, waits_for_claim_id: claimId }),
+        expect.objectContaining({ session_id: ownerId, waits_for_claim_id: hotfixClaim.claim_id }),
+      ]),
+    });
+    expect(await listAuditHistory(db, { action: 'deadlock_detected' })).not.toHaveLength(0);
+  });
+
+  it('keeps the claim with an owner who acknowledged, until they release it', async () => {
+    await allowPreemption();
+    const request = await preempt();
+
+    const ack = parse(
+      await handleClaimTool(db, 'collab_claim', {
+        action: 'acknowledge',
+        session_id: ownerId,
+        preempt_id: request.preempt_id,
+      })
+    );
+    expect(ack.status).toBe('acknowledged');
+
+    await passDeadline();
+    expect(await processPreemptions(db)).toEqual([]);
+    expect((await getClaim(db, claimId))?.session_id).toBe(ownerId);
+
+    await handleClaimTool(db, 'collab_claim', { action: 'release', session_id: ownerId, claim_id: claimId });
+    expect((await getPreemptRequest(db, request.preempt_id as string))?.status).toBe('released');
+  });
+});
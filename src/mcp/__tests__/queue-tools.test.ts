@@ -0,0 +1,210 @@
+// Queue tool tests - list, leave, promote and handoff
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
+import { handleQueueTool } from '../tools/queue.js';
+import { handleClaimTool } from '../tools/claim.js';
+import { createSession, getClaim, listAuditHistory, listQueue } from '../../db/queries.js';
+
+function parse(result: { content: Array<{ text: string }> }): Record<string, unknown> {
+  return JSON.parse(result.content[0].text) as Record<string, unknown>;
+}
+
+describe('Queue Tools', () => {
+  let db: TestDatabase;
+  let ownerId: string;
+  let claimId: string;
+  let waiterIds: string[];
+
+  beforeEach(async () => {
+    db = createTestDatabase();
+    const owner = await createSession(db, { project_root: '/test/project', name: 'owner' });
+    ownerId = owner.id;
+
+    const created = parse(
+      await handleClaimTool(db, 'collab_claim', {
+        action: 'create',
+        session_id: ownerId,
+        files: ['src/shared.ts'],
+        intent: 'Refactor shared module',
+      })
+    );
+    claimId = created.claim_id as string;
+
+    waiterIds = [];
+    for (const name of ['first', 'second', 'third']) {
+      const waiter = await createSession(db, { project_root: '/test/project', name });
+      waiterIds.push(waiter.id);
+      const blocked = parse(
+        await handleClaimTool(db, 'collab_claim', {
+          action: 'create',
+          session_id: waiter.id,
+          files: ['src/shared.ts'],
+          intent: `${name} change`,
+        })
+      );
+      expect(blocked.status).toBe('waiting_for_coordination');
+    }
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('lists your position and the waiters on your claims', async () => {
+    const waiting = parse(await handleQueueTool(db, 'collab_queue', { action: 'list', session_id: waiterIds[1] }));
+    expect(waiting.waiting).toMatchObject([{ claim_id: claimId, position: 2, owner_session_name: 'owner' }]);
+
+    const owned = parse(await handleQueueTool(db, 'collab_queue', { action: 'list', session_id: ownerId }));
+    expect((owned.waiters as Array<{ session_name: string }>).map((row) => row.session_name)).toEqual([
+      'first',
+      'second',
+      'third',
+    ]);
+  });
+
+  it('leaves a queue and closes the gap in positions', async () => {
+    const result = await handleQueueTool(db, 'collab_queue', {
+      action: 'leave',
+      session_id: waiterIds[0],
+      claim_id: claimId,
+    });
+
+    expect(result.isError).toBeFalsy();
+    const queue = await listQueue(db, { claim_id: claimId });
+    expect(queue.map((entry) => [entry.session_id, entry.position])).toEqual([
+      [waiterIds[1], 1],
+      [waiterIds[2], 2],
+    ]);
+    const [audit] = await listAuditHistory(db, { session_id: waiterIds[0], action: 'queue_left' });
+    expect(audit).toBeDefined();
+
+    const again = await handleQueueTool(db, 'collab_queue', {
+      action: 'leave',
+      session_id: waiterIds[0],
+      claim_id: claimId,
+    });
+    expect(parse(again).error).toBe('QUEUE_ENTRY_NOT_FOUND');
+  });
+
+  it('lets only the owner promote a waiter to the head', async () => {
+    const denied = await handleQueueTool(db, 'collab_queue', {
+      action: 'promote',
+      session_id: waiterIds[2],
+      claim_id: claimId,
+      target_session_id: waiterIds[2],
+    });
+    expect(parse(denied).error).toBe('NOT_OWNER');
+
+    const result = parse(
+      await handleQueueTool(db, 'collab_queue', {
+        action: 'promote',
+        session_id: ownerId,
+        claim_id: claimId,
+        target_session_id: waiterIds[2],
+      })
+    );
+
+    expect((result.queue as Array<{ session_id: string }>).map((row) => row.session_id)).toEqual([
+      waiterIds[2],
+      waiterIds[0],
+      waiterIds[1],
+    ]);
+  });
+
+  it('hands the claim to the head of the queue and keeps the others waiting', async () => {
+    const result = parse(
+      await handleQueueTool(db, 'collab_queue', { action: 'handoff', session_id: ownerId, claim_id: claimId })
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.handed_off_to).toMatchObject({ session_id: waiterIds[0] });
+    expect(result.waiters_remaining).toBe(2);
+
+    const previous = await getClaim(db, claimId);
+    expect(previous?.status).toBe('completed');
+    const successor = await getClaim(db, result.new_claim_id as string);
+    expect(successor).toMatchObject({ session_id: waiterIds[0], status: 'active', intent: 'first change' });
+    expect(successor?.files).toEqual(['src/shared.ts']);
+
+    const queue = await listQueue(db, { claim_id: successor!.id });
+    expect(queue.map((entry) => [entry.session_id, entry.position])).toEqual([
+      [waiterIds[1], 1],
+      [waiterIds[2], 2],
+    ]);
+
+    const notification = await db
+      .prepare("SELECT * FROM notifications WHERE session_id = ? AND type = 'queue_ready'")
+      .bind(waiterIds[0])
+      .first<{ reference_id: string }>();
+    expect(notification?.reference_id).toBe(successor!.id);
+  });
+
+  it('skips waiters that stopped heartbeating and refuses an inactive target', async () => {
+    await db
+      .prepare('UPDATE sessions SET last_heartbeat = ? WHERE id = ?')
+      .bind('2000-01-01T00:00:00.000Z', waiterIds[0])
+      .run();
+    await db.prepare("UPDATE sessions SET status = 'inactive' WHERE id = ?").bind(waiterIds[2]).run();
+
+    for (const target of [waiterIds[0], waiterIds[2]]) {
+      const refused = await handleQueueTool(db, 'collab_queue', {
+        action: 'handoff',
+        session_id: ownerId,
+        claim_id: claimId,
+        target_session_id: target,
+      });
+      expect(parse(refused).error).toBe('TARGET_SESSION_INVALID');
+    }
+    expect((await getClaim(db, claimId))?.status).toBe('active');
+
+    const result = parse(
+      await handleQueueTool(db, 'collab_queue', { action: 'handoff', session_id: ownerId, claim_id: claimId })
+    );
+    expect(result.handed_off_to).toMatchObject({ session_id: waiterIds[1] });
+  });
+
+  it('hands a read waiter a read claim', async () => {
+    const reader = await createSession(db, { project_root: '/test/project', name: 'reader' });
+    const blocked = parse(
+      await handleClaimTool(db, 'collab_claim', {
+        action: 'create',
+        session_id: reader.id,
+        files: ['src/shared.ts'],
+        intent: 'Read shared module',
+        mode: 'read',
+      })
+    );
+    expect(blocked.status).toBe('waiting_for_coordination');
+
+    const [entry] = await listQueue(db, { session_id: reader.id });
+    expect(entry.mode).toBe('read');
+
+    const result = parse(
+      await handleQueueTool(db, 'collab_queue', {
+        action: 'handoff',
+        session_id: ownerId,
+        claim_id: claimId,
+        target_session_id: reader.id,
+      })
+    );
+
+    expect(result.success).toBe(true);
+    const successor = await getClaim(db, result.new_claim_id as string);
+    expect(successor).toMatchObject({ session_id: reader.id, mode: 'read' });
+  });
+
+  it('refuses a handoff when nobody is waiting', async () => {
+    for (const waiterId of waiterIds) {
+      await handleQueueTool(db, 'collab_queue', { action: 'leave', session_id: waiterId });
+    }
+
+    const result = await handleQueueTool(db, 'collab_queue', {
+      action: 'handoff',
+      session_id: ownerId,
+      claim_id: claimId,
+    });
+
+    expect(parse(result).error).toBe('QUEUE_ENTRY_NOT_FOUND');
+    expect((await getClaim(db, claimId))?.status).toBe('active');
+  });
+});
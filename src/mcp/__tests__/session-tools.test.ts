@@ -2,7 +2,19 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
 import { handleSessionTool } from '../tools/session.js';
-import { createSession, createClaim, listClaims, getSession, joinQueue, saveMemory } from '../../db/queries.js';
+import {
+  createSession,
+  createClaim,
+  listClaims,
+  getSession,
+  joinQueue,
+  saveMemory,
+  recallMemory,
+  getClaim,
+  cleanupStaleSessions,
+  updateSessionStatus,
+  createUser,
+} from '../../db/queries.js';
 
 describe('Session Tools', () => {
   let db: TestDatabase;
@@ -33,6 +45,58 @@ describe('Session Tools', () => {
       expect(response.db_path).toBe(':memory:');
     });
 
+    it('should restore context within a max_tokens budget', async () => {
+      const prior = await createSession(db, { project_root: '/test/project', name: 'prior-session' });
+      await saveMemory(db, prior.id, { category: 'decision', key: 'api', content: 'Keep v1 routes', pinned: true });
+      await saveMemory(db, prior.id, {
+        category: 'finding',
+        key: 'details',
+        content: 'Middleware ordering matters for auth. '.repeat(20),
+        priority: 80,
+      });
+
+      const result = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        name: 'new-session',
+        restore_context: true,
+        max_tokens: 60,
+      });
+
+      const response = JSON.parse(result.content[0].text);
+      expect(response.restored_context[0]).toEqual({ category: 'decision', key: 'api', content: 'Keep v1 routes' });
+      expect(response.restored_context[1].content.endsWith('…')).toBe(true);
+      expect(response.restore_budget).toMatchObject({ max_tokens: 60, shortened: ['details'] });
+      expect(response.restore_budget.used_tokens).toBeLessThanOrEqual(60);
+    });
+
+    it('should rank memories across sessions before applying the budget', async () => {
+      const earlier = await createSession(db, { project_root: '/test/project', name: 'earlier-session' });
+      await saveMemory(db, earlier.id, { category: 'decision', key: 'api', content: 'Keep v1 routes', pinned: true });
+      const later = await createSession(db, { project_root: '/test/project', name: 'later-session' });
+      await saveMemory(db, later.id, {
+        category: 'finding',
+        key: 'lint',
+        content: 'Run lint before commits',
+        priority: 75,
+      });
+      // The session with the less important note is listed first
+      await db
+        .prepare('UPDATE sessions SET last_heartbeat = ? WHERE id = ?')
+        .bind(new Date(Date.now() - 60_000).toISOString(), earlier.id)
+        .run();
+
+      const result = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        name: 'new-session',
+        restore_context: true,
+        max_tokens: 20,
+      });
+
+      const response = JSON.parse(result.content[0].text);
+      expect(response.restored_context).toEqual([{ category: 'decision', key: 'api', content: 'Keep v1 routes' }]);
+      expect(response.restore_budget.omitted).toEqual([expect.objectContaining({ key: 'lint' })]);
+    });
+
     it('should reuse an active session with the same project_root + name', async () => {
       const first = await handleSessionTool(db, 'collab_session_start', {
         project_root: '/test/project',
@@ -125,6 +189,37 @@ describe('Session Tools', () => {
       expect(response.restored_context.length).toBeLessThanOrEqual(5);
     });
 
+    it('should key sessions on worktree and record the branch', async () => {
+      const main = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        name: 'agent',
+        branch: 'main',
+      });
+      const mainResponse = JSON.parse(main.content[0].text);
+      expect(mainResponse).toMatchObject({ project_root: '/test/project', branch: 'main', worktree: null });
+
+      const feature = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        worktree: '/test/project-feature',
+        name: 'agent',
+        branch: 'feature',
+      });
+      const featureResponse = JSON.parse(feature.content[0].text);
+      expect(featureResponse.reused).toBe(false);
+      expect(featureResponse.session_id).not.toBe(mainResponse.session_id);
+      expect(featureResponse).toMatchObject({
+        project_root: '/test/project',
+        branch: 'feature',
+        worktree: '/test/project-feature',
+        active_sessions: 2,
+      });
+
+      // Listing by the worktree path shows every session of the repository
+      const list = await handleSessionTool(db, 'collab_session_list', { project_root: '/test/project-feature' });
+      const sessions = JSON.parse(list.content[0].text).sessions;
+      expect(sessions.map((s: { branch: string }) => s.branch).sort()).toEqual(['feature', 'main']);
+    });
+
     it('should validate required project_root', async () => {
       const result = await handleSessionTool(db, 'collab_session_start', {
         name: 'test-session',
@@ -135,6 +230,147 @@ describe('Session Tools', () => {
       const response = JSON.parse(result.content[0].text);
       expect(response.error).toBe('INVALID_INPUT');
     });
+
+    it('should adopt a crashed session with resume_from', async () => {
+      const crashed = await createSession(db, { project_root: '/test/project', name: 'agent-1' });
+      const { claim: kept } = await createClaim(db, { session_id: crashed.id, files: ['src/a.ts'], intent: 'Refactor a' });
+      const { claim: taken } = await createClaim(db, { session_id: crashed.id, files: ['src/b.ts'], intent: 'Fix b' });
+      await saveMemory(db, crashed.id, { category: 'decision', key: 'api', content: 'Keep v1 routes' });
+      await updateSessionStatus(db, crashed.id, {
+        current_task: 'Refactor a',
+        todos: [{ content: 'Add tests', status: 'pending' }],
+      });
+
+      // The agent goes quiet: cleanup abandons its claims and another session takes src/b.ts
+      await db
+        .prepare('UPDATE sessions SET last_heartbeat = ? WHERE id = ?')
+        .bind('2000-01-01T00:00:00.000Z', crashed.id)
+        .run();
+      await cleanupStaleSessions(db, 30);
+      const other = await createSession(db, { project_root: '/test/project', name: 'other' });
+      await createClaim(db, { session_id: other.id, files: ['src/b.ts'], intent: 'Other work' });
+
+      const result = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        name: 'agent-2',
+        resume_from: crashed.id,
+      });
+
+      expect(result.isError).toBeFalsy();
+      const response = JSON.parse(result.content[0].text);
+      expect(response.resumed_from).toMatchObject({
+        session_id: crashed.id,
+        claims_adopted: [kept.id],
+        claims_lost: [{ claim_id: taken.id, taken_by: ['other'] }],
+        memories_adopted: 1,
+      });
+      expect(response.current_task).toBe('Refactor a');
+      expect(response.todos).toEqual([{ content: 'Add tests', status: 'pending' }]);
+
+      expect(await getClaim(db, kept.id)).toMatchObject({ status: 'active', session_id: response.session_id });
+      expect((await getClaim(db, taken.id))?.status).toBe('abandoned');
+      expect((await getSession(db, crashed.id))?.status).toBe('terminated');
+      const memories = await recallMemory(db, response.session_id, { key: 'api' });
+      expect(memories[0]?.content).toBe('Keep v1 routes');
+    });
+
+    it('should reject resume_from for an unknown or ended session', async () => {
+      const missing = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        resume_from: 'no-such-session',
+      });
+      expect(JSON.parse(missing.content[0].text).error).toBe('SESSION_NOT_FOUND');
+
+      const ended = await createSession(db, { project_root: '/test/project', name: 'done' });
+      await handleSessionTool(db, 'collab_session_end', { session_id: ended.id });
+      const result = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        resume_from: ended.id,
+      });
+      expect(JSON.parse(result.content[0].text).error).toBe('SESSION_INVALID');
+    });
+
+    it("should refuse to resume a live session or another user's session", async () => {
+      const live = await createSession(db, { project_root: '/test/project', name: 'busy' });
+      const { claim } = await createClaim(db, { session_id: live.id, files: ['src/a.ts'], intent: 'Busy' });
+
+      const result = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        name: 'thief',
+        resume_from: live.id,
+      });
+      expect(JSON.parse(result.content[0].text).error).toBe('SESSION_INVALID');
+      expect((await getSession(db, live.id))?.status).toBe('active');
+      expect((await getClaim(db, claim.id))?.session_id).toBe(live.id);
+
+      const alice = await createUser(db, { email: 'alice@example.com' });
+      const owned = await createSession(db, { project_root: '/test/project', name: 'alice-agent', user_id: alice.id });
+      await db
+        .prepare('UPDATE sessions SET last_heartbeat = ? WHERE id = ?')
+        .bind('2000-01-01T00:00:00.000Z', owned.id)
+        .run();
+      const anonymous = await handleSessionTool(db, 'collab_session_start', {
+        project_root: '/test/project',
+        resume_from: owned.id,
+      });
+      expect(JSON.parse(anonymous.content[0].text).error).toBe('NOT_OWNER');
+
+      const byOwner = await handleSessionTool(
+        db,
+        'collab_session_start',
+        { project_root: '/test/project', resume_from: owned.id },
+        alice.id
+      );
+      expect(JSON.parse(byOwner.content[0].text).resumed_from.session_id).toBe(owned.id);
+    });
+  });
+
+  describe('collab_session_handoff', () => {
+    it('should bundle todos, claims, memories and the resume arguments', async () => {
+      const session = await createSession(db, { project_root: '/test/project', name: 'agent-1' });
+      const { claim } = await createClaim(db, { session_id: session.id, files: ['src/a.ts'], intent: 'Refactor a' });
+      await saveMemory(db, session.id, { category: 'decision', key: 'api', content: 'Keep v1 routes', priority: 80 });
+      await saveMemory(db, session.id, { category: 'context', key: 'noise', content: 'Low value', priority: 10 });
+      await updateSessionStatus(db, session.id, {
+        todos: [
+          { content: 'Done already', status: 'completed' },
+          { content: 'Add tests', status: 'pending' },
+        ],
+      });
+
+      const result = await handleSessionTool(db, 'collab_session_handoff', {
+        session_id: session.id,
+        note: 'Tests for a.ts are half written',
+      });
+
+      expect(result.isError).toBeFalsy();
+      const bundle = JSON.parse(result.content[0].text);
+      expect(bundle.todos).toEqual([{ content: 'Add tests', status: 'pending' }]);
+      expect(bundle.claims).toEqual([expect.objectContaining({ claim_id: claim.id, status: 'active', files: ['src/a.ts'] })]);
+      const keys = bundle.memories.map((memory: { key: string }) => memory.key);
+      expect(keys).toEqual(expect.arrayContaining(['handoff_note', 'api']));
+      expect(keys).not.toContain('noise');
+      expect(bundle.resume).toEqual({
+        tool: 'collab_session_start',
+        arguments: { project_root: '/test/project', name: 'agent-1', resume_from: session.id },
+      });
+    });
+
+    it("should refuse another user's session", async () => {
+      const alice = await createUser(db, { email: 'alice@example.com' });
+      const bob = await createUser(db, { email: 'bob@example.com' });
+      const session = await createSession(db, { project_root: '/test/project', name: 'alice-agent', user_id: alice.id });
+
+      const result = await handleSessionTool(
+        db,
+        'collab_session_handoff',
+        { session_id: session.id, note: 'Taking over' },
+        bob.id
+      );
+
+      expect(JSON.parse(result.content[0].text).error).toBe('NOT_OWNER');
+      expect(await recallMemory(db, session.id, { key: 'handoff_note' })).toEqual([]);
+    });
   });
 
   describe('collab_session_list', () => {
@@ -0,0 +1,289 @@
+// Claim lifecycle shared by the claim and queue tools: tracked creation, handing a claim
+// to a waiter, and the periodic sweeps (lease expiry, post-edit releases, preempt deadlines).
+
+import type { DatabaseAdapter } from '../db/sqlite-adapter.js';
+import type { Claim, ClaimMode, ClaimWithFiles, QueueEntryWithDetails, SessionConfig, SymbolClaim } from '../db/types.js';
+import { DEFAULT_SESSION_CONFIG } from '../db/types.js';
+import {
+  clearMemory,
+  createClaim,
+  createNotification,
+  expireClaimLeases,
+  getClaim,
+  getClaimSymbols,
+  getSession,
+  leaveQueue,
+  listOpenPreemptRequests,
+  listQueue,
+  logAuditEvent,
+  moveQueue,
+  releaseClaim,
+  saveMemory,
+  updatePreemptStatus,
+} from '../db/queries.js';
+import { clampMemoryContent } from '../utils/memory-content.js';
+import { processScheduledReleases } from '../hooks/auto-release.js';
+
+export async function createTrackedClaim(
+  db: DatabaseAdapter,
+  input: {
+    session_id: string;
+    files: string[];
+    symbols?: SymbolClaim[];
+    intent: string;
+    scope?: 'small' | 'medium' | 'large';
+    mode?: ClaimMode;
+    priority?: number;
+    ttl_minutes?: number;
+  }
+): Promise<Claim> {
+  const { claim } = await createClaim(db, {
+    session_id: input.session_id,
+    files: input.files,
+    symbols: input.symbols,
+    intent: input.intent,
+    scope: input.scope,
+    mode: input.mode,
+    priority: input.priority,
+    ttl_minutes: input.ttl_minutes,
+  });
+
+  await logAuditEvent(db, {
+    session_id: input.session_id,
+    action: 'claim_created',
+    entity_type: 'claim',
+    entity_id: claim.id,
+    metadata: {
+      files: input.files,
+      intent: input.intent,
+      mode: claim.mode,
+      ...(input.ttl_minutes ? { ttl_minutes: input.ttl_minutes, expires_at: claim.expires_at } : {}),
+    },
+  });
+
+  await saveClaimMemory(db, { session_id: input.session_id, claim_id: claim.id, intent: input.intent, files: input.files });
+
+  return claim;
+}
+
+/** Write (or rewrite after extend/shrink/split) the owner's `state` memory describing a claim. */
+export async function saveClaimMemory(
+  db: DatabaseAdapter,
+  params: { session_id: string; claim_id: string; intent: string; files: string[] }
+): Promise<void> {
+  const filePreview =
+    params.files.length <= 5
+      ? params.files.join(', ')
+      : `${params.files.slice(0, 5).join(', ')} (+${params.files.length - 5} more)`;
+  const clamped = clampMemoryContent(
+    `Working on: ${params.intent}\nFiles (${params.files.length}): ${filePreview}`
+  );
+
+  await saveMemory(db, params.session_id, {
+    category: 'state',
+    key: `claim_${params.claim_id}`,
+    content: clamped.content,
+    priority: 60,
+    related_claim_id: params.claim_id,
+    metadata: { claim_id: params.claim_id, file_count: params.files.length },
+  });
+}
+
+/**
+ * Release `claim` and give its files (and symbols) to the queued `target` in one transaction,
+ * so no other session can claim them in between. Remaining waiters move to the new claim.
+ */
+export async function handOffClaim(
+  db: DatabaseAdapter,
+  params: {
+    claim: ClaimWithFiles;
+    target: QueueEntryWithDetails;
+    summary?: string;
+    /** Set when a preempt deadline forced the move. */
+    preempt_id?: string;
+  }
+): Promise<{ successor: Claim; waiters_remaining: number }> {
+  const { claim, target } = params;
+  const targetName = target.session_name ?? target.session_id;
+
+  return db.transaction(async () => {
+    const symbols = await getClaimSymbols(db, claim.id);
+
+    await releaseClaim(db, claim.id, {
+      status: params.preempt_id ? 'abandoned' : 'completed',
+      summary: params.summary ?? `Handed off to ${targetName}`,
+    });
+    await clearMemory(db, claim.session_id, { key: `claim_${claim.id}` });
+    await leaveQueue(db, { session_id: target.session_id, claim_id: claim.id });
+
+    const successor = await createTrackedClaim(db, {
+      session_id: target.session_id,
+      files: claim.files,
+      symbols: symbols.length > 0 ? symbols : undefined,
+      intent: target.intent,
+      scope: target.scope,
+      mode: target.mode,
+      priority: target.priority,
+    });
+    const waitersRemaining = await moveQueue(db, claim.id, successor.id);
+
+    await logAuditEvent(db, {
+      session_id: claim.session_id,
+      action: 'claim_handed_off',
+      entity_type: 'claim',
+      entity_id: claim.id,
+      metadata: {
+        files: claim.files,
+        claim_id: successor.id,
+        to_session_id: target.session_id,
+        to_session_name: target.session_name ?? undefined,
+        ...(params.preempt_id ? { preempt_id: params.preempt_id } : {}),
+      },
+    });
+
+    await createNotification(db, {
+      session_id: target.session_id,
+      type: 'queue_ready',
+      title: params.preempt_id ? 'Preempted claim moved to you' : 'Claim handed off to you',
+      message: params.preempt_id
+        ? `${claim.session_name ?? 'The owner'} did not answer your preempt in time. You now hold claim ${successor.id} on ${claim.files.join(', ')}.`
+        : `${claim.session_name ?? 'The owner'} handed off ${claim.files.join(', ')}. You now hold claim ${successor.id}.`,
+      reference_type: 'claim',
+      reference_id: successor.id,
+      metadata: {
+        claim_id: successor.id,
+        files: claim.files,
+        released_by: claim.session_id,
+        ...(params.preempt_id ? { preempt_id: params.preempt_id } : {}),
+      },
+    });
+
+    // A forced move: the owner must stop editing now, not find out from a denied edit
+    if (params.preempt_id) {
+      await createNotification(db, {
+        session_id: claim.session_id,
+        type: 'claim_released',
+        title: 'Your claim was preempted',
+        message: `The preempt deadline passed without acknowledgement, so ${claim.files.join(', ')} moved to ${targetName} (claim ${successor.id}). Stop editing these files; your claim ${claim.id} is abandoned.`,
+        reference_type: 'claim',
+        reference_id: claim.id,
+        metadata: {
+          claim_id: claim.id,
+          files: claim.files,
+          preempt_id: params.preempt_id,
+          conflicting_session_id: target.session_id,
+          conflicting_session_name: target.session_name ?? undefined,
+        },
+      });
+    }
+
+    return { successor, waiters_remaining: waitersRemaining };
+  });
+}
+
+function parseConfig(config: string | null): SessionConfig {
+  try {
+    return { ...DEFAULT_SESSION_CONFIG, ...(config ? (JSON.parse(config) as Partial<SessionConfig>) : {}) };
+  } catch {
+    return DEFAULT_SESSION_CONFIG;
+  }
+}
+
+export type PreemptOutcome = {
+  preempt_id: string;
+  status: 'released' | 'transferred' | 'cancelled';
+  claim_id: string;
+  new_claim_id?: string;
+};
+
+/**
+ * Settle open preempt requests: mark them released once the owner let go of the claim, and move
+ * the claim to the requester when a pending request's deadline has passed. Acknowledged requests
+ * never move the claim; they stay open until the owner releases it.
+ */
+export async function processPreemptions(
+  db: DatabaseAdapter,
+  params: { claim_id?: string } = {}
+): Promise<PreemptOutcome[]> {
+  const outcomes: PreemptOutcome[] = [];
+  const now = new Date().toISOString();
+
+  for (const request of await listOpenPreemptRequests(db, { claim_id: params.claim_id })) {
+    const outcome = await db.transaction(async (): Promise<PreemptOutcome | null> => {
+      const resolve = async (
+        status: PreemptOutcome['status'],
+        reason: string,
+        newClaimId?: string
+      ): Promise<PreemptOutcome | null> => {
+        if (!(await updatePreemptStatus(db, request.id, status))) {
+          return null;
+        }
+        await logAuditEvent(db, {
+          session_id: request.requester_session_id,
+          action: 'preempt_resolved',
+          entity_type: 'claim',
+          entity_id: request.claim_id,
+          metadata: {
+            preempt_id: request.id,
+            reason,
+            to_session_id: request.requester_session_id,
+            ...(newClaimId ? { claim_id: newClaimId } : {}),
+          },
+        });
+        return { preempt_id: request.id, status, claim_id: request.claim_id, new_claim_id: newClaimId };
+      };
+
+      const claim = await getClaim(db, request.claim_id);
+      if (!claim || claim.status !== 'active' || claim.session_id !== request.owner_session_id) {
+        return resolve('released', 'owner released the claim');
+      }
+      if (request.status !== 'pending' || request.deadline_at > now) {
+        return null;
+      }
+
+      const owner = await getSession(db, claim.session_id);
+      if (!owner || !parseConfig(owner.config).allow_preemption) {
+        return resolve('cancelled', 'owner no longer allows preemption');
+      }
+      const [target] = await listQueue(db, { claim_id: claim.id, session_id: request.requester_session_id });
+      if (!target) {
+        return resolve('cancelled', 'requester is no longer waiting');
+      }
+
+      // The successor carries the preempt's critical priority, whatever the queue entry held
+      const { successor } = await handOffClaim(db, {
+        claim,
+        target: { ...target, priority: Math.max(target.priority, request.priority) },
+        summary: `Preempted by ${target.session_name ?? target.session_id}`,
+        preempt_id: request.id,
+      });
+      return resolve('transferred', 'deadline passed without acknowledgement', successor.id);
+    });
+
+    if (outcome) {
+      outcomes.push(outcome);
+    }
+  }
+  return outcomes;
+}
+
+/** Time-based claim maintenance, run before claim and queue actions and on the server timer. */
+export async function runClaimSweeps(db: DatabaseAdapter): Promise<void> {
+  await expireClaimLeases(db);
+  await processScheduledReleases(db);
+  await processPreemptions(db);
+}
+
+/**
+ * Run runClaimSweeps every `intervalMs` for a long-lived server process.
+ * The timer is unref'd so it never keeps the process alive; call the returned function to stop it.
+ */
+export function startClaimSweepTimer(db: DatabaseAdapter, intervalMs = 30_000): () => void {
+  const timer = setInterval(() => {
+    runClaimSweeps(db).catch((error: unknown) => {
+      console.error('Claim sweep failed:', error instanceof Error ? error.message : error);
+    });
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,159 @@
+// Hub mode: forward tool calls to a shared session-collab-http server (the hub)
+// so agents on several machines coordinate through one database.
+
+import { hostname } from 'os';
+import path from 'path';
+import type { JsonRpcResponse, McpToolResult } from './protocol.js';
+import { errorResponse, ERROR_CODES } from '../utils/response.js';
+import { detectGitCheckout, detectProjectKey } from '../utils/git.js';
+import { isProjectKey } from '../utils/paths.js';
+
+export type HubOptions = {
+  /** Base URL of the hub, e.g. http://hub.internal:8765 */
+  hubUrl: string;
+  /** Bearer token for non-local hubs (SESSION_COLLAB_HTTP_TOKEN). */
+  token?: string;
+  /** Recorded on sessions started through this client; defaults to the host name. */
+  machineId?: string;
+  /**
+   * Project identity shared with other machines (SESSION_COLLAB_PROJECT_KEY). Defaults to the
+   * checkout's git remote (`github.com/acme/app`), else `path:<checkout>`.
+   */
+  projectKey?: string;
+  timeoutMs?: number;
+};
+
+export type ToolHandler = (name: string, args: Record<string, unknown>) => Promise<McpToolResult>;
+
+const DEFAULT_HUB_TIMEOUT_MS = 10_000;
+
+export function defaultMachineId(): string {
+  return process.env.SESSION_COLLAB_MACHINE_ID?.trim() || hostname();
+}
+
+function hubError(hubUrl: string, detail: string): McpToolResult {
+  return errorResponse(ERROR_CODES.HUB_UNAVAILABLE, `Hub ${hubUrl} failed: ${detail}`);
+}
+
+// The hub reports its own storage; describe the shared scope instead
+function describeHubSession(result: McpToolResult, hubUrl: string): McpToolResult {
+  const text = result.content[0]?.text;
+  if (result.isError || !text) {
+    return result;
+  }
+  try {
+    const data = JSON.parse(text) as Record<string, unknown>;
+    delete data.db_path;
+    data.scope = 'hub';
+    data.hub_url = hubUrl;
+    if (typeof data.message === 'string') {
+      data.message = data.message.replace('Same-machine SQLite only.', `Shared through hub ${hubUrl}.`);
+    }
+    return { ...result, content: [{ type: 'text', text: JSON.stringify(data) }] };
+  } catch {
+    return result;
+  }
+}
+
+/**
+ * Hub-side project identity for a local directory. Checkouts of one repository at different
+ * paths on different machines get the same key; without a remote the checkout path is the key.
+ */
+async function resolveProjectKey(dir: string, explicitKey: string | undefined): Promise<string> {
+  if (explicitKey) {
+    return explicitKey;
+  }
+  const remoteKey = await detectProjectKey(dir);
+  if (remoteKey) {
+    return remoteKey;
+  }
+  const checkout = await detectGitCheckout(dir);
+  return `path:${checkout?.project_root ?? dir}`;
+}
+
+/**
+ * Build a tool handler that calls the hub's `POST /mcp` endpoint.
+ * collab_session_start gets this machine's machine_id so the hub can show where each claim lives,
+ * plus a project_key and the local checkout path: the hub matches projects by key and never
+ * looks at its own filesystem for them. Other project_root arguments are sent as the key.
+ */
+export function createHubToolHandler(options: HubOptions): ToolHandler {
+  const hubUrl = options.hubUrl.replace(/\/+$/, '');
+  const machineId = options.machineId ?? defaultMachineId();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_HUB_TIMEOUT_MS;
+  const projectKeys = new Map<string, Promise<string>>();
+  let requestId = 0;
+
+  const projectKeyFor = (dir: string): Promise<string> => {
+    let key = projectKeys.get(dir);
+    if (!key) {
+      key = resolveProjectKey(dir, options.projectKey);
+      projectKeys.set(dir, key);
+    }
+    return key;
+  };
+
+  const prepareArgs = async (name: string, args: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    const projectRoot =
+      typeof args.project_root === 'string' && !isProjectKey(args.project_root)
+        ? path.resolve(args.project_root)
+        : undefined;
+
+    if (name === 'collab_session_start' && projectRoot) {
+      const checkoutDir = typeof args.worktree === 'string' ? path.resolve(args.worktree) : projectRoot;
+      const branch = args.branch ?? (await detectGitCheckout(checkoutDir))?.branch ?? undefined;
+      return {
+        ...args,
+        machine_id: args.machine_id ?? machineId,
+        project_key: args.project_key ?? (await projectKeyFor(checkoutDir)),
+        worktree: checkoutDir,
+        ...(branch ? { branch } : {}),
+      };
+    }
+    if (name === 'collab_session_start') {
+      return args.machine_id === undefined ? { ...args, machine_id: machineId } : args;
+    }
+    return projectRoot ? { ...args, project_root: await projectKeyFor(projectRoot) } : args;
+  };
+
+  return async (name, args) => {
+    const toolArgs = await prepareArgs(name, args);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${hubUrl}/mcp`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: ++requestId,
+          method: 'tools/call',
+          params: { name, arguments: toolArgs },
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      return hubError(hubUrl, error instanceof Error ? error.message : String(error));
+    }
+
+    let body: JsonRpcResponse & { message?: string; code?: string };
+    try {
+      body = (await response.json()) as typeof body;
+    } catch {
+      return hubError(hubUrl, `HTTP ${response.status} with a non-JSON body`);
+    }
+
+    // Security failures (401/403) use the REST error shape, JSON-RPC failures carry `error`
+    if (!response.ok || body.error) {
+      const detail = body.error?.message ?? body.message ?? `HTTP ${response.status}`;
+      return hubError(hubUrl, body.code ? `${body.code}: ${detail}` : detail);
+    }
+
+    const result = body.result as McpToolResult;
+    return name === 'collab_session_start' ? describeHubSession(result, hubUrl) : result;
+  };
+}
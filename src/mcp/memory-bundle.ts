@@ -0,0 +1,202 @@
+// Working-memory export (Markdown and versioned JSON bundles) and idempotent import,
+// shared by the collab_memory_export/import tools and `session-collab memory`.
+
+import type { DatabaseAdapter } from '../db/sqlite-adapter.js';
+import type { MemoryCategory, MemoryScope, Session, WorkingMemory } from '../db/types.js';
+import { recallMemory, saveMemory, saveProjectMemory } from '../db/queries.js';
+
+export const MEMORY_BUNDLE_FORMAT = 'session-collab-memory';
+
+/** Bump when the bundle shape changes; import refuses newer versions. */
+export const MEMORY_BUNDLE_VERSION = 1;
+
+/** Section order in exports: what a reader needs first. */
+const CATEGORY_ORDER: MemoryCategory[] = ['important', 'decision', 'finding', 'todo', 'state', 'context'];
+
+const CATEGORY_TITLES: Record<MemoryCategory, string> = {
+  important: 'Important',
+  decision: 'Decisions',
+  finding: 'Findings',
+  todo: 'Todos',
+  state: 'State',
+  context: 'Context',
+};
+
+export type MemoryBundleEntry = {
+  category: MemoryCategory;
+  key: string;
+  content: string;
+  priority?: number;
+  pinned?: boolean;
+  expires_at?: string | null;
+  metadata?: Record<string, unknown> | null;
+};
+
+export type MemoryBundle = {
+  format: typeof MEMORY_BUNDLE_FORMAT;
+  version: number;
+  exported_at?: string;
+  source?: Record<string, unknown>;
+  memories: MemoryBundleEntry[];
+};
+
+export type MemoryImportResult = {
+  scope: MemoryScope;
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+  /** Project keys another session wrote last (left as they are unless overwrite is set). */
+  conflicts: string[];
+};
+
+function parseMetadata(metadata: string | null): Record<string, unknown> | null {
+  if (!metadata) {
+    return null;
+  }
+  try {
+    return JSON.parse(metadata) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/** Category order first, then pinned before unpinned, then priority. */
+function compareForExport(a: MemoryBundleEntry, b: MemoryBundleEntry): number {
+  return (
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) ||
+    Number(b.pinned ?? false) - Number(a.pinned ?? false) ||
+    (b.priority ?? 50) - (a.priority ?? 50)
+  );
+}
+
+/** A session's own memories (scope 'session') or its project's shared ones, as a versioned bundle. */
+export async function exportMemoryBundle(
+  db: DatabaseAdapter,
+  session: Session,
+  scope: MemoryScope
+): Promise<MemoryBundle> {
+  const memories: WorkingMemory[] = await recallMemory(db, session.id, { scope });
+
+  return {
+    format: MEMORY_BUNDLE_FORMAT,
+    version: MEMORY_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    source: {
+      scope,
+      project_root: session.project_root,
+      ...(scope === 'session' ? { session_id: session.id, session_name: session.name } : {}),
+    },
+    memories: memories
+      .map((memory) => ({
+        category: memory.category,
+        key: memory.key,
+        content: memory.content,
+        priority: memory.priority,
+        pinned: memory.pinned === 1,
+        expires_at: memory.expires_at,
+        metadata: parseMetadata(memory.metadata),
+      }))
+      .sort(compareForExport),
+  };
+}
+
+/** Markdown for PR descriptions and handoff docs: one section per category, pinned notes first. */
+export function renderMemoryMarkdown(bundle: MemoryBundle): string {
+  const source = bundle.source ?? {};
+  const title =
+    source.scope === 'project'
+      ? `Project memory: ${String(source.project_root ?? '')}`
+      : `Working memory: ${String(source.session_name ?? source.session_id ?? 'session')}`;
+  const lines = [`# ${title}`, ''];
+  if (bundle.exported_at) {
+    lines.push(`_Exported ${bundle.exported_at}, ${bundle.memories.length} note(s)._`, '');
+  }
+
+  const entries = [...bundle.memories].sort(compareForExport);
+  for (const category of CATEGORY_ORDER) {
+    const section = entries.filter((entry) => entry.category === category);
+    if (section.length === 0) {
+      continue;
+    }
+    lines.push(`## ${CATEGORY_TITLES[category]}`, '');
+    for (const entry of section) {
+      const [first, ...rest] = entry.content.split('\n');
+      lines.push(`- **${entry.key}**${entry.pinned ? ' (pinned)' : ''}: ${first}`);
+      for (const line of rest) {
+        lines.push(`  ${line}`);
+      }
+    }
+    lines.push('');
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+/**
+ * Save a bundle's memories as `sessionId`, keyed on (category, key): identical notes are left alone,
+ * so importing the same bundle twice changes nothing. Project imports respect write conflicts.
+ */
+export async function importMemoryBundle(
+  db: DatabaseAdapter,
+  session: Session,
+  bundle: MemoryBundle,
+  options: { scope?: MemoryScope; overwrite?: boolean } = {}
+): Promise<MemoryImportResult> {
+  if (bundle.version > MEMORY_BUNDLE_VERSION) {
+    throw new Error(
+      `Memory bundle version ${bundle.version} is newer than this server supports (${MEMORY_BUNDLE_VERSION})`
+    );
+  }
+
+  const scope: MemoryScope = options.scope ?? (bundle.source?.scope === 'project' ? 'project' : 'session');
+  const result: MemoryImportResult = { scope, created: [], updated: [], unchanged: [], conflicts: [] };
+
+  return db.transaction(async () => {
+    for (const entry of bundle.memories) {
+      const label = `${entry.category}/${entry.key}`;
+      const priority = entry.priority ?? 50;
+      const pinned = entry.pinned ?? false;
+      const [existing] = await recallMemory(db, session.id, {
+        category: entry.category,
+        key: entry.key,
+        scope,
+        include_expired: true,
+      });
+
+      if (
+        existing &&
+        existing.content === entry.content &&
+        existing.priority === priority &&
+        existing.pinned === (pinned ? 1 : 0)
+      ) {
+        result.unchanged.push(label);
+        continue;
+      }
+
+      const input = {
+        category: entry.category,
+        key: entry.key,
+        content: entry.content,
+        priority,
+        pinned,
+        expires_at: entry.expires_at ?? undefined,
+        metadata: entry.metadata ?? undefined,
+      };
+      if (scope === 'project') {
+        const { conflict } = await saveProjectMemory(db, session.id, session.project_root, input, {
+          overwrite: options.overwrite,
+        });
+        if (conflict) {
+          result.conflicts.push(label);
+          continue;
+        }
+      } else {
+        await saveMemory(db, session.id, input);
+      }
+
+      (existing ? result.updated : result.created).push(label);
+    }
+
+    return result;
+  });
+}
@@ -1,5 +1,12 @@
 // Zod schemas for MCP tool input validation
 import { z } from 'zod';
+import {
+  MAX_CLAIM_TTL_MINUTES,
+  MAX_MEMORY_CONTENT_CHARS,
+  MAX_MEMORY_TOKEN_BUDGET,
+  MAX_PREEMPT_DEADLINE_MINUTES,
+} from '../constants.js';
+import { isProjectKey } from '../utils/paths.js';
 
 // Common schemas
 export const sessionIdSchema = z.string().min(1, 'session_id is required');
@@ -25,6 +32,9 @@ export const claimScopeSchema = z.enum(['small', 'medium', 'large']).default('me
 // Claim status schema
 export const claimStatusSchema = z.enum(['completed', 'abandoned']);
 
+// Claim mode schema
+export const claimModeSchema = z.enum(['read', 'write']);
+
 // Session tools input schemas
 export const sessionStartSchema = z.object({
   project_root: z.string().min(1, 'project_root is required'),
@@ -34,6 +44,8 @@ export const sessionStartSchema = z.object({
   restore_context: z.boolean().optional().default(false),
   /** Cap restored memories when restore_context is true. Default 5, max 15. */
   max_restore_items: z.number().int().min(0).max(15).optional().default(5),
+  /** Estimated token budget for restored memories; the ones that do not fit are reported. */
+  max_tokens: z.number().int().min(0).max(MAX_MEMORY_TOKEN_BUDGET).optional(),
   /**
    * When true (default), reuse an active session with the same project_root + name
    * (and matching machine_id when provided) instead of creating a duplicate.
@@ -43,6 +55,29 @@ export const sessionStartSchema = z.object({
   force_new: z.boolean().optional().default(false),
   /** Claude Code / client session id for PreToolUse claim enforcement. */
   client_session_id: z.string().min(1).optional(),
+  /** Git branch; detected from the checkout when omitted. */
+  branch: z.string().min(1).optional(),
+  /** Checkout path when working in a separate git worktree; linked worktrees are detected from project_root. */
+  worktree: z.string().min(1).optional(),
+  /** Session id (or client_session_id from client-map.json) whose claims, memories and todos to adopt. */
+  resume_from: z.string().min(1).optional(),
+  /**
+   * Path-independent project identity (e.g. `github.com/acme/app`), sent by hub clients. The session's
+   * project is the key and project_root (or worktree) is only the client's local checkout path.
+   */
+  project_key: z
+    .string()
+    .min(1)
+    .max(300)
+    .refine((key) => isProjectKey(key) && !key.includes('\0'), 'project_key must not be a path')
+    .optional(),
+});
+
+export const sessionHandoffSchema = z.object({
+  session_id: sessionIdSchema,
+  /** Saved as a pinned `state` memory so it travels with the session when resumed. */
+  note: z.string().min(1).max(MAX_MEMORY_CONTENT_CHARS).optional(),
+  max_memories: z.number().int().min(0).max(30).optional().default(10),
 });
 
 export const sessionEndSchema = z.object({
@@ -83,6 +118,8 @@ export const configSchema = z.object({
   stale_threshold_hours: z.number().min(0).optional(),
   auto_release_immediate: z.boolean().optional(),
   auto_release_delay_minutes: z.number().min(0).optional(),
+  deadlock_resolution: z.enum(['lowest_priority', 'youngest_claim']).optional(),
+  allow_preemption: z.boolean().optional(),
 });
 
 export const statusSchema = z.object({
@@ -91,6 +128,9 @@ export const statusSchema = z.object({
   detail: z.boolean().optional().default(false),
 });
 
+// Claim lease length in minutes
+export const claimTtlSchema = z.number().int().min(1).max(MAX_CLAIM_TTL_MINUTES);
+
 // Priority schema (0-100, default 50)
 export const prioritySchema = z.number().min(0).max(100).default(50);
 
@@ -103,6 +143,10 @@ export const claimCreateSchema = z.object({
   scope: claimScopeSchema.optional(),
   priority: z.number().min(0).max(100).optional(),
   allow_conflicts: z.boolean().optional(),
+  /** Shared read claim or exclusive write claim (default). */
+  mode: claimModeSchema.optional(),
+  /** Lease length; the claim stops blocking others once it lapses. Omit for no lease. */
+  ttl_minutes: claimTtlSchema.optional(),
   /** Include full files/conflicts payloads. Default false (compact). */
   detail: z.boolean().optional().default(false),
 }).refine(
@@ -117,14 +161,30 @@ export const claimUpdatePrioritySchema = z.object({
   reason: z.string().optional(),
 });
 
+// Edited line range (1-based, inclusive) mapped to its enclosing TS/JS symbols
+export const lineRangeSchema = z.object({
+  file: filePathSchema,
+  start_line: z.number().int().min(1),
+  end_line: z.number().int().min(1).optional(),
+}).refine(
+  (data) => data.end_line === undefined || data.end_line >= data.start_line,
+  { message: 'end_line must be >= start_line' }
+);
+
 export const claimCheckSchema = z.object({
-  files: filesArraySchema,
+  files: z.array(filePathSchema).optional(),
   symbols: symbolClaimsArraySchema.optional(),
+  lines: z.array(lineRangeSchema).optional(),
   session_id: sessionIdSchema,
   exclude_self: z.boolean().optional(),
+  /** Mode you would claim with; read checks ignore other read claims. */
+  mode: claimModeSchema.optional(),
   /** Include full conflict payloads. Default false. */
   detail: z.boolean().optional().default(false),
-});
+}).refine(
+  (data) => (data.files && data.files.length > 0) || (data.lines && data.lines.length > 0),
+  { message: 'Either files or lines must be provided' }
+);
 
 export const claimReleaseSchema = z.object({
   session_id: sessionIdSchema,
@@ -134,6 +194,67 @@ export const claimReleaseSchema = z.object({
   force: z.boolean().optional(),
 });
 
+export const claimRenewSchema = z.object({
+  session_id: sessionIdSchema,
+  claim_id: claimIdSchema,
+  /** New lease length counted from now. Default DEFAULT_CLAIM_TTL_MINUTES. */
+  ttl_minutes: claimTtlSchema.optional(),
+});
+
+export const claimExtendSchema = z.object({
+  session_id: sessionIdSchema,
+  claim_id: claimIdSchema,
+  files: z.array(filePathSchema).optional(),
+  symbols: symbolClaimsArraySchema.optional(),
+  /** Add files even when another session's claim overlaps them. */
+  allow_conflicts: z.boolean().optional(),
+  detail: z.boolean().optional().default(false),
+}).refine(
+  (data) => (data.files && data.files.length > 0) || (data.symbols && data.symbols.length > 0),
+  { message: 'Either files or symbols must be provided' }
+);
+
+export const claimShrinkSchema = z.object({
+  session_id: sessionIdSchema,
+  claim_id: claimIdSchema,
+  files: z.array(filePathSchema).min(1, 'files is required'),
+  summary: z.string().optional(),
+});
+
+export const claimSplitSchema = z.object({
+  session_id: sessionIdSchema,
+  claim_id: claimIdSchema,
+  files: z.array(filePathSchema).min(1, 'files is required'),
+  intent: z.string().min(1, 'intent is required'),
+  scope: claimScopeSchema.optional(),
+  priority: z.number().min(0).max(100).optional(),
+});
+
+export const claimTransferSchema = z.object({
+  session_id: sessionIdSchema,
+  target_session_id: z.string().min(1, 'target_session_id is required'),
+  /** Claim to transfer. Default: all of your active claims. */
+  claim_id: claimIdSchema.optional(),
+  summary: z.string().optional(),
+});
+
+export const claimPreemptSchema = z.object({
+  session_id: sessionIdSchema,
+  claim_id: claimIdSchema,
+  /** Defaults to the intent of your queue entry on the claim. */
+  intent: z.string().min(1).optional(),
+  /** Must be critical (>= 90); defaults to your queue entry's priority. */
+  priority: z.number().min(0).max(100).optional(),
+  /** Minutes the owner has to acknowledge or release. Default DEFAULT_PREEMPT_DEADLINE_MINUTES. */
+  deadline_minutes: z.number().int().min(1).max(MAX_PREEMPT_DEADLINE_MINUTES).optional(),
+});
+
+export const claimAcknowledgeSchema = z.object({
+  session_id: sessionIdSchema,
+  preempt_id: z.string().min(1, 'preempt_id is required'),
+  summary: z.string().optional(),
+});
+
 // Auto-release schema for releasing claims by file path after edit
 export const autoReleaseSchema = z.object({
   session_id: sessionIdSchema,
@@ -149,6 +270,72 @@ export const claimListSchema = z.object({
   detail: z.boolean().optional().default(false),
 });
 
+// Queue tool input schemas
+export const queueListSchema = z.object({
+  session_id: sessionIdSchema,
+  /** One claim's queue; omit for the queues you wait in and the queues on your claims. */
+  claim_id: z.string().min(1).optional(),
+});
+
+export const queueLeaveSchema = z.object({
+  session_id: sessionIdSchema,
+  /** Omit to leave every queue. */
+  claim_id: z.string().min(1).optional(),
+});
+
+export const queuePromoteSchema = z.object({
+  session_id: sessionIdSchema,
+  claim_id: claimIdSchema,
+  target_session_id: z.string().min(1, 'target_session_id is required'),
+});
+
+export const queueHandoffSchema = z.object({
+  session_id: sessionIdSchema,
+  claim_id: claimIdSchema,
+  /** Waiter to hand off to. Default: head of the queue. */
+  target_session_id: z.string().min(1).optional(),
+  summary: z.string().optional(),
+});
+
+// Memory export/import schemas
+export const memoryCategorySchema = z.enum(['finding', 'decision', 'state', 'todo', 'important', 'context']);
+
+export const memoryScopeSchema = z.enum(['session', 'project']);
+
+export const memoryBundleSchema = z.object({
+  format: z.literal('session-collab-memory'),
+  version: z.number().int().min(1),
+  exported_at: z.string().optional(),
+  source: z.record(z.unknown()).optional(),
+  memories: z.array(
+    z.object({
+      category: memoryCategorySchema,
+      key: z.string().min(1),
+      content: z.string().min(1).max(MAX_MEMORY_CONTENT_CHARS),
+      priority: z.number().int().min(0).max(100).optional(),
+      pinned: z.boolean().optional(),
+      expires_at: z.string().nullable().optional(),
+      metadata: z.record(z.unknown()).nullable().optional(),
+    })
+  ),
+});
+
+export const memoryExportSchema = z.object({
+  session_id: sessionIdSchema,
+  /** session: the session's own memories. project: the project's shared memories. */
+  scope: memoryScopeSchema.optional().default('session'),
+  format: z.enum(['markdown', 'json']).optional().default('markdown'),
+});
+
+export const memoryImportSchema = z.object({
+  session_id: sessionIdSchema,
+  bundle: memoryBundleSchema,
+  /** Where to import; defaults to the bundle's source scope. */
+  scope: memoryScopeSchema.optional(),
+  /** Project scope: replace keys another session wrote last. */
+  overwrite: z.boolean().optional(),
+});
+
 // Helper function to validate and return parsed data or error result
 export function validateInput<T>(
   schema: z.ZodSchema<T>,
@@ -18,12 +18,15 @@ import { sessionTools, handleSessionTool } from './tools/session.js';
 import { claimTools, handleClaimTool } from './tools/claim.js';
 import { memoryTools, handleMemoryTool } from './tools/memory.js';
 import { protectionTools, handleProtectionTool } from './tools/protection.js';
+import { queueTools, handleQueueTool } from './tools/queue.js';
 import { VERSION, SERVER_NAME, SERVER_INSTRUCTIONS } from '../constants.js';
+import type { ApiTokenScope } from '../db/types.js';
 
-type AuthContext = {
+export type AuthContext = {
   type: 'jwt' | 'api_token' | 'legacy';
   userId?: string;
   tokenId?: string;
+  scopes?: ApiTokenScope[];
 };
 
 const SERVER_INFO: McpServerInfo = {
@@ -35,12 +38,12 @@ const CAPABILITIES: McpCapabilities = {
   tools: {},
 };
 
-// 10 core tools: session (5) + claim (1) + memory (3) + protect (1)
+// 16 core tools: session (7) + claim (1) + queue (1) + memory (6) + protect (1)
 
-// All tools combined (now only 10 core tools)
-const ALL_TOOLS: McpTool[] = [...sessionTools, ...claimTools, ...memoryTools, ...protectionTools];
+// All tools combined
+const ALL_TOOLS: McpTool[] = [...sessionTools, ...claimTools, ...queueTools, ...memoryTools, ...protectionTools];
 
-// Server mode detection removed - now single unified mode with 10 tools
+// Server mode detection removed - now single unified mode with 16 tools
 
 export class McpServer {
   private authContext?: AuthContext;
@@ -103,11 +106,13 @@ export class McpServer {
     const userId = this.authContext?.userId !== 'legacy' ? this.authContext?.userId : undefined;
 
     try {
-      // Route to appropriate handler (10 core tools)
+      // Route to appropriate handler (16 core tools)
       if (name.startsWith('collab_session_') || name === 'collab_config' || name === 'collab_status') {
         result = await handleSessionTool(this.db, name, args, userId);
       } else if (name === 'collab_claim') {
         result = await handleClaimTool(this.db, name, args);
+      } else if (name === 'collab_queue') {
+        result = await handleQueueTool(this.db, name, args);
       } else if (name.startsWith('collab_memory_')) {
         result = await handleMemoryTool(this.db, name, args);
       } else if (name === 'collab_protect') {
@@ -143,13 +148,16 @@ export function getMcpTools(): McpTool[] {
 export async function handleMcpRequest(
   db: DatabaseAdapter,
   name: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  userId?: string
 ): Promise<McpToolResult> {
   try {
     if (name.startsWith('collab_session_') || name === 'collab_config' || name === 'collab_status') {
-      return await handleSessionTool(db, name, args);
+      return await handleSessionTool(db, name, args, userId);
     } else if (name === 'collab_claim') {
       return await handleClaimTool(db, name, args);
+    } else if (name === 'collab_queue') {
+      return await handleQueueTool(db, name, args);
     } else if (name.startsWith('collab_memory_')) {
       return await handleMemoryTool(db, name, args);
     } else if (name === 'collab_protect') {
@@ -3,11 +3,11 @@
 import type { DatabaseAdapter } from '../../db/sqlite-adapter.js';
 import type { McpTool, McpToolResult } from '../protocol.js';
 import { createToolResult } from '../protocol.js';
-import type { ConflictInfo, Session, SessionConfig, SymbolClaim } from '../../db/types.js';
+import type { ClaimMode, ClaimWithFiles, ConflictInfo, Session, SessionConfig, SymbolClaim } from '../../db/types.js';
 import { DEFAULT_SESSION_CONFIG } from '../../db/types.js';
 import {
+  addClaimFiles,
   checkConflicts,
-  createClaim,
   createNotification,
   getClaim,
   getSession,
@@ -16,8 +16,19 @@ import {
   logAuditEvent,
   notifyQueueOnClaimRelease,
   releaseClaim,
-  saveMemory,
+  renewClaim,
+  createPreemptRequest,
+  getPreemptRequest,
+  listOpenPreemptRequests,
+  listQueue,
+  raiseQueuePriority,
+  updatePreemptStatus,
   clearMemory,
+  getClaimSymbols,
+  leaveQueue,
+  removeClaimFiles,
+  splitClaim,
+  transferClaim,
 } from '../../db/queries.js';
 import { getPriorityLevel } from '../../db/types.js';
 import {
@@ -25,7 +36,14 @@ import {
   claimCreateSchema,
   claimCheckSchema,
   claimReleaseSchema,
+  claimRenewSchema,
   claimListSchema,
+  claimPreemptSchema,
+  claimAcknowledgeSchema,
+  claimExtendSchema,
+  claimShrinkSchema,
+  claimSplitSchema,
+  claimTransferSchema,
 } from '../schemas.js';
 import {
   errorResponse,
@@ -35,11 +53,25 @@ import {
   ERROR_CODES,
 } from '../../utils/response.js';
 import {
+  claimPathsOverlap,
   normalizeClaimPaths,
   normalizeSymbolClaims,
+  isProjectKey,
   PathNormalizationError,
 } from '../../utils/paths.js';
-import { clampMemoryContent } from '../../utils/memory-content.js';
+import {
+  findEnclosingSymbols,
+  indexFile,
+  resolveSymbolClaims,
+} from '../../utils/symbol-index.js';
+import type { UnknownSymbol } from '../../utils/symbol-index.js';
+import {
+  CRITICAL_PRIORITY,
+  DEFAULT_CLAIM_TTL_MINUTES,
+  DEFAULT_PREEMPT_DEADLINE_MINUTES,
+} from '../../constants.js';
+import { createTrackedClaim, processPreemptions, runClaimSweeps, saveClaimMemory } from '../claim-lifecycle.js';
+import { detectDeadlock, formatDeadlock } from '../../utils/deadlock.js';
 
 function parseSessionConfig(session: Session): SessionConfig {
   if (!session.config) {
@@ -53,6 +85,20 @@ function parseSessionConfig(session: Session): SessionConfig {
   }
 }
 
+// Paths resolve against the session's own checkout; claims are stored repository-relative either way
+function checkoutRoot(session: Session): string {
+  return session.worktree ?? session.project_root;
+}
+
+// Hub sessions' checkouts are on the client's machine: their symbols are taken as given, unindexed
+function symbolIndexRoot(session: Session): string | null {
+  return isProjectKey(session.project_root) ? null : checkoutRoot(session);
+}
+
+function conflictScopeFor(session: Session): { project_root: string; branch: string | null } {
+  return { project_root: session.project_root, branch: session.branch };
+}
+
 function mapConflict(
   conflict: ConflictInfo,
   ownerSession: Session | null,
@@ -65,8 +111,12 @@ function mapConflict(
       session_name: conflict.session_name,
       file: conflict.file_path,
       intent: conflict.intent,
+      mode: conflict.claim_mode,
       conflict_level: conflict.conflict_level,
       symbol_name: conflict.symbol_name ?? null,
+      branch_scope: conflict.branch_scope ?? 'same_branch',
+      machine_id: conflict.session_machine_id ?? null,
+      user: conflict.session_user ?? null,
     };
   }
   return {
@@ -76,10 +126,16 @@ function mapConflict(
     file: conflict.file_path,
     intent: conflict.intent,
     scope: conflict.scope,
+    mode: conflict.claim_mode,
     created_at: conflict.created_at,
     conflict_level: conflict.conflict_level,
     symbol_name: conflict.symbol_name ?? null,
     symbol_type: conflict.symbol_type ?? null,
+    branch: conflict.session_branch ?? null,
+    branch_scope: conflict.branch_scope ?? 'same_branch',
+    worktree: ownerSession?.worktree ?? null,
+    machine_id: conflict.session_machine_id ?? null,
+    user: conflict.session_user ?? null,
     current_task: ownerSession?.current_task ?? null,
     last_heartbeat: ownerSession?.last_heartbeat ?? null,
   };
@@ -147,6 +203,9 @@ function compactConflictResponse(params: {
   coordination_requests?: Array<Record<string, unknown>>;
   recommendation?: string;
   claim_id?: string;
+  expires_at?: string | null;
+  deadlock?: Record<string, unknown>;
+  read_holders?: Array<Record<string, unknown>>;
   detail: boolean;
   message: string;
   warning?: string;
@@ -165,8 +224,11 @@ function compactConflictResponse(params: {
     message: params.message,
   };
   if (params.claim_id) base.claim_id = params.claim_id;
+  if (params.expires_at) base.expires_at = params.expires_at;
   if (params.recommendation) base.recommendation = params.recommendation;
   if (params.warning) base.warning = params.warning;
+  if (params.deadlock) base.deadlock = params.deadlock;
+  if (params.read_holders) base.read_holders = params.read_holders;
   // Always surface coordination (needed for agent action); compact when !detail
   if (params.coordination_requests) {
     base.coordination_count = params.coordination_requests.length;
@@ -189,10 +251,74 @@ function compactConflictResponse(params: {
   return base;
 }
 
+/**
+ * Split overlapping claims into blocking conflicts and read holders. Only write claims block;
+ * a write request reports read claims as soft conflicts, a read request ignores them.
+ */
+function splitByMode(
+  conflicts: ConflictInfo[],
+  mode: ClaimMode
+): { blocking: ConflictInfo[]; readers: ConflictInfo[] } {
+  return {
+    blocking: conflicts.filter((conflict) => conflict.claim_mode === 'write'),
+    readers: mode === 'write' ? conflicts.filter((conflict) => conflict.claim_mode === 'read') : [],
+  };
+}
+
+/** The caller's own active claim, or the error to return for extend/shrink/split. */
+async function loadOwnActiveClaim(
+  db: DatabaseAdapter,
+  claimId: string,
+  sessionId: string,
+  verb: string
+): Promise<{ claim: ClaimWithFiles } | { error: McpToolResult }> {
+  const claim = await getClaim(db, claimId);
+  if (!claim) {
+    return { error: errorResponse(ERROR_CODES.CLAIM_NOT_FOUND, 'Claim not found') };
+  }
+  if (claim.session_id !== sessionId) {
+    return {
+      error: errorResponse(
+        ERROR_CODES.NOT_OWNER,
+        `Not your claim. Owner: ${claim.session_name}. Only the owner can ${verb} it.`
+      ),
+    };
+  }
+  if (claim.status !== 'active') {
+    return { error: errorResponse(ERROR_CODES.CLAIM_ALREADY_RELEASED, `Claim already ${claim.status}`) };
+  }
+  return { claim };
+}
+
+/** shrink/split take a strict subset of the claim's files; the whole set is a release. */
+function checkFileSubset(claimFiles: string[], files: string[], verb: string): McpToolResult | null {
+  const missing = files.filter((file) => !claimFiles.includes(file));
+  if (missing.length > 0) {
+    return validationError(`Not on this claim: ${missing.join(', ')}`);
+  }
+  if (files.length >= claimFiles.length) {
+    return validationError(`Cannot ${verb} every file of a claim. Use action=release instead.`);
+  }
+  return null;
+}
+
 function uniqueBlockedFiles(conflicts: ConflictInfo[]): string[] {
   return Array.from(new Set(conflicts.map((conflict) => conflict.file_path)));
 }
 
+/** A requested path is blocked when any conflicting claim path (literal, directory, or glob) overlaps it. */
+function isBlockedFile(file: string, blockedFiles: string[]): boolean {
+  return blockedFiles.some((blocked) => claimPathsOverlap(file, blocked));
+}
+
+function formatUnknownSymbols(unknown: UnknownSymbol[]): string {
+  const details = unknown.map((entry) => {
+    const hint = entry.suggestions.length > 0 ? ` (did you mean ${entry.suggestions.join(', ')}?)` : '';
+    return `${entry.file}: ${entry.symbol}${hint}`;
+  });
+  return `Unknown symbol(s): ${details.join('; ')}. Claim the file instead when adding new symbols.`;
+}
+
 function filterSafeSymbols(symbols: SymbolClaim[] | undefined, safeFiles: string[]): SymbolClaim[] | undefined {
   if (!symbols || symbols.length === 0) {
     return undefined;
@@ -211,60 +337,13 @@ function getCoordinationRecommendation(symbols: SymbolClaim[] | undefined, confl
   return 'wait_for_release_or_coordinate';
 }
 
-async function createTrackedClaim(
-  db: DatabaseAdapter,
-  input: {
-    session_id: string;
-    files: string[];
-    symbols?: SymbolClaim[];
-    intent: string;
-    scope?: 'small' | 'medium' | 'large';
-    priority?: number;
-  }
-): Promise<string> {
-  const { claim } = await createClaim(db, {
-    session_id: input.session_id,
-    files: input.files,
-    symbols: input.symbols,
-    intent: input.intent,
-    scope: input.scope,
-    priority: input.priority,
-  });
-
-  await logAuditEvent(db, {
-    session_id: input.session_id,
-    action: 'claim_created',
-    entity_type: 'claim',
-    entity_id: claim.id,
-    metadata: { files: input.files, intent: input.intent },
-  });
-
-  const filePreview =
-    input.files.length <= 5
-      ? input.files.join(', ')
-      : `${input.files.slice(0, 5).join(', ')} (+${input.files.length - 5} more)`;
-  const clamped = clampMemoryContent(
-    `Working on: ${input.intent}\nFiles (${input.files.length}): ${filePreview}`
-  );
-
-  await saveMemory(db, input.session_id, {
-    category: 'state',
-    key: `claim_${claim.id}`,
-    content: clamped.content,
-    priority: 60,
-    related_claim_id: claim.id,
-    metadata: { claim_id: claim.id, file_count: input.files.length },
-  });
-
-  return claim.id;
-}
-
 async function createCoordinationRequests(
   db: DatabaseAdapter,
   input: {
     session_id: string;
     intent: string;
     scope?: 'small' | 'medium' | 'large';
+    mode: ClaimMode;
     priority?: number;
   },
   conflicts: ConflictInfo[]
@@ -293,6 +372,7 @@ async function createCoordinationRequests(
       intent: input.intent,
       priority: input.priority,
       scope: input.scope,
+      mode: input.mode,
     });
 
     await logAuditEvent(db, {
@@ -340,16 +420,101 @@ async function createCoordinationRequests(
   return requests;
 }
 
+/**
+ * Warn sessions holding read claims on files a new write claim covers that those files will change.
+ * Returns the read holders that overlap the claimed files.
+ */
+async function notifyReadHolders(
+  db: DatabaseAdapter,
+  input: { session_id: string; claim_id: string; intent: string; files: string[] },
+  readers: ConflictInfo[]
+): Promise<ConflictInfo[]> {
+  const affected = readers.filter((reader) => input.files.some((file) => claimPathsOverlap(file, reader.file_path)));
+  const grouped = new Map<string, { reader: ConflictInfo; files: Set<string> }>();
+  for (const reader of affected) {
+    const existing = grouped.get(reader.claim_id);
+    if (existing) {
+      existing.files.add(reader.file_path);
+    } else {
+      grouped.set(reader.claim_id, { reader, files: new Set([reader.file_path]) });
+    }
+  }
+
+  for (const { reader, files } of grouped.values()) {
+    const fileList = Array.from(files);
+    await createNotification(db, {
+      session_id: reader.session_id,
+      type: 'conflict_detected',
+      title: 'Write claim on files you read',
+      message: `Another session claimed ${fileList.join(', ')} for writing (${input.intent}). Re-read them before relying on their contents.`,
+      reference_type: 'claim',
+      reference_id: reader.claim_id,
+      metadata: {
+        claim_id: reader.claim_id,
+        files: fileList,
+        conflicting_session_id: input.session_id,
+      },
+    });
+  }
+
+  return affected;
+}
+
+/**
+ * After joining a queue, check whether the session now waits on itself through other sessions.
+ * The session picked by the resolution rule is notified to release its claim; nothing is released here.
+ */
+async function reportDeadlock(
+  db: DatabaseAdapter,
+  sessionId: string,
+  config: SessionConfig
+): Promise<Record<string, unknown> | undefined> {
+  const deadlock = await detectDeadlock(db, sessionId, config.deadlock_resolution);
+  if (!deadlock) {
+    return undefined;
+  }
+
+  const sessions = deadlock.cycle.map((edge) => edge.waiter_session_id);
+  await logAuditEvent(db, {
+    session_id: sessionId,
+    action: 'deadlock_detected',
+    entity_type: 'claim',
+    entity_id: deadlock.yield_claim_id,
+    metadata: {
+      files: deadlock.yield_files,
+      reason: deadlock.resolution,
+      to_session_id: deadlock.yielding_session_id,
+      new_value: sessions,
+    },
+  });
+
+  await createNotification(db, {
+    session_id: deadlock.yielding_session_id,
+    type: 'conflict_detected',
+    title: 'Deadlock detected',
+    message: `${sessions.length} sessions are waiting on each other. Release claim ${deadlock.yield_claim_id} (${deadlock.yield_files.join(', ')}) so the others can proceed.`,
+    reference_type: 'claim',
+    reference_id: deadlock.yield_claim_id,
+    metadata: {
+      claim_id: deadlock.yield_claim_id,
+      files: deadlock.yield_files,
+      conflicting_session_id: sessionId,
+    },
+  });
+
+  return formatDeadlock(deadlock);
+}
+
 export const claimTools: McpTool[] = [
   {
     name: 'collab_claim',
-    description: `Unified file/symbol claims. Prefer action=create (atomic claim-or-block; paths normalized to project_root). check is optional probe-only. detail defaults false (compact).`,
+    description: `Unified file/symbol claims. Prefer action=create (atomic claim-or-block; paths normalized to project_root). check is optional probe-only. mode=read takes a shared claim that only write claims conflict with. Optional ttl_minutes lease; renew extends it. extend adds files/symbols to your claim (conflict-checked), shrink releases some of its files, split moves some into a new claim with its own intent. transfer gives one (claim_id) or all of your claims to target_session_id in the same project, keeping claim ids. preempt asks an owner to yield to a critical (priority 90+) waiter before a deadline; the owner answers with acknowledge or release. detail defaults false (compact).`,
     inputSchema: {
       type: 'object',
       properties: {
         action: {
           type: 'string',
-          enum: ['create', 'check', 'release', 'list'],
+          enum: ['create', 'check', 'release', 'renew', 'list', 'extend', 'shrink', 'split', 'transfer', 'preempt', 'acknowledge'],
           description: 'Action to perform',
         },
         session_id: {
@@ -359,7 +524,7 @@ export const claimTools: McpTool[] = [
         files: {
           type: 'array',
           items: { type: 'string' },
-          description: 'File paths (create/check); absolute or relative — normalized to project_root',
+          description: 'File paths (create/check/extend/shrink/split); absolute or relative — normalized to project_root. Directories (`src/db/`) and globs (`src/**/*.ts`) claim every matching file',
         },
         exclude_self: {
           type: 'boolean',
@@ -379,24 +544,50 @@ export const claimTools: McpTool[] = [
             },
             required: ['file', 'symbols'],
           },
-          description: 'Symbol claims (for create/check actions)',
+          description: 'Symbol claims (for create/check/extend actions). TS/JS names are validated against the file; symbol_type is detected when omitted',
+        },
+        lines: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              file: { type: 'string' },
+              start_line: { type: 'number' },
+              end_line: { type: 'number' },
+            },
+            required: ['file', 'start_line'],
+          },
+          description: 'Edited line ranges (for check action); mapped to enclosing TS/JS symbols for symbol-level checks',
         },
         intent: {
           type: 'string',
-          description: 'What you plan to do (for create action)',
+          description: 'What you plan to do (for create; for split, the new claim\'s intent)',
         },
         scope: {
           type: 'string',
           enum: ['small', 'medium', 'large'],
           description: 'Scope estimate (for create action)',
         },
+        mode: {
+          type: 'string',
+          enum: ['read', 'write'],
+          description: 'Claim mode (create/check; default write). Read claims are shared; a write claim notifies read holders instead of waiting on them',
+        },
         priority: {
           type: 'number',
-          description: 'Priority 0-100 (for create action)',
+          description: 'Priority 0-100 (for create action; preempt needs 90+)',
+        },
+        ttl_minutes: {
+          type: 'number',
+          description: `Lease length in minutes (create: optional, no lease when omitted; renew: default ${DEFAULT_CLAIM_TTL_MINUTES}). Expired leases stop blocking others.`,
         },
         claim_id: {
           type: 'string',
-          description: 'Claim ID (for release action)',
+          description: 'Claim ID (for release/renew/extend/shrink/split/transfer/preempt action)',
+        },
+        target_session_id: {
+          type: 'string',
+          description: 'Session that receives the claims (for transfer action)',
         },
         status: {
           type: 'string',
@@ -409,7 +600,7 @@ export const claimTools: McpTool[] = [
         },
         allow_conflicts: {
           type: 'boolean',
-          description: 'Explicitly create a claim even when conflicts are detected (for create action)',
+          description: 'Explicitly create (or extend) a claim even when conflicts are detected (for create/extend action)',
         },
         detail: {
           type: 'boolean',
@@ -417,12 +608,20 @@ export const claimTools: McpTool[] = [
         },
         summary: {
           type: 'string',
-          description: 'Release summary (for release action)',
+          description: 'Release summary (for release/shrink action) or handover note (for transfer)',
         },
         project_root: {
           type: 'string',
           description: 'Filter by project root (for list action)',
         },
+        deadline_minutes: {
+          type: 'number',
+          description: `Minutes the owner has to acknowledge or release (for preempt; default ${DEFAULT_PREEMPT_DEADLINE_MINUTES})`,
+        },
+        preempt_id: {
+          type: 'string',
+          description: 'Preempt request to acknowledge (for acknowledge action)',
+        },
       },
       required: ['action', 'session_id'],
     },
@@ -445,6 +644,9 @@ export async function handleClaimTool(
     return validationError('action and session_id are required');
   }
 
+  // Sweep lapsed leases, due post-edit releases and preempt deadlines first so claims are reported as they stand
+  await runClaimSweeps(db);
+
   switch (action) {
     case 'create': {
       const validation = validateInput(claimCreateSchema, args);
@@ -460,7 +662,8 @@ export async function handleClaimTool(
         return sessionResult.error;
       }
       const config = parseSessionConfig(sessionResult.session);
-      const projectRoot = sessionResult.session.project_root;
+      const projectRoot = checkoutRoot(sessionResult.session);
+      const conflictScope = conflictScopeFor(sessionResult.session);
 
       let files: string[];
       let symbols: SymbolClaim[] | undefined;
@@ -476,129 +679,182 @@ export async function handleClaimTool(
         return validationError(message);
       }
 
-      const conflicts = await checkConflicts(db, files, input.session_id, symbols);
-      const formattedConflicts = await formatConflicts(db, conflicts, detail);
-      const blockedFiles = uniqueBlockedFiles(conflicts);
-      const safeFiles = files.filter((file) => !blockedFiles.includes(file));
-      const safeSymbols = filterSafeSymbols(symbols, safeFiles);
+      const indexRoot = symbolIndexRoot(sessionResult.session);
+      if (symbols && indexRoot) {
+        const resolved = await resolveSymbolClaims(indexRoot, symbols);
+        if (resolved.unknown.length > 0) {
+          return validationError(formatUnknownSymbols(resolved.unknown));
+        }
+        symbols = resolved.symbols;
+      }
 
-      if (conflicts.length > 0 && config.mode === 'strict') {
-        return successResponse(
-          compactConflictResponse({
-            success: false,
-            status: 'blocked_by_conflicts',
-            files,
-            blockedFiles,
-            safeFiles,
-            symbols,
-            conflicts: formattedConflicts,
-            recommendation: 'coordinate_before_editing',
-            detail,
-            message: `Claim not created. ${conflicts.length} conflict(s) detected. Coordinate before proceeding.`,
-          })
+      const mode = input.mode ?? 'write';
+
+      // Check and insert under one write lock so concurrent creators cannot both win
+      return db.transaction(async () => {
+        const { blocking: conflicts, readers } = splitByMode(
+          await checkConflicts(db, files, input.session_id, symbols, conflictScope),
+          mode
         );
-      }
+        // Read holders are told about the write claim once it exists; they never block it
+        const readHoldersOf = async (claimId: string, claimedFiles: string[]) => {
+          if (readers.length === 0) {
+            return undefined;
+          }
+          const affected = await notifyReadHolders(
+            db,
+            { session_id: input.session_id, claim_id: claimId, intent: input.intent, files: claimedFiles },
+            readers
+          );
+          return affected.length > 0 ? formatConflicts(db, affected, detail) : undefined;
+        };
+        const formattedConflicts = await formatConflicts(db, conflicts, detail);
+        const blockedFiles = uniqueBlockedFiles(conflicts);
+        const safeFiles = files.filter((file) => !isBlockedFile(file, blockedFiles));
+        const safeSymbols = filterSafeSymbols(symbols, safeFiles);
 
-      if (conflicts.length > 0) {
-        if (!input.allow_conflicts) {
-          const coordinationRequests = await createCoordinationRequests(db, {
-            session_id: input.session_id,
-            intent: input.intent,
-            scope: input.scope,
-            priority: input.priority,
-          }, conflicts);
+        if (conflicts.length > 0 && config.mode === 'strict') {
+          return successResponse(
+            compactConflictResponse({
+              success: false,
+              status: 'blocked_by_conflicts',
+              files,
+              blockedFiles,
+              safeFiles,
+              symbols,
+              conflicts: formattedConflicts,
+              recommendation: 'coordinate_before_editing',
+              detail,
+              message: `Claim not created. ${conflicts.length} conflict(s) detected. Coordinate before proceeding.`,
+            })
+          );
+        }
 
-          if (config.mode === 'smart' && safeFiles.length > 0) {
-            const claimId = await createTrackedClaim(db, {
+        if (conflicts.length > 0) {
+          if (!input.allow_conflicts) {
+            const coordinationRequests = await createCoordinationRequests(db, {
               session_id: input.session_id,
-              files: safeFiles,
-              symbols: safeSymbols,
               intent: input.intent,
               scope: input.scope,
+              mode,
               priority: input.priority,
-            });
+            }, conflicts);
+            const deadlock = await reportDeadlock(db, input.session_id, config);
+
+            if (config.mode === 'smart' && safeFiles.length > 0) {
+              const claim = await createTrackedClaim(db, {
+                session_id: input.session_id,
+                files: safeFiles,
+                symbols: safeSymbols,
+                intent: input.intent,
+                scope: input.scope,
+                mode,
+                priority: input.priority,
+                ttl_minutes: input.ttl_minutes,
+              });
+              const readHolders = await readHoldersOf(claim.id, safeFiles);
+
+              return successResponse(
+                compactConflictResponse({
+                  success: true,
+                  status: 'partial_claim_created',
+                  claim_id: claim.id,
+                  expires_at: claim.expires_at,
+                  files,
+                  blockedFiles,
+                  safeFiles,
+                  symbols: safeSymbols,
+                  conflicts: formattedConflicts,
+                  coordination_requests: coordinationRequests,
+                  recommendation: getCoordinationRecommendation(symbols, conflicts),
+                  deadlock,
+                  read_holders: readHolders,
+                  detail,
+                  message: `Claim created for safe files only. Coordinate before editing blocked files: [${blockedFiles.join(', ')}].`,
+                })
+              );
+            }
 
             return successResponse(
               compactConflictResponse({
-                success: true,
-                status: 'partial_claim_created',
-                claim_id: claimId,
+                success: false,
+                status: 'waiting_for_coordination',
                 files,
                 blockedFiles,
-                safeFiles,
-                symbols: safeSymbols,
+                safeFiles: [],
+                symbols,
                 conflicts: formattedConflicts,
                 coordination_requests: coordinationRequests,
                 recommendation: getCoordinationRecommendation(symbols, conflicts),
+                deadlock,
                 detail,
-                message: `Claim created for safe files only. Coordinate before editing blocked files: [${blockedFiles.join(', ')}].`,
+                message: `Claim not created. Waiting for coordination on blocked files: [${blockedFiles.join(', ')}].`,
               })
             );
           }
 
+          const claim = await createTrackedClaim(db, {
+            session_id: input.session_id,
+            files,
+            symbols,
+            intent: input.intent,
+            scope: input.scope,
+            mode,
+            priority: input.priority,
+            ttl_minutes: input.ttl_minutes,
+          });
+          const readHolders = await readHoldersOf(claim.id, files);
+
           return successResponse(
             compactConflictResponse({
-              success: false,
-              status: 'waiting_for_coordination',
+              success: true,
+              status: 'created_with_conflicts',
+              claim_id: claim.id,
+              expires_at: claim.expires_at,
               files,
               blockedFiles,
-              safeFiles: [],
+              safeFiles,
               symbols,
               conflicts: formattedConflicts,
-              coordination_requests: coordinationRequests,
-              recommendation: getCoordinationRecommendation(symbols, conflicts),
+              read_holders: readHolders,
               detail,
-              message: `Claim not created. Waiting for coordination on blocked files: [${blockedFiles.join(', ')}].`,
+              message: `Claim created with ${conflicts.length} conflict(s). Coordinate before proceeding.`,
+              warning: `⚠️ ${conflicts.length} conflict(s) detected. Coordinate before proceeding.`,
             })
           );
         }
 
-        const claimId = await createTrackedClaim(db, {
+        const claim = await createTrackedClaim(db, {
           session_id: input.session_id,
           files,
           symbols,
           intent: input.intent,
           scope: input.scope,
+          mode,
           priority: input.priority,
+          ttl_minutes: input.ttl_minutes,
         });
+        const readHolders = await readHoldersOf(claim.id, files);
 
         return successResponse(
-          compactConflictResponse({
-            success: true,
-            status: 'created_with_conflicts',
-            claim_id: claimId,
+          compactClaimSuccess({
+            claim_id: claim.id,
+            status: 'created',
             files,
-            blockedFiles,
-            safeFiles,
             symbols,
-            conflicts: formattedConflicts,
+            intent: input.intent,
             detail,
-            message: `Claim created with ${conflicts.length} conflict(s). Coordinate before proceeding.`,
-            warning: `⚠️ ${conflicts.length} conflict(s) detected. Coordinate before proceeding.`,
+            message: readHolders
+              ? `Claim created. ${readHolders.length} read claim(s) overlap; their holders were notified.`
+              : 'Claim created successfully.',
+            extra: {
+              mode,
+              ...(claim.expires_at ? { expires_at: claim.expires_at } : {}),
+              ...(readHolders ? { read_holders: readHolders } : {}),
+            },
           })
         );
-      }
-
-      const claimId = await createTrackedClaim(db, {
-        session_id: input.session_id,
-        files,
-        symbols,
-        intent: input.intent,
-        scope: input.scope,
-        priority: input.priority,
       });
-
-      return successResponse(
-        compactClaimSuccess({
-          claim_id: claimId,
-          status: 'created',
-          files,
-          symbols,
-          intent: input.intent,
-          detail,
-          message: 'Claim created successfully.',
-        })
-      );
     }
 
     case 'check': {
@@ -618,23 +874,52 @@ export async function handleClaimTool(
         return sessionResult.error;
       }
 
+      const projectRoot = checkoutRoot(sessionResult.session);
       let files: string[];
       let symbols: SymbolClaim[] | undefined;
+      let lines: Array<{ file: string; start_line: number; end_line: number }>;
       try {
         const rawSymbols = input.symbols as SymbolClaim[] | undefined;
         symbols = rawSymbols
-          ? (normalizeSymbolClaims(rawSymbols, sessionResult.session.project_root) as SymbolClaim[])
+          ? (normalizeSymbolClaims(rawSymbols, projectRoot) as SymbolClaim[])
           : undefined;
-        files = normalizeClaimPaths(input.files, sessionResult.session.project_root);
+        lines = (input.lines ?? []).map((range) => ({
+          file: normalizeClaimPaths([range.file], projectRoot)[0],
+          start_line: range.start_line,
+          end_line: range.end_line ?? range.start_line,
+        }));
+        files = normalizeClaimPaths([...(input.files ?? []), ...lines.map((range) => range.file)], projectRoot);
       } catch (err) {
         const message = err instanceof PathNormalizationError ? err.message : 'Invalid file path';
         return validationError(message);
       }
 
+      // Map edited line ranges to enclosing symbols; ranges outside any symbol stay file-level
+      const resolvedLines: Array<Record<string, unknown>> = [];
+      const indexRoot = symbolIndexRoot(sessionResult.session);
+      for (const range of lines) {
+        const index = indexRoot ? await indexFile(indexRoot, range.file) : null;
+        const enclosing = index ? findEnclosingSymbols(index, range.start_line, range.end_line) : [];
+        // Methods are reported both bare and qualified so either claim spelling matches
+        const names = Array.from(
+          new Set(enclosing.flatMap((symbol) =>
+            symbol.container ? [symbol.name, `${symbol.container}.${symbol.name}`] : [symbol.name]
+          ))
+        );
+        resolvedLines.push({ ...range, symbols: names });
+        if (names.length > 0) {
+          symbols = [...(symbols ?? []), { file: range.file, symbols: names }];
+        }
+      }
+
       const excludeSelf = input.exclude_self ?? true;
       const excludeSessionId = excludeSelf ? input.session_id : undefined;
-      const conflicts = await checkConflicts(db, files, excludeSessionId, symbols);
+      const { blocking: conflicts, readers } = splitByMode(
+        await checkConflicts(db, files, excludeSessionId, symbols, conflictScopeFor(sessionResult.session)),
+        input.mode ?? 'write'
+      );
       const formattedConflicts = await formatConflicts(db, conflicts, detail);
+      const readHolders = readers.length > 0 ? await formatConflicts(db, readers, detail) : undefined;
 
       if (conflicts.length === 0) {
         const ok: Record<string, unknown> = {
@@ -649,11 +934,17 @@ export async function handleClaimTool(
         if (detail) {
           ok.safe_files = files;
         }
+        if (resolvedLines.length > 0) {
+          ok.resolved_lines = resolvedLines;
+        }
+        if (readHolders) {
+          ok.read_holders = readHolders;
+        }
         return successResponse(ok);
       }
 
       const blockedFiles = new Set(conflicts.map(c => c.file_path));
-      const safeFiles = files.filter(f => !blockedFiles.has(f));
+      const safeFiles = files.filter(f => !isBlockedFile(f, Array.from(blockedFiles)));
 
       const blocked: Record<string, unknown> = {
         safe: false,
@@ -672,6 +963,12 @@ export async function handleClaimTool(
       if (detail) {
         blocked.safe_files = safeFiles;
       }
+      if (resolvedLines.length > 0) {
+        blocked.resolved_lines = resolvedLines;
+      }
+      if (readHolders) {
+        blocked.read_holders = readHolders;
+      }
       return successResponse(blocked);
     }
 
@@ -684,58 +981,113 @@ export async function handleClaimTool(
       const status = input.status ?? 'completed';
       const force = input.force;
 
-      const claim = await getClaim(db, input.claim_id);
-      if (!claim) {
-        return errorResponse(ERROR_CODES.CLAIM_NOT_FOUND, 'Claim not found');
-      }
+      // Status check and release must not interleave with another release of the same claim
+      return db.transaction(async () => {
+        const claim = await getClaim(db, input.claim_id);
+        if (!claim) {
+          return errorResponse(ERROR_CODES.CLAIM_NOT_FOUND, 'Claim not found');
+        }
 
-      // Check ownership
-      if (claim.session_id !== input.session_id && !force) {
-        const callerSession = await getSession(db, input.session_id);
-        let config: SessionConfig = DEFAULT_SESSION_CONFIG;
-        if (callerSession?.config) {
-          try {
-            config = { ...DEFAULT_SESSION_CONFIG, ...JSON.parse(callerSession.config) };
-          } catch {
-            // Use default
+        // Check ownership
+        if (claim.session_id !== input.session_id && !force) {
+          const callerSession = await getSession(db, input.session_id);
+          let config: SessionConfig = DEFAULT_SESSION_CONFIG;
+          if (callerSession?.config) {
+            try {
+              config = { ...DEFAULT_SESSION_CONFIG, ...JSON.parse(callerSession.config) };
+            } catch {
+              // Use default
+            }
+          }
+
+          if (!config.allow_release_others) {
+            return errorResponse(
+              ERROR_CODES.NOT_OWNER,
+              `Not your claim. Owner: ${claim.session_name}. Use force=true to override.`
+            );
           }
         }
 
-        if (!config.allow_release_others) {
-          return errorResponse(
-            ERROR_CODES.NOT_OWNER,
-            `Not your claim. Owner: ${claim.session_name}. Use force=true to override.`
-          );
+        if (claim.status !== 'active') {
+          return errorResponse(ERROR_CODES.CLAIM_ALREADY_RELEASED, `Claim already ${claim.status}`);
         }
+
+        const notifications_sent = await notifyQueueOnClaimRelease(db, input.claim_id, input.session_id, claim.files);
+
+        await releaseClaim(db, input.claim_id, {
+          status: status as 'completed' | 'abandoned',
+          summary: input.summary,
+        });
+
+        await logAuditEvent(db, {
+          session_id: input.session_id,
+          action: 'claim_released',
+          entity_type: 'claim',
+          entity_id: input.claim_id,
+          metadata: { status: status as 'completed' | 'abandoned', files: claim.files },
+        });
+
+        await clearMemory(db, claim.session_id, { key: `claim_${input.claim_id}` });
+        // Settle open preempts on this claim now rather than at the next sweep
+        await processPreemptions(db, { claim_id: input.claim_id });
+
+        return successResponse({
+          success: true,
+          claim_id: input.claim_id,
+          file_count: claim.files.length,
+          notifications_sent,
+          message: `Claim ${status} released. Files now available.`,
+        });
+      });
+    }
+
+    case 'renew': {
+      const validation = validateInput(claimRenewSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+      const ttlMinutes = input.ttl_minutes ?? DEFAULT_CLAIM_TTL_MINUTES;
+
+      const claim = await getClaim(db, input.claim_id);
+      if (!claim) {
+        return errorResponse(ERROR_CODES.CLAIM_NOT_FOUND, 'Claim not found');
+      }
+
+      if (claim.session_id !== input.session_id) {
+        return errorResponse(
+          ERROR_CODES.NOT_OWNER,
+          `Not your claim. Owner: ${claim.session_name}. Only the owner can renew a lease.`
+        );
       }
 
       if (claim.status !== 'active') {
         return errorResponse(ERROR_CODES.CLAIM_ALREADY_RELEASED, `Claim already ${claim.status}`);
       }
 
-      const notifications_sent = await notifyQueueOnClaimRelease(db, input.claim_id, input.session_id, claim.files);
-
-      await releaseClaim(db, input.claim_id, {
-        status: status as 'completed' | 'abandoned',
-        summary: input.summary,
-      });
+      const expiresAt = await renewClaim(db, input.claim_id, ttlMinutes);
+      if (!expiresAt) {
+        return errorResponse(ERROR_CODES.CLAIM_ALREADY_RELEASED, 'Claim is no longer active');
+      }
 
       await logAuditEvent(db, {
         session_id: input.session_id,
-        action: 'claim_released',
+        action: 'claim_renewed',
         entity_type: 'claim',
         entity_id: input.claim_id,
-        metadata: { status: status as 'completed' | 'abandoned', files: claim.files },
+        metadata: {
+          ttl_minutes: ttlMinutes,
+          old_value: claim.expires_at,
+          new_value: expiresAt,
+        },
       });
 
-      await clearMemory(db, claim.session_id, { key: `claim_${input.claim_id}` });
-
       return successResponse({
         success: true,
         claim_id: input.claim_id,
-        file_count: claim.files.length,
-        notifications_sent,
-        message: `Claim ${status} released. Files now available.`,
+        expires_at: expiresAt,
+        ttl_minutes: ttlMinutes,
+        message: `Lease renewed for ${ttlMinutes} minute(s).`,
       });
     }
 
@@ -762,10 +1114,14 @@ export async function handleClaimTool(
           const row: Record<string, unknown> = {
             id: c.id,
             session_name: c.session_name,
+            machine_id: c.machine_id ?? null,
+            user: c.user_name ?? null,
             file_count: c.files.length,
             intent: c.intent,
+            mode: c.mode,
             priority: getPriorityLevel(c.priority),
             created_at: c.created_at,
+            expires_at: c.expires_at ?? null,
           };
           if (detail) {
             row.files = c.files;
@@ -777,6 +1133,606 @@ export async function handleClaimTool(
       });
     }
 
+    case 'extend': {
+      const validation = validateInput(claimExtendSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+      const detail = input.detail ?? false;
+
+      const sessionResult = await validateActiveSession(db, input.session_id);
+      if (!sessionResult.valid) {
+        return sessionResult.error;
+      }
+      const config = parseSessionConfig(sessionResult.session);
+      const projectRoot = checkoutRoot(sessionResult.session);
+
+      let files: string[];
+      let symbols: SymbolClaim[] | undefined;
+      try {
+        const rawSymbols = input.symbols as SymbolClaim[] | undefined;
+        symbols = rawSymbols
+          ? (normalizeSymbolClaims(rawSymbols, projectRoot) as SymbolClaim[])
+          : undefined;
+        const symbolFiles = (symbols ?? []).map((symbol) => symbol.file);
+        files = normalizeClaimPaths([...(input.files ?? []), ...symbolFiles], projectRoot);
+      } catch (err) {
+        const message = err instanceof PathNormalizationError ? err.message : 'Invalid file path';
+        return validationError(message);
+      }
+
+      const indexRoot = symbolIndexRoot(sessionResult.session);
+      if (symbols && indexRoot) {
+        const resolved = await resolveSymbolClaims(indexRoot, symbols);
+        if (resolved.unknown.length > 0) {
+          return validationError(formatUnknownSymbols(resolved.unknown));
+        }
+        symbols = resolved.symbols;
+      }
+
+      return db.transaction(async () => {
+        const owned = await loadOwnActiveClaim(db, input.claim_id, input.session_id, 'extend');
+        if ('error' in owned) {
+          return owned.error;
+        }
+        const claim = owned.claim;
+
+        const { blocking: conflicts, readers } = splitByMode(
+          await checkConflicts(db, files, input.session_id, symbols, conflictScopeFor(sessionResult.session)),
+          claim.mode
+        );
+        const blockedFiles = uniqueBlockedFiles(conflicts);
+        const safeFiles = files.filter((file) => !isBlockedFile(file, blockedFiles));
+        const formattedConflicts = await formatConflicts(db, conflicts, detail);
+        const addable =
+          input.allow_conflicts ? files : config.mode === 'strict' && conflicts.length > 0 ? [] : safeFiles;
+
+        if (addable.length === 0) {
+          return successResponse(
+            compactConflictResponse({
+              success: false,
+              status: 'blocked_by_conflicts',
+              files,
+              blockedFiles,
+              safeFiles,
+              symbols,
+              conflicts: formattedConflicts,
+              recommendation: 'coordinate_before_editing',
+              detail,
+              message: `Claim not extended. ${conflicts.length} conflict(s) detected. Coordinate or pass allow_conflicts=true.`,
+            })
+          );
+        }
+
+        // A file already claimed whole stays whole; symbols only narrow files that are new or already symbol-level
+        const symbolFiles = new Set((await getClaimSymbols(db, claim.id)).map((symbol) => symbol.file));
+        const addableSymbols = (filterSafeSymbols(symbols, addable) ?? []).filter(
+          (symbol) => !claim.files.includes(symbol.file) || symbolFiles.has(symbol.file)
+        );
+        const added = await addClaimFiles(db, claim.id, addable, addableSymbols);
+        const allFiles = [...claim.files, ...added];
+
+        await logAuditEvent(db, {
+          session_id: input.session_id,
+          action: 'claim_extended',
+          entity_type: 'claim',
+          entity_id: claim.id,
+          metadata: {
+            files: addable,
+            new_value: addableSymbols.length > 0 ? addableSymbols : undefined,
+            ...(conflicts.length > 0 ? { conflicting_session_id: conflicts[0].session_id } : {}),
+          },
+        });
+        await saveClaimMemory(db, {
+          session_id: claim.session_id,
+          claim_id: claim.id,
+          intent: claim.intent,
+          files: allFiles,
+        });
+
+        const affectedReaders =
+          readers.length > 0
+            ? await notifyReadHolders(
+                db,
+                { session_id: input.session_id, claim_id: claim.id, intent: claim.intent, files: addable },
+                readers
+              )
+            : [];
+        const readHolders =
+          affectedReaders.length > 0 ? await formatConflicts(db, affectedReaders, detail) : undefined;
+
+        if (conflicts.length > 0) {
+          return successResponse(
+            compactConflictResponse({
+              success: true,
+              status: input.allow_conflicts ? 'extended_with_conflicts' : 'partially_extended',
+              claim_id: claim.id,
+              files,
+              blockedFiles,
+              safeFiles: addable,
+              symbols: addableSymbols,
+              conflicts: formattedConflicts,
+              read_holders: readHolders,
+              detail,
+              message: input.allow_conflicts
+                ? `Claim extended with ${conflicts.length} conflict(s). Coordinate before proceeding.`
+                : `Claim extended with safe files only. Not added: [${blockedFiles.join(', ')}].`,
+            })
+          );
+        }
+
+        return successResponse({
+          success: true,
+          claim_id: claim.id,
+          status: 'extended',
+          added_files: added,
+          file_count: allFiles.length,
+          ...(readHolders ? { read_holders: readHolders } : {}),
+          message: `Claim extended by ${addable.length} file(s).`,
+        });
+      });
+    }
+
+    case 'shrink': {
+      const validation = validateInput(claimShrinkSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const sessionResult = await validateActiveSession(db, input.session_id);
+      if (!sessionResult.valid) {
+        return sessionResult.error;
+      }
+
+      let files: string[];
+      try {
+        files = normalizeClaimPaths(input.files, checkoutRoot(sessionResult.session));
+      } catch (err) {
+        const message = err instanceof PathNormalizationError ? err.message : 'Invalid file path';
+        return validationError(message);
+      }
+
+      return db.transaction(async () => {
+        const owned = await loadOwnActiveClaim(db, input.claim_id, input.session_id, 'shrink');
+        if ('error' in owned) {
+          return owned.error;
+        }
+        const claim = owned.claim;
+        const subsetError = checkFileSubset(claim.files, files, 'release');
+        if (subsetError) {
+          return subsetError;
+        }
+
+        const notificationsSent = await notifyQueueOnClaimRelease(db, claim.id, input.session_id, files);
+        const filesRemaining = await removeClaimFiles(db, claim.id, files);
+
+        await logAuditEvent(db, {
+          session_id: input.session_id,
+          action: 'claim_released',
+          entity_type: 'claim',
+          entity_id: claim.id,
+          metadata: {
+            status: 'partial',
+            files,
+            partial: true,
+            files_remaining: filesRemaining,
+            ...(input.summary ? { reason: input.summary } : {}),
+          },
+        });
+        await saveClaimMemory(db, {
+          session_id: claim.session_id,
+          claim_id: claim.id,
+          intent: claim.intent,
+          files: claim.files.filter((file) => !files.includes(file)),
+        });
+
+        return successResponse({
+          success: true,
+          claim_id: claim.id,
+          status: 'shrunk',
+          released_files: files,
+          files_remaining: filesRemaining,
+          notifications_sent: notificationsSent,
+          message: `Released ${files.length} file(s); the claim keeps ${filesRemaining}.`,
+        });
+      });
+    }
+
+    case 'split': {
+      const validation = validateInput(claimSplitSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const sessionResult = await validateActiveSession(db, input.session_id);
+      if (!sessionResult.valid) {
+        return sessionResult.error;
+      }
+
+      let files: string[];
+      try {
+        files = normalizeClaimPaths(input.files, checkoutRoot(sessionResult.session));
+      } catch (err) {
+        const message = err instanceof PathNormalizationError ? err.message : 'Invalid file path';
+        return validationError(message);
+      }
+
+      return db.transaction(async () => {
+        const owned = await loadOwnActiveClaim(db, input.claim_id, input.session_id, 'split');
+        if ('error' in owned) {
+          return owned.error;
+        }
+        const claim = owned.claim;
+        const subsetError = checkFileSubset(claim.files, files, 'split off');
+        if (subsetError) {
+          return subsetError;
+        }
+
+        const successor = await splitClaim(db, claim.id, {
+          files,
+          intent: input.intent,
+          scope: input.scope,
+          priority: input.priority,
+        });
+        if (!successor) {
+          return errorResponse(ERROR_CODES.CLAIM_ALREADY_RELEASED, 'Claim is no longer active');
+        }
+        const remaining = claim.files.filter((file) => !files.includes(file));
+
+        await logAuditEvent(db, {
+          session_id: input.session_id,
+          action: 'claim_split',
+          entity_type: 'claim',
+          entity_id: claim.id,
+          metadata: { files, claim_id: successor.id, intent: input.intent, files_remaining: remaining.length },
+        });
+        await logAuditEvent(db, {
+          session_id: input.session_id,
+          action: 'claim_created',
+          entity_type: 'claim',
+          entity_id: successor.id,
+          metadata: { files, intent: input.intent, reason: `split from ${claim.id}` },
+        });
+        await saveClaimMemory(db, {
+          session_id: claim.session_id,
+          claim_id: claim.id,
+          intent: claim.intent,
+          files: remaining,
+        });
+        await saveClaimMemory(db, {
+          session_id: claim.session_id,
+          claim_id: successor.id,
+          intent: input.intent,
+          files,
+        });
+
+        return successResponse({
+          success: true,
+          claim_id: claim.id,
+          new_claim_id: successor.id,
+          status: 'split',
+          moved_files: files,
+          files_remaining: remaining.length,
+          message: `Moved ${files.length} file(s) to claim ${successor.id}.`,
+        });
+      });
+    }
+
+    case 'transfer': {
+      const validation = validateInput(claimTransferSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const sessionResult = await validateActiveSession(db, input.session_id);
+      if (!sessionResult.valid) {
+        return sessionResult.error;
+      }
+      const from = sessionResult.session;
+      if (input.target_session_id === input.session_id) {
+        return validationError('Cannot transfer claims to yourself');
+      }
+      const target = await getSession(db, input.target_session_id);
+      if (!target || target.status !== 'active') {
+        return errorResponse(ERROR_CODES.TARGET_SESSION_INVALID, 'Target session not found or inactive');
+      }
+      if (target.project_root !== from.project_root) {
+        return errorResponse(
+          ERROR_CODES.TARGET_SESSION_INVALID,
+          `Target session works in ${target.project_root}; claims can only move within ${from.project_root}.`
+        );
+      }
+      const fromName = from.name ?? from.id;
+      const targetName = target.name ?? target.id;
+
+      // Owner change, memory move and queue cleanup happen together so nobody can claim the files in between
+      return db.transaction(async () => {
+        let claims: ClaimWithFiles[];
+        if (input.claim_id) {
+          const owned = await loadOwnActiveClaim(db, input.claim_id, input.session_id, 'transfer');
+          if ('error' in owned) {
+            return owned.error;
+          }
+          claims = [owned.claim];
+        } else {
+          claims = await listClaims(db, { session_id: input.session_id, status: 'active' });
+          if (claims.length === 0) {
+            return errorResponse(ERROR_CODES.CLAIM_NOT_FOUND, 'No active claims to transfer');
+          }
+        }
+
+        const transferred: Array<Record<string, unknown>> = [];
+        let waitersNotified = 0;
+        for (const claim of claims) {
+          const moved = await transferClaim(db, claim.id, target.id);
+          if (!moved) {
+            continue;
+          }
+          // The target cannot wait on a claim it now holds
+          await leaveQueue(db, { session_id: target.id, claim_id: claim.id });
+
+          for (const waiter of await listQueue(db, { claim_id: claim.id })) {
+            await createNotification(db, {
+              session_id: waiter.session_id,
+              type: 'session_message',
+              title: 'Claim transferred',
+              message: `${fromName} transferred the claim on ${claim.files.join(', ')} to ${targetName}. You are still queued at position ${waiter.position}.`,
+              reference_type: 'claim',
+              reference_id: claim.id,
+              metadata: {
+                claim_id: claim.id,
+                files: claim.files,
+                queue_position: waiter.position,
+                from_session_id: from.id,
+                from_session_name: from.name ?? undefined,
+              },
+            });
+            waitersNotified++;
+          }
+
+          await logAuditEvent(db, {
+            session_id: input.session_id,
+            action: 'claim_transferred',
+            entity_type: 'claim',
+            entity_id: claim.id,
+            metadata: {
+              files: claim.files,
+              to_session_id: target.id,
+              to_session_name: target.name ?? undefined,
+              memory_count: moved.memory_moved,
+              ...(input.summary ? { reason: input.summary } : {}),
+            },
+          });
+
+          transferred.push({
+            claim_id: claim.id,
+            intent: claim.intent,
+            file_count: claim.files.length,
+            memory_moved: moved.memory_moved,
+          });
+        }
+
+        if (transferred.length > 0) {
+          await createNotification(db, {
+            session_id: target.id,
+            type: 'session_message',
+            title: 'Claims transferred to you',
+            message: `${fromName} transferred ${transferred.length} claim(s) to you${
+              input.summary ? `: ${input.summary}` : '.'
+            }`,
+            reference_type: 'claim',
+            reference_id: transferred[0].claim_id as string,
+            metadata: {
+              claim_id: transferred[0].claim_id as string,
+              files: claims.flatMap((claim) => claim.files),
+              from_session_id: from.id,
+              from_session_name: from.name ?? undefined,
+            },
+          });
+        }
+
+        return successResponse({
+          success: true,
+          transferred,
+          to_session_id: target.id,
+          to_session_name: target.name,
+          waiters_notified: waitersNotified,
+          message: `Transferred ${transferred.length} claim(s) to ${targetName}. Claim ids are unchanged.`,
+        });
+      });
+    }
+
+    case 'preempt': {
+      const validation = validateInput(claimPreemptSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const sessionResult = await validateActiveSession(db, input.session_id);
+      if (!sessionResult.valid) {
+        return sessionResult.error;
+      }
+
+      return db.transaction(async () => {
+        const claim = await getClaim(db, input.claim_id);
+        if (!claim) {
+          return errorResponse(ERROR_CODES.CLAIM_NOT_FOUND, 'Claim not found');
+        }
+        if (claim.status !== 'active') {
+          return errorResponse(ERROR_CODES.CLAIM_ALREADY_RELEASED, `Claim already ${claim.status}`);
+        }
+        if (claim.session_id === input.session_id) {
+          return errorResponse(ERROR_CODES.CANNOT_QUEUE_OWN_CLAIM, 'Cannot preempt your own claim');
+        }
+
+        const owner = await getSession(db, claim.session_id);
+        if (!owner || !parseSessionConfig(owner).allow_preemption) {
+          return errorResponse(
+            ERROR_CODES.PREEMPTION_NOT_ALLOWED,
+            `${claim.session_name ?? 'The owner'} does not allow preemption. Wait in the queue or coordinate directly.`
+          );
+        }
+
+        const [entry] = await listQueue(db, { claim_id: claim.id, session_id: input.session_id });
+        const priority = input.priority ?? entry?.priority ?? 50;
+        if (priority < CRITICAL_PRIORITY) {
+          return validationError(`preempt needs a critical claim (priority >= ${CRITICAL_PRIORITY}); got ${priority}`);
+        }
+        const intent = input.intent ?? entry?.intent;
+        if (!intent) {
+          return validationError('intent is required when you are not queued on this claim');
+        }
+
+        const [existing] = await listOpenPreemptRequests(db, {
+          claim_id: claim.id,
+          requester_session_id: input.session_id,
+        });
+        if (existing) {
+          return successResponse({
+            success: true,
+            preempt_id: existing.id,
+            claim_id: claim.id,
+            status: existing.status,
+            deadline_at: existing.deadline_at,
+            message: `Preempt already ${existing.status}.`,
+          });
+        }
+
+        // The claim moves to the requester through its queue entry, so make sure there is one
+        // and that it carries the critical priority
+        let deadlock: Record<string, unknown> | undefined;
+        if (entry) {
+          await raiseQueuePriority(db, entry.id, priority);
+        } else {
+          const queued = await joinQueue(db, { claim_id: claim.id, session_id: input.session_id, intent, priority });
+          await logAuditEvent(db, {
+            session_id: input.session_id,
+            action: 'queue_joined',
+            entity_type: 'queue',
+            entity_id: queued.id,
+            metadata: { claim_id: claim.id, files: claim.files, priority, conflicting_session_id: claim.session_id },
+          });
+          deadlock = await reportDeadlock(db, input.session_id, parseSessionConfig(sessionResult.session));
+        }
+
+        const deadlineMinutes = input.deadline_minutes ?? DEFAULT_PREEMPT_DEADLINE_MINUTES;
+        const request = await createPreemptRequest(db, {
+          claim_id: claim.id,
+          requester_session_id: input.session_id,
+          owner_session_id: claim.session_id,
+          intent,
+          priority,
+          deadline_at: new Date(Date.now() + deadlineMinutes * 60 * 1000).toISOString(),
+        });
+
+        await logAuditEvent(db, {
+          session_id: input.session_id,
+          action: 'preempt_requested',
+          entity_type: 'claim',
+          entity_id: claim.id,
+          metadata: {
+            preempt_id: request.id,
+            files: claim.files,
+            intent,
+            priority,
+            expires_at: request.deadline_at,
+            to_session_id: claim.session_id,
+          },
+        });
+
+        await createNotification(db, {
+          session_id: claim.session_id,
+          type: 'conflict_detected',
+          title: 'Preemption requested',
+          message: `${sessionResult.session.name ?? input.session_id} needs ${claim.files.join(', ')} for a critical change: ${intent}. Release the claim or acknowledge (collab_claim action=acknowledge preempt_id=${request.id}) before ${request.deadline_at}, or it moves to them.`,
+          reference_type: 'claim',
+          reference_id: claim.id,
+          metadata: {
+            claim_id: claim.id,
+            files: claim.files,
+            conflicting_session_id: input.session_id,
+            conflicting_session_name: sessionResult.session.name ?? undefined,
+            preempt_id: request.id,
+            deadline_at: request.deadline_at,
+          },
+        });
+
+        return successResponse({
+          success: true,
+          preempt_id: request.id,
+          claim_id: claim.id,
+          owner_session_id: claim.session_id,
+          owner_session_name: claim.session_name,
+          status: request.status,
+          deadline_at: request.deadline_at,
+          ...(deadlock ? { deadlock } : {}),
+          message: `Owner notified. The claim moves to you at ${request.deadline_at} unless it is acknowledged or released first.`,
+        });
+      });
+    }
+
+    case 'acknowledge': {
+      const validation = validateInput(claimAcknowledgeSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const request = await getPreemptRequest(db, input.preempt_id);
+      if (!request) {
+        return errorResponse(ERROR_CODES.PREEMPT_NOT_FOUND, 'Preempt request not found');
+      }
+      if (request.owner_session_id !== input.session_id) {
+        return errorResponse(ERROR_CODES.NOT_OWNER, 'Only the claim owner can acknowledge a preempt request');
+      }
+      if (!(await updatePreemptStatus(db, request.id, 'acknowledged', ['pending']))) {
+        return errorResponse(ERROR_CODES.PREEMPT_NOT_FOUND, `Preempt request already ${request.status}`);
+      }
+
+      await logAuditEvent(db, {
+        session_id: input.session_id,
+        action: 'preempt_acknowledged',
+        entity_type: 'claim',
+        entity_id: request.claim_id,
+        metadata: {
+          preempt_id: request.id,
+          to_session_id: request.requester_session_id,
+          ...(input.summary ? { reason: input.summary } : {}),
+        },
+      });
+
+      const owner = await getSession(db, input.session_id);
+      await createNotification(db, {
+        session_id: request.requester_session_id,
+        type: 'session_message',
+        title: 'Preemption acknowledged',
+        message: `${owner?.name ?? 'The owner'} acknowledged your preempt on claim ${request.claim_id} and will release it${
+          input.summary ? `: ${input.summary}` : '.'
+        }`,
+        reference_type: 'claim',
+        reference_id: request.claim_id,
+        metadata: {
+          claim_id: request.claim_id,
+          preempt_id: request.id,
+          from_session_id: input.session_id,
+          from_session_name: owner?.name ?? undefined,
+        },
+      });
+
+      return successResponse({
+        success: true,
+        preempt_id: request.id,
+        claim_id: request.claim_id,
+        status: 'acknowledged',
+        message: 'Acknowledged. The claim stays yours; release it when you reach a safe point.',
+      });
+    }
+
     default:
       return createToolResult(`Unknown action: ${action}`, true);
   }
@@ -1,13 +1,17 @@
-// Working Memory tools - Simplified to 3 core tools
+// Working Memory tools - save, recall, restore, clear, export and import
 
 import type { DatabaseAdapter } from '../../db/sqlite-adapter.js';
 import type { McpTool, McpToolResult } from '../protocol.js';
-import type { MemoryCategory } from '../../db/types.js';
+import type { MemoryCategory, MemoryRevision, MemoryScope, WorkingMemory, WorkingMemoryInput } from '../../db/types.js';
 import {
   saveMemory,
+  saveProjectMemory,
   recallMemory,
   clearMemory,
   getActiveMemories,
+  searchMemory,
+  listMemoryRevisions,
+  getMemoryRevision,
 } from '../../db/queries.js';
 import {
   errorResponse,
@@ -16,11 +20,18 @@ import {
   validateActiveSession,
   ERROR_CODES,
 } from '../../utils/response.js';
-import { resolveRecallMaxItems } from '../../utils/memory-content.js';
+import { resolveRecallMaxItems, toMemorySearchQuery } from '../../utils/memory-content.js';
+import { validateInput, memoryExportSchema, memoryImportSchema } from '../schemas.js';
+import { exportMemoryBundle, importMemoryBundle, renderMemoryMarkdown } from '../memory-bundle.js';
+import type { MemoryImportResult } from '../memory-bundle.js';
+import { describeBudget, fitToTokenBudget } from '../../utils/token-budget.js';
+import type { BudgetedMemory } from '../../utils/token-budget.js';
 import {
   MAX_MEMORY_CONTENT_CHARS,
   DEFAULT_RECALL_MAX_ITEMS,
   MAX_RECALL_MAX_ITEMS,
+  MAX_MEMORY_TOKEN_BUDGET,
+  MEMORY_REVISION_RETENTION_HOURS,
 } from '../../constants.js';
 
 export const memoryTools: McpTool[] = [
@@ -55,13 +66,28 @@ export const memoryTools: McpTool[] = [
           type: 'boolean',
           description: 'If true, always loaded when recalling active memories.',
         },
+        scope: {
+          type: 'string',
+          enum: ['session', 'project'],
+          description:
+            'session (default): yours only. project: shared with every session in your project_root and kept after you end',
+        },
+        expected_updated_at: {
+          type: 'string',
+          description:
+            'Project scope: updated_at of the version you read (from recall or a MEMORY_CONFLICT); the save conflicts only if the key changed since',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Project scope: replace the key whatever changed since you read it (otherwise MEMORY_CONFLICT)',
+        },
       },
       required: ['session_id', 'category', 'key', 'content'],
     },
   },
   {
     name: 'collab_memory_recall',
-    description: `Recall short working-memory notes. active=true returns pinned + high priority (default max ${DEFAULT_RECALL_MAX_ITEMS}).`,
+    description: `Recall short working-memory notes. active=true returns pinned + high priority (default max ${DEFAULT_RECALL_MAX_ITEMS}); query=... full-text searches keys and content, best matches first.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -82,9 +108,58 @@ export const memoryTools: McpTool[] = [
           type: 'string',
           description: 'Get a specific memory by key',
         },
+        scope: {
+          type: 'string',
+          enum: ['session', 'project'],
+          description: "Only your session's memories or only the project's shared ones (default: both)",
+        },
+        history: {
+          type: 'boolean',
+          description: `With key: the current value plus earlier versions kept for ${MEMORY_REVISION_RETENTION_HOURS}h (overwrites and clears)`,
+        },
+        query: {
+          type: 'string',
+          description: 'Free-text search (e.g. "migration runner"); returns ranked matches with **highlighted** snippets',
+        },
         max_items: {
           type: 'number',
-          description: `Max items for active recall (default ${DEFAULT_RECALL_MAX_ITEMS}, max ${MAX_RECALL_MAX_ITEMS})`,
+          description: `Max items for active recall or query (default ${DEFAULT_RECALL_MAX_ITEMS}, max ${MAX_RECALL_MAX_ITEMS})`,
+        },
+        max_tokens: {
+          type: 'number',
+          description: `Token budget for returned notes (estimated, max ${MAX_MEMORY_TOKEN_BUDGET}). Fills by pinned/priority/recency, shortens the last note that does not fit, reports the rest under budget.omitted`,
+        },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'collab_memory_restore',
+    description: `Roll a memory back to an earlier version or undelete a cleared one (kept ${MEMORY_REVISION_RETENTION_HOURS}h). The replaced value becomes a revision too, so a restore can be undone.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: {
+          type: 'string',
+          description: 'Your session ID',
+        },
+        key: {
+          type: 'string',
+          description: 'Memory key; restores its latest revision unless revision_id is given',
+        },
+        category: {
+          type: 'string',
+          enum: ['finding', 'decision', 'state', 'todo', 'important', 'context'],
+          description: 'Category of the key (when the same key exists in several)',
+        },
+        scope: {
+          type: 'string',
+          enum: ['session', 'project'],
+          description: 'Restore your own memory or a shared project memory (default: either)',
+        },
+        revision_id: {
+          type: 'number',
+          description: 'Specific revision from collab_memory_recall history=true',
         },
       },
       required: ['session_id'],
@@ -92,7 +167,7 @@ export const memoryTools: McpTool[] = [
   },
   {
     name: 'collab_memory_clear',
-    description: 'Clear memories. Specify key, category, or clear_all.',
+    description: 'Clear memories. Specify key, category, or clear_all (scope=project clears shared memories by key or category).',
     inputSchema: {
       type: 'object',
       properties: {
@@ -113,12 +188,124 @@ export const memoryTools: McpTool[] = [
           type: 'boolean',
           description: 'Clear ALL memories (use with caution)',
         },
+        scope: {
+          type: 'string',
+          enum: ['session', 'project'],
+          description: 'project: clear shared project memories instead of your own (default: session)',
+        },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'collab_memory_export',
+    description: 'Export memories grouped by category, pinned first: Markdown for PR descriptions and handoff docs, or a versioned JSON bundle for collab_memory_import.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: {
+          type: 'string',
+          description: 'Your session ID',
+        },
+        scope: {
+          type: 'string',
+          enum: ['session', 'project'],
+          description: 'session: your own memories (default). project: shared project memories.',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'json'],
+          description: 'Output format (default: markdown)',
+        },
       },
       required: ['session_id'],
     },
   },
+  {
+    name: 'collab_memory_import',
+    description: 'Import a JSON bundle from collab_memory_export. Idempotent on (category, key): unchanged notes are skipped, changed ones updated.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: {
+          type: 'string',
+          description: 'Your session ID',
+        },
+        bundle: {
+          type: 'object',
+          description: 'Bundle with format "session-collab-memory", version and memories',
+        },
+        scope: {
+          type: 'string',
+          enum: ['session', 'project'],
+          description: "Import into your own or the project's shared memories (default: the bundle's scope)",
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Project scope: replace keys another session wrote last (default: report them as conflicts)',
+        },
+      },
+      required: ['session_id', 'bundle'],
+    },
+  },
 ];
 
+function parseScope(value: unknown): MemoryScope | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value === 'session' || value === 'project' ? value : null;
+}
+
+/** Recall row; project memories are marked and say who wrote them last. */
+function formatMemory(m: WorkingMemory): Record<string, unknown> {
+  return {
+    category: m.category,
+    key: m.key,
+    content: m.content,
+    priority: m.priority,
+    pinned: m.pinned === 1,
+    ...(m.scope === 'project' ? { scope: 'project', updated_by: m.updated_by, updated_at: m.updated_at } : {}),
+  };
+}
+
+function formatRevision(revision: MemoryRevision): Record<string, unknown> {
+  return {
+    revision_id: revision.id,
+    category: revision.category,
+    content: revision.content,
+    priority: revision.priority,
+    pinned: revision.pinned === 1,
+    change: revision.change,
+    changed_by: revision.changed_by,
+    changed_at: revision.changed_at,
+    ...(revision.scope === 'project' ? { scope: 'project' } : {}),
+  };
+}
+
+function parseMetadata(metadata: string | null): Record<string, unknown> | undefined {
+  if (!metadata) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(metadata) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Apply an optional max_tokens budget; `budget` is only set when one was asked for. */
+function applyBudget<T extends BudgetedMemory>(
+  memories: T[],
+  maxTokens: number | undefined
+): { items: T[]; budget?: Record<string, unknown> } {
+  if (maxTokens === undefined) {
+    return { items: memories };
+  }
+  const fit = fitToTokenBudget(memories, maxTokens);
+  return { items: fit.items, budget: describeBudget(maxTokens, fit) };
+}
+
 export async function handleMemoryTool(
   db: DatabaseAdapter,
   name: string,
@@ -136,6 +323,11 @@ export async function handleMemoryTool(
     return sessionCheck.error!;
   }
 
+  const scope = parseScope(args.scope);
+  if (scope === null) {
+    return validationError("scope must be 'session' or 'project'");
+  }
+
   switch (name) {
     case 'collab_memory_save': {
       const category = args.category as MemoryCategory;
@@ -154,13 +346,48 @@ export async function handleMemoryTool(
         );
       }
 
-      const memory = await saveMemory(db, sessionId, {
+      const input = {
         category,
         key,
         content,
         priority: (args.priority as number) ?? 50,
         pinned: (args.pinned as boolean) ?? false,
-      });
+      };
+
+      if (scope === 'project') {
+        const { memory, conflict } = await saveProjectMemory(
+          db,
+          sessionId,
+          sessionCheck.session.project_root,
+          input,
+          {
+            overwrite: args.overwrite as boolean | undefined,
+            expected_updated_at: args.expected_updated_at as string | undefined,
+          }
+        );
+        if (conflict) {
+          return errorResponse(
+            ERROR_CODES.MEMORY_CONFLICT,
+            `Project memory ${category}/${key} changed since you read it. Merge with the current version and save again with its updated_at as expected_updated_at, or with overwrite=true.`,
+            { current: formatMemory(memory), updated_at: memory.updated_at }
+          );
+        }
+
+        return successResponse({
+          saved: true,
+          id: memory.id,
+          scope: 'project',
+          category: memory.category,
+          key: memory.key,
+          priority: memory.priority,
+          pinned: memory.pinned === 1,
+          updated_at: memory.updated_at,
+          content_length: content.length,
+          message: `Project memory saved: ${category}/${key}`,
+        });
+      }
+
+      const memory = await saveMemory(db, sessionId, input);
 
       return successResponse({
         saved: true,
@@ -178,56 +405,149 @@ export async function handleMemoryTool(
       const active = args.active as boolean | undefined;
       const category = args.category as MemoryCategory | undefined;
       const key = args.key as string | undefined;
+      const query = args.query as string | undefined;
       const maxItems = resolveRecallMaxItems(args.max_items as number | undefined);
+      const maxTokens = args.max_tokens as number | undefined;
+      if (
+        maxTokens !== undefined &&
+        (!Number.isInteger(maxTokens) || maxTokens < 0 || maxTokens > MAX_MEMORY_TOKEN_BUDGET)
+      ) {
+        return validationError(`max_tokens must be an integer from 0 to ${MAX_MEMORY_TOKEN_BUDGET}`);
+      }
 
-      // If active=true, use getActiveMemories for optimized recall
-      if (active) {
-        const memories = await getActiveMemories(db, sessionId, {
-          priority_threshold: 70,
+      if (args.history) {
+        if (!key) {
+          return validationError('history requires key');
+        }
+        const current = await recallMemory(db, sessionId, { category, key, scope });
+        const revisions = await listMemoryRevisions(db, sessionId, { key, category, scope, limit: maxItems });
+
+        return successResponse({
+          key,
+          current: current.map(formatMemory),
+          revisions: revisions.map(formatRevision),
+          retention_hours: MEMORY_REVISION_RETENTION_HOURS,
+          message: `${revisions.length} earlier version(s) of ${key}. Roll back with collab_memory_restore.`,
+        });
+      }
+
+      if (query !== undefined) {
+        const match = toMemorySearchQuery(String(query));
+        if (!match) {
+          return validationError('query must contain at least one word');
+        }
+
+        const matches =
+          maxItems > 0 ? await searchMemory(db, sessionId, { match, category, scope, limit: maxItems }) : [];
+        const { items, budget } = applyBudget(
+          matches.map((m) => ({ ...m, content: m.snippet })),
+          maxTokens
+        );
+
+        // Snippets instead of full content; recall by key for the whole note
+        return successResponse({
+          count: items.length,
           max_items: maxItems,
+          query,
+          matches: items.map((m) => ({
+            category: m.category,
+            key: m.key,
+            snippet: m.content,
+            priority: m.priority,
+            pinned: m.pinned === 1,
+            ...(m.scope === 'project' ? { scope: 'project', updated_by: m.updated_by } : {}),
+          })),
+          ...(budget ? { budget } : {}),
         });
+      }
 
-        const formatted = memories.map((m) => ({
-          category: m.category,
-          key: m.key,
-          content: m.content,
-          priority: m.priority,
-          pinned: m.pinned === 1,
-        }));
+      // If active=true, use getActiveMemories for optimized recall
+      if (active) {
+        const { items: memories, budget } = applyBudget(
+          await getActiveMemories(db, sessionId, {
+            priority_threshold: 70,
+            max_items: maxItems,
+          }),
+          maxTokens
+        );
 
         // Group by category
-        const byCategory: Record<string, Array<{ key: string; content: string }>> = {};
-        for (const mem of formatted) {
+        const byCategory: Record<string, Array<{ key: string; content: string; scope?: 'project' }>> = {};
+        for (const mem of memories) {
           if (!byCategory[mem.category]) {
             byCategory[mem.category] = [];
           }
-          byCategory[mem.category].push({ key: mem.key, content: mem.content });
+          byCategory[mem.category].push({
+            key: mem.key,
+            content: mem.content,
+            ...(mem.scope === 'project' ? { scope: 'project' as const } : {}),
+          });
         }
 
         return successResponse({
-          count: formatted.length,
+          count: memories.length,
           max_items: maxItems,
           by_category: byCategory,
-          message: `Active memories: ${formatted.length} items`,
+          ...(budget ? { budget } : {}),
+          message: `Active memories: ${memories.length} items`,
         });
       }
 
       // Regular recall — still cap to avoid huge dumps
-      const memories = await recallMemory(db, sessionId, { category, key });
-      const limited = key ? memories : memories.slice(0, maxItems);
+      const memories = await recallMemory(db, sessionId, { category, key, scope });
+      const { items, budget } = applyBudget(key ? memories : memories.slice(0, maxItems), maxTokens);
 
-      const formatted = limited.map((m) => ({
-        category: m.category,
-        key: m.key,
-        content: m.content,
-        priority: m.priority,
-        pinned: m.pinned === 1,
-      }));
+      const formatted = items.map(formatMemory);
 
       return successResponse({
         count: formatted.length,
         max_items: maxItems,
         memories: formatted,
+        ...(budget ? { budget } : {}),
+      });
+    }
+
+    case 'collab_memory_restore': {
+      const key = args.key as string | undefined;
+      const category = args.category as MemoryCategory | undefined;
+      const revisionId = args.revision_id as number | undefined;
+
+      if (!key && revisionId === undefined) {
+        return validationError('key or revision_id is required');
+      }
+
+      const revision =
+        revisionId !== undefined
+          ? await getMemoryRevision(db, sessionId, revisionId)
+          : ((await listMemoryRevisions(db, sessionId, { key: key!, category, scope, limit: 1 }))[0] ?? null);
+      if (!revision || (key && revision.key !== key)) {
+        return errorResponse(
+          ERROR_CODES.MEMORY_NOT_FOUND,
+          `No earlier version of ${key ?? `revision ${revisionId}`} from the last ${MEMORY_REVISION_RETENTION_HOURS} hours`
+        );
+      }
+
+      const input: WorkingMemoryInput = {
+        category: revision.category,
+        key: revision.key,
+        content: revision.content,
+        priority: revision.priority ?? 50,
+        pinned: revision.pinned === 1,
+        metadata: parseMetadata(revision.metadata),
+      };
+      // Restoring is an explicit choice, so it may replace another session's project write
+      const memory =
+        revision.scope === 'project'
+          ? (await saveProjectMemory(db, sessionId, sessionCheck.session.project_root, input, { overwrite: true }))
+              .memory
+          : await saveMemory(db, sessionId, input);
+
+      return successResponse({
+        restored: true,
+        revision_id: revision.id,
+        change: revision.change === 'deleted' ? 'undeleted' : 'rolled_back',
+        memory: formatMemory(memory),
+        message: `${revision.change === 'deleted' ? 'Undeleted' : 'Rolled back'} ${revision.category}/${revision.key} to its version from ${revision.changed_at}.`,
       });
     }
 
@@ -239,11 +559,15 @@ export async function handleMemoryTool(
       if (!key && !category && !clearAll) {
         return validationError('One of key, category, or clear_all is required');
       }
+      if (scope === 'project' && !key && !category) {
+        return validationError('Project memories are cleared by key or category, not clear_all');
+      }
 
       const cleared = await clearMemory(db, sessionId, {
         key,
         category,
         clear_all: clearAll,
+        scope,
       });
 
       let message: string;
@@ -258,6 +582,43 @@ export async function handleMemoryTool(
       return successResponse({ cleared, message });
     }
 
+    case 'collab_memory_export': {
+      const validation = validateInput(memoryExportSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const bundle = await exportMemoryBundle(db, sessionCheck.session, input.scope ?? 'session');
+      if (input.format === 'json') {
+        return successResponse({ bundle, count: bundle.memories.length });
+      }
+      return successResponse({ markdown: renderMemoryMarkdown(bundle), count: bundle.memories.length });
+    }
+
+    case 'collab_memory_import': {
+      const validation = validateInput(memoryImportSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      let result: MemoryImportResult;
+      try {
+        result = await importMemoryBundle(db, sessionCheck.session, input.bundle, {
+          scope: input.scope,
+          overwrite: input.overwrite,
+        });
+      } catch (error) {
+        return validationError(error instanceof Error ? error.message : String(error));
+      }
+
+      return successResponse({
+        ...result,
+        message: `Imported ${input.bundle.memories.length} memories: ${result.created.length} created, ${result.updated.length} updated, ${result.unchanged.length} unchanged${result.conflicts.length > 0 ? `, ${result.conflicts.length} conflict(s) left as they are` : ''}.`,
+      });
+    }
+
     default:
       return errorResponse(ERROR_CODES.UNKNOWN_TOOL, `Unknown memory tool: ${name}`);
   }
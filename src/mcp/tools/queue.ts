@@ -0,0 +1,288 @@
+// Claim queue tool: see, leave and reorder the waiters on a claim, and hand a claim to the next waiter
+
+import type { DatabaseAdapter } from '../../db/sqlite-adapter.js';
+import type { McpTool, McpToolResult } from '../protocol.js';
+import type { QueueEntryWithDetails } from '../../db/types.js';
+import {
+  getClaim,
+  getSession,
+  leaveQueue,
+  listQueue,
+  logAuditEvent,
+  promoteQueueEntry,
+} from '../../db/queries.js';
+import {
+  validateInput,
+  queueListSchema,
+  queueLeaveSchema,
+  queuePromoteSchema,
+  queueHandoffSchema,
+} from '../schemas.js';
+import {
+  errorResponse,
+  successResponse,
+  validationError,
+  validateActiveSession,
+  ERROR_CODES,
+} from '../../utils/response.js';
+import { handOffClaim, runClaimSweeps } from '../claim-lifecycle.js';
+import { DEFAULT_STALE_SESSION_MINUTES } from '../../constants.js';
+
+export const queueTools: McpTool[] = [
+  {
+    name: 'collab_queue',
+    description: `Claim queue (sessions blocked by collab_claim create wait here). Use action parameter to:
+- "list": Your queue positions and the waiters on your claims (or one claim's queue with claim_id)
+- "leave": Stop waiting on a claim (all claims when claim_id is omitted)
+- "promote": Owner moves a waiter to the head of the queue
+- "handoff": Owner releases the claim and the head of the queue (or target_session_id) gets it atomically`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'leave', 'promote', 'handoff'],
+          description: 'Action to perform',
+        },
+        session_id: {
+          type: 'string',
+          description: 'Your session ID',
+        },
+        claim_id: {
+          type: 'string',
+          description: 'Claim whose queue to act on (required for promote/handoff)',
+        },
+        target_session_id: {
+          type: 'string',
+          description: 'Waiting session to promote (promote) or hand off to (handoff; default: head of queue)',
+        },
+        summary: {
+          type: 'string',
+          description: 'Release summary recorded on the handed-off claim (for handoff)',
+        },
+      },
+      required: ['action', 'session_id'],
+    },
+  },
+];
+
+/** Queue rows in priority order, numbered 1..n within each claim. */
+function formatQueue(entries: QueueEntryWithDetails[]): Array<Record<string, unknown>> {
+  const ranks = new Map<string, number>();
+  return entries.map((entry) => {
+    const position = (ranks.get(entry.claim_id) ?? 0) + 1;
+    ranks.set(entry.claim_id, position);
+    return {
+      queue_id: entry.id,
+      claim_id: entry.claim_id,
+      session_id: entry.session_id,
+      session_name: entry.session_name,
+      position,
+      priority: entry.priority,
+      intent: entry.intent,
+      estimated_wait_minutes: entry.estimated_wait_minutes,
+      files: entry.claim_files,
+      owner_session_id: entry.owner_session_id,
+      owner_session_name: entry.claim_session_name,
+    };
+  });
+}
+
+export async function handleQueueTool(
+  db: DatabaseAdapter,
+  name: string,
+  args: Record<string, unknown>
+): Promise<McpToolResult> {
+  if (name !== 'collab_queue') {
+    return errorResponse(ERROR_CODES.UNKNOWN_TOOL, `Unknown tool: ${name}`);
+  }
+
+  const action = args.action as string;
+  const sessionId = args.session_id as string;
+
+  if (!action || !sessionId) {
+    return validationError('action and session_id are required');
+  }
+
+  const sessionCheck = await validateActiveSession(db, sessionId);
+  if (!sessionCheck.valid) {
+    return sessionCheck.error;
+  }
+
+  // Lapsed leases, due releases and preempt deadlines must not show up as claims to wait on or hand off
+  await runClaimSweeps(db);
+
+  switch (action) {
+    case 'list': {
+      const validation = validateInput(queueListSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      if (input.claim_id) {
+        const queue = formatQueue(await listQueue(db, { claim_id: input.claim_id }));
+        return successResponse({ claim_id: input.claim_id, queue, total: queue.length });
+      }
+
+      // Positions are relative to each claim's whole queue, not just this session's entries
+      const waiting: Array<Record<string, unknown>> = [];
+      for (const entry of await listQueue(db, { session_id: input.session_id })) {
+        const row = formatQueue(await listQueue(db, { claim_id: entry.claim_id })).find(
+          (candidate) => candidate.queue_id === entry.id
+        );
+        if (row) {
+          waiting.push(row);
+        }
+      }
+      const waiters = formatQueue(await listQueue(db, { owner_session_id: input.session_id }));
+
+      return successResponse({
+        waiting,
+        waiters,
+        message: `Waiting on ${waiting.length} claim(s); ${waiters.length} session(s) waiting on yours.`,
+      });
+    }
+
+    case 'leave': {
+      const validation = validateInput(queueLeaveSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const removed = await leaveQueue(db, { session_id: input.session_id, claim_id: input.claim_id });
+      if (input.claim_id && removed.length === 0) {
+        return errorResponse(ERROR_CODES.QUEUE_ENTRY_NOT_FOUND, 'Not waiting on this claim');
+      }
+
+      for (const entry of removed) {
+        await logAuditEvent(db, {
+          session_id: input.session_id,
+          action: 'queue_left',
+          entity_type: 'queue',
+          entity_id: entry.id,
+          metadata: { claim_id: entry.claim_id, position: entry.position },
+        });
+      }
+
+      return successResponse({
+        success: true,
+        left: removed.map((entry) => entry.claim_id),
+        message: `Left ${removed.length} queue(s).`,
+      });
+    }
+
+    case 'promote': {
+      const validation = validateInput(queuePromoteSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const claim = await getClaim(db, input.claim_id);
+      if (!claim) {
+        return errorResponse(ERROR_CODES.CLAIM_NOT_FOUND, 'Claim not found');
+      }
+      if (claim.session_id !== input.session_id) {
+        return errorResponse(
+          ERROR_CODES.NOT_OWNER,
+          `Not your claim. Owner: ${claim.session_name}. Only the owner can reorder its queue.`
+        );
+      }
+      if (claim.status !== 'active') {
+        return errorResponse(ERROR_CODES.CLAIM_ALREADY_RELEASED, `Claim already ${claim.status}`);
+      }
+
+      const promoted = await promoteQueueEntry(db, {
+        claim_id: input.claim_id,
+        session_id: input.target_session_id,
+      });
+      if (!promoted) {
+        return errorResponse(ERROR_CODES.QUEUE_ENTRY_NOT_FOUND, 'Target session is not waiting on this claim');
+      }
+
+      await logAuditEvent(db, {
+        session_id: input.session_id,
+        action: 'queue_promoted',
+        entity_type: 'queue',
+        entity_id: promoted.id,
+        metadata: { claim_id: input.claim_id, to_session_id: input.target_session_id, position: 1 },
+      });
+
+      return successResponse({
+        success: true,
+        claim_id: input.claim_id,
+        queue: formatQueue(await listQueue(db, { claim_id: input.claim_id })),
+        message: 'Session moved to the head of the queue.',
+      });
+    }
+
+    case 'handoff': {
+      const validation = validateInput(queueHandoffSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      // Release and re-create under one write lock so no other session can claim the files in between
+      return db.transaction(async () => {
+        const claim = await getClaim(db, input.claim_id);
+        if (!claim) {
+          return errorResponse(ERROR_CODES.CLAIM_NOT_FOUND, 'Claim not found');
+        }
+        if (claim.session_id !== input.session_id) {
+          return errorResponse(
+            ERROR_CODES.NOT_OWNER,
+            `Not your claim. Owner: ${claim.session_name}. Only the owner can hand it off.`
+          );
+        }
+        if (claim.status !== 'active') {
+          return errorResponse(ERROR_CODES.CLAIM_ALREADY_RELEASED, `Claim already ${claim.status}`);
+        }
+
+        // A waiter that stopped heartbeating would get a claim nobody works on; it keeps its place
+        const staleBefore = new Date(Date.now() - DEFAULT_STALE_SESSION_MINUTES * 60 * 1000).toISOString();
+        if (input.target_session_id) {
+          const targetSession = await getSession(db, input.target_session_id);
+          if (!targetSession || targetSession.status !== 'active' || targetSession.last_heartbeat < staleBefore) {
+            return errorResponse(ERROR_CODES.TARGET_SESSION_INVALID, 'Target session not found or inactive');
+          }
+        }
+
+        const queue = (await listQueue(db, { claim_id: input.claim_id })).filter(
+          (entry) => entry.session_last_heartbeat >= staleBefore
+        );
+        const target = input.target_session_id
+          ? queue.find((entry) => entry.session_id === input.target_session_id)
+          : queue[0];
+        if (!target) {
+          return errorResponse(
+            ERROR_CODES.QUEUE_ENTRY_NOT_FOUND,
+            input.target_session_id
+              ? 'Target session is not waiting on this claim'
+              : 'No active session is waiting on this claim'
+          );
+        }
+        const { successor, waiters_remaining } = await handOffClaim(db, {
+          claim,
+          target,
+          summary: input.summary,
+        });
+
+        return successResponse({
+          success: true,
+          claim_id: claim.id,
+          new_claim_id: successor.id,
+          handed_off_to: { session_id: target.session_id, session_name: target.session_name },
+          file_count: claim.files.length,
+          waiters_remaining,
+          message: `Claim handed off to ${target.session_name ?? target.session_id}.`,
+        });
+      });
+    }
+
+    default:
+      return errorResponse(ERROR_CODES.UNKNOWN_TOOL, `Unknown action: ${action}`);
+  }
+}
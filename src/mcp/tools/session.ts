@@ -15,18 +15,27 @@ import {
   endSession,
   cleanupStaleSessions,
   cleanupStaleClaims,
+  expireClaimLeases,
   listClaims,
   listQueue,
+  listOpenPreemptRequests,
   logAuditEvent,
   removeSessionFromAllQueues,
   getActiveMemories,
   recallMemory,
   saveMemory,
   getSession,
+  checkConflicts,
+  listResumableClaims,
+  reviveClaim,
+  transferClaim,
+  adoptSessionState,
+  pruneMemoryRevisions,
 } from '../../db/queries.js';
-import { bindClientSession } from '../../db/client-map.js';
+import { bindClientSession, lookupCollabSessionId } from '../../db/client-map.js';
+import { describeBudget, fitToTokenBudget } from '../../utils/token-budget.js';
 import { getDefaultDbPath } from '../../db/db-path.js';
-import type { QueueEntryWithDetails, SessionConfig } from '../../db/types.js';
+import type { PreemptRequest, QueueEntryWithDetails, Session, SessionConfig, TodoItem } from '../../db/types.js';
 import { DEFAULT_SESSION_CONFIG } from '../../db/types.js';
 import {
   validateInput,
@@ -36,6 +45,7 @@ import {
   configSchema,
   statusUpdateSchema,
   statusSchema,
+  sessionHandoffSchema,
 } from '../schemas.js';
 import {
   errorResponse,
@@ -48,6 +58,8 @@ import {
 import { getPriorityLevel } from '../../db/types.js';
 import { DEFAULT_STALE_SESSION_MINUTES } from '../../constants.js';
 import { normalizeProjectRoot, PathNormalizationError } from '../../utils/paths.js';
+import { detectGitCheckout } from '../../utils/git.js';
+import { detectDeadlock, formatDeadlock } from '../../utils/deadlock.js';
 
 function parseJsonField<T>(value: string | null): T | null {
   if (!value) return null;
@@ -89,6 +101,91 @@ function formatOutgoingCoordination(entry: QueueEntryWithDetails): Record<string
   };
 }
 
+/** Resolve resume_from: a session id, or a client_session_id bound in client-map.json. */
+async function findResumeSource(
+  db: DatabaseAdapter,
+  resumeFrom: string
+): Promise<{ session: Session; via_client_id: boolean } | null> {
+  const direct = await getSession(db, resumeFrom);
+  if (direct) {
+    return { session: direct, via_client_id: false };
+  }
+  const mappedId = lookupCollabSessionId(resumeFrom);
+  const mapped = mappedId ? await getSession(db, mappedId) : null;
+  return mapped ? { session: mapped, via_client_id: true } : null;
+}
+
+/** A session started with a user token acts only for that user; anonymous callers cannot take it over. */
+function checkSessionUser(session: Session, userId: string | undefined): McpToolResult | null {
+  if (session.user_id && session.user_id !== userId) {
+    return errorResponse(ERROR_CODES.NOT_OWNER, 'That session belongs to another user.');
+  }
+  return null;
+}
+
+/** Inactive, or still marked active but without a heartbeat for the stale-session window. */
+function isResumable(session: Session): boolean {
+  const staleBefore = new Date(Date.now() - DEFAULT_STALE_SESSION_MINUTES * 60 * 1000).toISOString();
+  return session.status === 'inactive' || (session.status === 'active' && session.last_heartbeat < staleBefore);
+}
+
+/**
+ * Move `from`'s claims, memories, queue places and todos to `to`, then end `from`.
+ * Claims abandoned by stale-session cleanup are revived unless a write claim has taken their files since.
+ */
+async function resumeSession(db: DatabaseAdapter, from: Session, to: Session): Promise<Record<string, unknown>> {
+  return db.transaction(async () => {
+    const adopted: string[] = [];
+    const lost: Array<Record<string, unknown>> = [];
+
+    for (const claim of await listResumableClaims(db, from.id)) {
+      if (claim.status !== 'active') {
+        const conflicts = await checkConflicts(db, claim.files, from.id, undefined, { project_root: from.project_root });
+        const blocking = conflicts.filter((conflict) => conflict.session_id !== to.id && conflict.claim_mode === 'write');
+        if (blocking.length > 0) {
+          lost.push({
+            claim_id: claim.id,
+            intent: claim.intent,
+            files: claim.files,
+            taken_by: Array.from(new Set(blocking.map((conflict) => conflict.session_name ?? conflict.session_id))),
+          });
+          continue;
+        }
+        await reviveClaim(db, claim.id);
+      }
+      if (await transferClaim(db, claim.id, to.id)) {
+        adopted.push(claim.id);
+      }
+    }
+
+    const state = await adoptSessionState(db, from.id, to.id);
+    await removeSessionFromAllQueues(db, from.id);
+    await endSession(db, from.id);
+
+    await logAuditEvent(db, {
+      session_id: to.id,
+      action: 'session_resumed',
+      entity_type: 'session',
+      entity_id: to.id,
+      metadata: {
+        reason: `resumed from ${from.id}`,
+        memory_count: state.memories,
+        new_value: adopted,
+        ...(lost.length > 0 ? { old_value: lost.map((claim) => claim.claim_id) } : {}),
+      },
+    });
+
+    return {
+      session_id: from.id,
+      name: from.name,
+      claims_adopted: adopted,
+      claims_lost: lost,
+      memories_adopted: state.memories,
+      queue_entries_adopted: state.queue_entries,
+    };
+  });
+}
+
 export const sessionTools: McpTool[] = [
   {
     name: 'collab_session_start',
@@ -114,6 +211,11 @@ export const sessionTools: McpTool[] = [
           type: 'number',
           description: 'Max restored memories when restore_context is true (0-15, default 5).',
         },
+        max_tokens: {
+          type: 'number',
+          description:
+            'Token budget for restored memories (estimated). Fills by priority, shortens the last one that does not fit; the rest are listed in restore_budget.omitted.',
+        },
         reuse: {
           type: 'boolean',
           description: 'Reuse active session with same project_root + name. Default true.',
@@ -126,10 +228,52 @@ export const sessionTools: McpTool[] = [
           type: 'string',
           description: 'Host session id (Claude Code hook session_id) for PreToolUse claim checks.',
         },
+        branch: {
+          type: 'string',
+          description: 'Git branch. Detected from the checkout when omitted.',
+        },
+        worktree: {
+          type: 'string',
+          description:
+            'Checkout path of a separate git worktree. Worktrees of one repository share a project; detected when project_root is a linked worktree.',
+        },
+        resume_from: {
+          type: 'string',
+          description:
+            'Session id (or client_session_id) of a crashed or replaced agent in this project. Its claims, memories, queue places and todos move to the new session, which then ends the old one.',
+        },
+        project_key: {
+          type: 'string',
+          description:
+            'Path-independent project identity (e.g. github.com/acme/app), set by hub clients. project_root is then only the local checkout path.',
+        },
       },
       required: ['project_root'],
     },
   },
+  {
+    name: 'collab_session_handoff',
+    description:
+      'Compact handoff bundle for the next agent: open todos, claims, queue places, key memories and the collab_session_start arguments to resume. Works on inactive sessions too.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: {
+          type: 'string',
+          description: 'Session to hand off (yours, or a stale one)',
+        },
+        note: {
+          type: 'string',
+          description: 'Handover note, saved as a pinned state memory that moves with the session on resume',
+        },
+        max_memories: {
+          type: 'number',
+          description: 'Max memories in the bundle (0-30, default 10)',
+        },
+      },
+      required: ['session_id'],
+    },
+  },
   {
     name: 'collab_session_end',
     description: 'End session and release all claims.',
@@ -223,6 +367,23 @@ export const sessionTools: McpTool[] = [
           type: 'boolean',
           description: 'Allow releasing other sessions claims',
         },
+        auto_release_immediate: {
+          type: 'boolean',
+          description: 'Release your claim on a file after a successful Write/Edit (PostToolUse hook)',
+        },
+        auto_release_delay_minutes: {
+          type: 'number',
+          description: 'Grace period before the post-edit release; 0 releases right away',
+        },
+        deadlock_resolution: {
+          type: 'string',
+          enum: ['lowest_priority', 'youngest_claim'],
+          description: 'Who yields when sessions wait on each other: lowest-priority claim (default) or most recent claim',
+        },
+        allow_preemption: {
+          type: 'boolean',
+          description: 'Let critical (priority 90+) waiters take your claims when a preempt deadline passes unanswered',
+        },
       },
       required: ['session_id'],
     },
@@ -263,16 +424,66 @@ export async function handleSessionTool(
       const input = validation.data;
 
       let projectRoot: string;
+      let worktree: string | null;
       try {
         projectRoot = normalizeProjectRoot(input.project_root);
+        worktree = input.worktree ? normalizeProjectRoot(input.worktree) : null;
       } catch (err) {
         const message = err instanceof PathNormalizationError ? err.message : 'Invalid project_root';
         return validationError(message);
       }
 
-      // Cleanup stale sessions and claims
+      let branch: string | null;
+      if (input.project_key) {
+        // Proxied through a hub: the checkout is on the client's machine, so never probe it here.
+        // The key is the project and the client's checkout path resolves claim paths.
+        worktree = worktree ?? projectRoot;
+        projectRoot = input.project_key;
+        branch = input.branch ?? null;
+      } else {
+        // Worktrees of one repository share the main worktree's project_root
+        const checkout = await detectGitCheckout(worktree ?? projectRoot);
+        if (checkout) {
+          projectRoot = checkout.project_root;
+          worktree = checkout.worktree;
+        } else if (worktree === projectRoot) {
+          worktree = null;
+        }
+        branch = input.branch ?? checkout?.branch ?? null;
+      }
+
+      const resumeSource = input.resume_from ? await findResumeSource(db, input.resume_from) : null;
+      if (input.resume_from) {
+        if (!resumeSource) {
+          return errorResponse(
+            ERROR_CODES.SESSION_NOT_FOUND,
+            `resume_from matches no session or client_session_id: ${input.resume_from}`
+          );
+        }
+        const source = resumeSource.session;
+        if (source.project_root !== projectRoot) {
+          return validationError(`Session ${source.id} works in ${source.project_root}, not ${projectRoot}`);
+        }
+        if (source.status === 'terminated') {
+          return errorResponse(ERROR_CODES.SESSION_INVALID, 'That session has ended and released its claims; nothing to resume.');
+        }
+        const ownerError = checkSessionUser(source, userId);
+        if (ownerError) {
+          return ownerError;
+        }
+        if (!isResumable(source)) {
+          return errorResponse(
+            ERROR_CODES.SESSION_INVALID,
+            `Session ${source.name ?? source.id} is still active (last heartbeat ${source.last_heartbeat}). Only inactive sessions, or ones silent for ${DEFAULT_STALE_SESSION_MINUTES} minutes, can be resumed.`
+          );
+        }
+      }
+
+      // Cleanup stale sessions, claims, lapsed leases and old memory revisions
       await cleanupStaleSessions(db, DEFAULT_STALE_SESSION_MINUTES);
       await cleanupStaleClaims(db);
+      await expireClaimLeases(db);
+      await pruneMemoryRevisions(db);
 
       const forceNew = input.force_new ?? false;
       const reuse = (input.reuse ?? true) && !forceNew;
@@ -282,13 +493,14 @@ export async function handleSessionTool(
             name: input.name,
             machine_id: input.machine_id,
             user_id: userId,
+            worktree,
           })
         : null;
       let reused = false;
 
       if (session) {
         reused = true;
-        await updateSessionHeartbeat(db, session.id, {});
+        await updateSessionHeartbeat(db, session.id, { branch });
         session = (await getSession(db, session.id)) ?? session;
       } else {
         session = await createSession(db, {
@@ -296,6 +508,8 @@ export async function handleSessionTool(
           project_root: projectRoot,
           machine_id: input.machine_id,
           user_id: userId,
+          branch,
+          worktree,
         });
 
         await logAuditEvent(db, {
@@ -303,10 +517,19 @@ export async function handleSessionTool(
           action: 'session_started',
           entity_type: 'session',
           entity_id: session.id,
-          metadata: { project_root: projectRoot },
+          metadata: { project_root: projectRoot, branch: branch ?? undefined, worktree: worktree ?? undefined },
         });
       }
 
+      // Resuming the session that was just reused has nothing to move
+      const resumed =
+        resumeSource && resumeSource.session.id !== session.id
+          ? await resumeSession(db, resumeSource.session, session)
+          : null;
+      if (resumed) {
+        session = (await getSession(db, session.id)) ?? session;
+      }
+
       const activeSessions = await listSessions(db, { project_root: projectRoot, user_id: userId });
 
       // Opt-in context restore (default off) to avoid burning tokens on every start
@@ -317,39 +540,64 @@ export async function handleSessionTool(
         key: string;
         content: string;
       }> | null = null;
+      let restoreBudget: Record<string, unknown> | null = null;
 
       if (restoreContext && maxRestoreItems > 0) {
-        const allMemories: Array<{
+        const candidates: Array<{
           category: string;
           key: string;
           content: string;
+          pinned: number;
+          priority: number;
+          updated_at: string;
         }> = [];
         const perSessionCap = Math.min(10, maxRestoreItems);
+        // Project memories come back with every session of the project
+        const seen = new Set<number>();
 
         for (const otherSession of activeSessions) {
-          if (allMemories.length >= maxRestoreItems) break;
           const memories = await getActiveMemories(db, otherSession.id, {
             priority_threshold: 70,
             max_items: perSessionCap,
           });
           for (const mem of memories) {
-            allMemories.push({
+            if (seen.has(mem.id)) continue;
+            seen.add(mem.id);
+            candidates.push({
               category: mem.category,
               key: mem.key,
               content: mem.content,
+              pinned: mem.pinned,
+              priority: mem.priority,
+              updated_at: mem.updated_at,
             });
-            if (allMemories.length >= maxRestoreItems) break;
           }
         }
 
+        // Rank across sessions, so the cap and the budget keep the same notes whatever the session order
+        candidates.sort(
+          (a, b) => b.pinned - a.pinned || b.priority - a.priority || b.updated_at.localeCompare(a.updated_at)
+        );
+        let ranked = candidates.slice(0, maxRestoreItems);
+
+        if (input.max_tokens !== undefined) {
+          const fit = fitToTokenBudget(ranked, input.max_tokens);
+          ranked = fit.items;
+          restoreBudget = describeBudget(input.max_tokens, fit);
+        }
+
+        const allMemories = ranked.map(({ category, key, content }) => ({ category, key, content }));
         restoredContext = allMemories.length > 0 ? allMemories : null;
       }
 
       if (db.getStoragePath?.() !== ':memory:') {
+        // A resumed host session (e.g. after compaction) keeps its client id, so re-point it here
         bindClientSession(
           session.id,
-          projectRoot,
-          input.client_session_id ?? process.env.CLAUDE_SESSION_ID
+          worktree ?? projectRoot,
+          input.client_session_id ??
+            (resumeSource?.via_client_id ? input.resume_from : undefined) ??
+            process.env.CLAUDE_SESSION_ID
         );
       }
 
@@ -359,14 +607,24 @@ export async function handleSessionTool(
         session_id: session.id,
         name: session.name,
         project_root: projectRoot,
+        machine_id: session.machine_id,
+        user_id: session.user_id,
+        branch,
+        worktree,
         reused,
         active_sessions: activeSessions.length,
         restored_context: restoredContext,
+        ...(restoreBudget ? { restore_budget: restoreBudget } : {}),
+        ...(resumed
+          ? { resumed_from: resumed, current_task: session.current_task, todos: parseJsonField(session.todos) }
+          : {}),
         scope: 'local-machine',
         db_path: dbPath,
-        message: reused
-          ? `Session reused. ${activeSessions.length} active session(s). Same-machine SQLite only.`
-          : `Session started. ${activeSessions.length} active session(s). Same-machine SQLite only.`,
+        message: `${reused ? 'Session reused' : 'Session started'}.${
+          resumed
+            ? ` Resumed ${resumed.name ?? resumed.session_id}: ${(resumed.claims_adopted as string[]).length} claim(s), ${resumed.memories_adopted} memories.`
+            : ''
+        } ${activeSessions.length} active session(s). Same-machine SQLite only.`,
       });
     }
 
@@ -424,6 +682,87 @@ export async function handleSessionTool(
       });
     }
 
+    case 'collab_session_handoff': {
+      const validation = validateInput(sessionHandoffSchema, args);
+      if (!validation.success) {
+        return validationError(validation.error);
+      }
+      const input = validation.data;
+
+      const sessionResult = await validateSessionExists(db, input.session_id);
+      if (!sessionResult.valid) {
+        return sessionResult.error;
+      }
+      const session = sessionResult.session;
+      const ownerError = checkSessionUser(session, userId);
+      if (ownerError) {
+        return ownerError;
+      }
+
+      if (input.note) {
+        await saveMemory(db, session.id, {
+          category: 'state',
+          key: 'handoff_note',
+          content: input.note,
+          priority: 90,
+          pinned: true,
+        });
+      }
+
+      const claims = await listResumableClaims(db, session.id);
+      const waitingOn = await listQueue(db, { session_id: session.id });
+      const waiters = await listQueue(db, { owner_session_id: session.id });
+      const maxMemories = input.max_memories ?? 10;
+      const memories =
+        maxMemories > 0 ? await getActiveMemories(db, session.id, { priority_threshold: 60, max_items: maxMemories }) : [];
+      const openTodos = (parseJsonField<TodoItem[]>(session.todos) ?? []).filter((todo) => todo.status !== 'completed');
+
+      return successResponse({
+        session: {
+          id: session.id,
+          name: session.name,
+          status: session.status,
+          project_root: session.project_root,
+          branch: session.branch,
+          worktree: session.worktree,
+          current_task: session.current_task,
+          progress: parseJsonField(session.progress),
+          last_heartbeat: session.last_heartbeat,
+        },
+        todos: openTodos,
+        claims: claims.map((claim) => ({
+          claim_id: claim.id,
+          intent: claim.intent,
+          mode: claim.mode,
+          files: claim.files,
+          // Abandoned by stale cleanup; resume_from revives it if the files are still free
+          status: claim.status === 'active' ? 'active' : 'resumable',
+          expires_at: claim.expires_at,
+        })),
+        waiting_on: waitingOn.map((entry) => ({
+          claim_id: entry.claim_id,
+          owner_session_name: entry.claim_session_name,
+          position: entry.position,
+          intent: entry.intent,
+        })),
+        waiters: waiters.length,
+        memories: memories.map((memory) => ({
+          category: memory.category,
+          key: memory.key,
+          content: memory.content,
+        })),
+        resume: {
+          tool: 'collab_session_start',
+          arguments: {
+            project_root: session.worktree ?? session.project_root,
+            ...(session.name ? { name: session.name } : {}),
+            resume_from: session.id,
+          },
+        },
+        message: `Handoff for ${session.name ?? session.id}: ${claims.length} claim(s), ${openTodos.length} open todo(s), ${memories.length} memories. Start the next agent with resume_from=${session.id}.`,
+      });
+    }
+
     case 'collab_session_list': {
       const validation = validateInput(sessionListSchema, args);
       if (!validation.success) {
@@ -444,6 +783,10 @@ export async function handleSessionTool(
             id: session.id,
             name: session.name,
             status: session.status,
+            machine_id: session.machine_id,
+            user_id: session.user_id,
+            branch: session.branch,
+            worktree: session.worktree,
             current_task: session.current_task,
             progress: parseJsonField(session.progress),
             active_claims: session.active_claims,
@@ -472,6 +815,10 @@ export async function handleSessionTool(
             id: session.id,
             name: session.name,
             status: session.status,
+            machine_id: session.machine_id,
+            user_id: session.user_id,
+            branch: session.branch,
+            worktree: session.worktree,
             current_task: session.current_task,
             progress: parseJsonField(session.progress),
             todos: parseJsonField(session.todos),
@@ -546,14 +893,10 @@ export async function handleSessionTool(
       }
       const { session } = sessionResult;
 
-      let currentConfig: SessionConfig = DEFAULT_SESSION_CONFIG;
-      if (session.config) {
-        try {
-          currentConfig = { ...DEFAULT_SESSION_CONFIG, ...JSON.parse(session.config) };
-        } catch {
-          // Use default
-        }
-      }
+      const currentConfig: SessionConfig = {
+        ...DEFAULT_SESSION_CONFIG,
+        ...parseJsonField<Partial<SessionConfig>>(session.config),
+      };
 
       const newConfig: SessionConfig = {
         mode: input.mode ?? currentConfig.mode,
@@ -562,6 +905,8 @@ export async function handleSessionTool(
         stale_threshold_hours: input.stale_threshold_hours ?? currentConfig.stale_threshold_hours,
         auto_release_immediate: input.auto_release_immediate ?? currentConfig.auto_release_immediate,
         auto_release_delay_minutes: input.auto_release_delay_minutes ?? currentConfig.auto_release_delay_minutes,
+        deadlock_resolution: input.deadlock_resolution ?? currentConfig.deadlock_resolution,
+        allow_preemption: input.allow_preemption ?? currentConfig.allow_preemption,
       };
 
       await updateSessionConfig(db, input.session_id, newConfig);
@@ -590,6 +935,11 @@ export async function handleSessionTool(
       const coordination = await countCoordination(db, sessionId);
       const memories = await getActiveMemories(db, sessionId, { priority_threshold: 70, max_items: 10 });
       const allSessions = await listSessions(db, { project_root: session.project_root });
+      const config: SessionConfig = {
+        ...DEFAULT_SESSION_CONFIG,
+        ...parseJsonField<Partial<SessionConfig>>(session.config),
+      };
+      const deadlock = await detectDeadlock(db, sessionId, config.deadlock_resolution);
 
       const response: Record<string, unknown> = {
         session: {
@@ -604,6 +954,28 @@ export async function handleSessionTool(
         detail,
         message: `Session active. ${activeClaimCount} claim(s), ${memories.length} memories.`,
       };
+      if (deadlock) {
+        response.deadlock = formatDeadlock(deadlock);
+      }
+
+      // Open preempts are time-critical for the owner, so they are listed even without detail
+      const incomingPreempts = await listOpenPreemptRequests(db, { owner_session_id: sessionId });
+      const outgoingPreempts = await listOpenPreemptRequests(db, { requester_session_id: sessionId });
+      if (incomingPreempts.length > 0 || outgoingPreempts.length > 0) {
+        const formatPreempt = (request: PreemptRequest) => ({
+          preempt_id: request.id,
+          claim_id: request.claim_id,
+          requester_session_id: request.requester_session_id,
+          owner_session_id: request.owner_session_id,
+          intent: request.intent,
+          status: request.status,
+          deadline_at: request.deadline_at,
+        });
+        response.preempt_requests = {
+          incoming: incomingPreempts.map(formatPreempt),
+          outgoing: outgoingPreempts.map(formatPreempt),
+        };
+      }
 
       if (detail) {
         const claims = await listClaims(db, { session_id: sessionId, status: 'active' });
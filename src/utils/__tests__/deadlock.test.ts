@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTestDatabase, TestDatabase } from '../../db/__tests__/test-helper.js';
+import { createSession, updateSessionConfig } from '../../db/queries.js';
+import { DEFAULT_SESSION_CONFIG } from '../../db/types.js';
+import type { WaitForEdge } from '../../db/types.js';
+import { handleClaimTool } from '../../mcp/tools/claim.js';
+import { handleSessionTool } from '../../mcp/tools/session.js';
+import { findWaitCycle, pickYieldingEdge } from '../deadlock.js';
+
+function edge(waiter: string, owner: string, priority = 50, createdAt = '2026-01-01T00:00:00.000Z'): WaitForEdge {
+  return {
+    queue_id: `q-${waiter}-${owner}`,
+    waiter_session_id: waiter,
+    waiter_session_name: waiter,
+    claim_id: `claim-${owner}`,
+    owner_session_id: owner,
+    owner_session_name: owner,
+    claim_priority: priority,
+    claim_created_at: createdAt,
+    files: [`${owner}.ts`],
+  };
+}
+
+describe('wait-for cycles', () => {
+  it('finds the shortest cycle through a session', () => {
+    const edges = [edge('a', 'b'), edge('b', 'c'), edge('c', 'a'), edge('b', 'a')];
+
+    expect(findWaitCycle(edges, 'a')?.map((e) => e.waiter_session_id)).toEqual(['a', 'b']);
+  });
+
+  it('ignores chains that do not lead back', () => {
+    const edges = [edge('a', 'b'), edge('b', 'c'), edge('d', 'a')];
+
+    expect(findWaitCycle(edges, 'a')).toBeNull();
+  });
+
+  it('yields the lowest-priority or the youngest claim', () => {
+    const cycle = [
+      edge('a', 'b', 30, '2026-01-01T10:00:00.000Z'),
+      edge('b', 'a', 70, '2026-01-01T11:00:00.000Z'),
+    ];
+
+    expect(pickYieldingEdge(cycle, 'lowest_priority').owner_session_id).toBe('b');
+    expect(pickYieldingEdge(cycle, 'youngest_claim').owner_session_id).toBe('a');
+  });
+});
+
+describe('deadlock reporting', () => {
+  let db: TestDatabase;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  async function create(sessionId: string, file: string, priority: number): Promise<Record<string, unknown>> {
+    const result = await handleClaimTool(db, 'collab_claim', {
+      action: 'create',
+      session_id: sessionId,
+      files: [file],
+      intent: `edit ${file}`,
+      priority,
+    });
+    return JSON.parse(result.content[0].text) as Record<string, unknown>;
+  }
+
+  it('reports the cycle on create and in collab_status', async () => {
+    const alpha = await createSession(db, { project_root: '/test/project', name: 'alpha' });
+    const beta = await createSession(db, { project_root: '/test/project', name: 'beta' });
+    await create(alpha.id, 'src/a.ts', 80);
+    const betaClaim = await create(beta.id, 'src/b.ts', 20);
+
+    expect((await create(alpha.id, 'src/b.ts', 80)).deadlock).toBeUndefined();
+    const blocked = await create(beta.id, 'src/a.ts', 20);
+
+    expect(blocked.status).toBe('waiting_for_coordination');
+    expect(blocked.deadlock).toMatchObject({
+      resolution: 'lowest_priority',
+      yielding_session_id: beta.id,
+      yield_claim_id: betaClaim.claim_id,
+    });
+    const notification = await db
+      .prepare("SELECT title FROM notifications WHERE session_id = ? AND title = 'Deadlock detected'")
+      .bind(beta.id)
+      .first<{ title: string }>();
+    expect(notification).not.toBeNull();
+
+    await updateSessionConfig(db, alpha.id, { ...DEFAULT_SESSION_CONFIG, deadlock_resolution: 'youngest_claim' });
+    const status = await handleSessionTool(db, 'collab_status', { session_id: alpha.id });
+    const body = JSON.parse(status.content[0].text) as { deadlock?: { yielding_session_id: string; cycle: unknown[] } };
+    expect(body.deadlock?.cycle).toHaveLength(2);
+    expect(body.deadlock?.yielding_session_id).toBe(beta.id);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { detectGitCheckout, detectProjectKey, toProjectKey } from '../git.js';
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd });
+}
+
+describe('git checkout detection', () => {
+  let base: string;
+  let repo: string;
+  let worktree: string;
+
+  beforeAll(() => {
+    base = mkdtempSync(path.join(tmpdir(), 'collab-worktree-'));
+    repo = path.join(base, 'repo');
+    worktree = path.join(base, 'repo-feature');
+    mkdirSync(path.join(repo, 'pkg'), { recursive: true });
+    git(repo, 'init', '-q', '-b', 'main');
+    git(repo, 'commit', '-q', '--allow-empty', '-m', 'init');
+    git(repo, 'worktree', 'add', '-q', '-b', 'feature', worktree);
+  });
+
+  afterAll(() => {
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  it('describes the main worktree', async () => {
+    expect(await detectGitCheckout(repo)).toEqual({ project_root: repo, worktree: null, branch: 'main' });
+    expect(await detectGitCheckout(path.join(repo, 'pkg'))).toEqual({
+      project_root: path.join(repo, 'pkg'),
+      worktree: null,
+      branch: 'main',
+    });
+  });
+
+  it('maps a linked worktree back to the main worktree', async () => {
+    const checkout = await detectGitCheckout(worktree);
+    // git reports resolved paths (e.g. /private/tmp on macOS)
+    expect(checkout?.project_root).toBe(realpathSync(repo));
+    expect(checkout?.worktree).toBe(worktree);
+    expect(checkout?.branch).toBe('feature');
+  });
+
+  it('reports detached HEAD as no branch', async () => {
+    git(worktree, 'checkout', '-q', '--detach');
+    expect((await detectGitCheckout(worktree))?.branch).toBeNull();
+    git(worktree, 'checkout', '-q', 'feature');
+  });
+
+  it('returns null outside a repository', async () => {
+    expect(await detectGitCheckout(base)).toBeNull();
+    expect(await detectGitCheckout(path.join(base, 'missing'))).toBeNull();
+  });
+});
+
+describe('project keys', () => {
+  it('normalizes remote URL spellings to one key', () => {
+    expect(toProjectKey('git@github.com:Acme/App.git')).toBe('github.com/acme/app');
+    expect(toProjectKey('https://user@github.com/acme/app/')).toBe('github.com/acme/app');
+    expect(toProjectKey('ssh://git@gitlab.example.com:2222/group/sub/app.git')).toBe('gitlab.example.com/group/sub/app');
+  });
+
+  it('has no key for local remotes', () => {
+    expect(toProjectKey('/srv/git/app.git')).toBeNull();
+    expect(toProjectKey('file:///srv/git/app.git')).toBeNull();
+  });
+
+  it('adds the subdirectory of a checkout', async () => {
+    const repo = mkdtempSync(path.join(tmpdir(), 'collab-key-'));
+    try {
+      mkdirSync(path.join(repo, 'packages', 'api'), { recursive: true });
+      git(repo, 'init', '-q', '-b', 'main');
+      expect(await detectProjectKey(repo)).toBeNull();
+
+      git(repo, 'remote', 'add', 'origin', 'git@github.com:acme/mono.git');
+      expect(await detectProjectKey(repo)).toBe('github.com/acme/mono');
+      expect(await detectProjectKey(path.join(repo, 'packages', 'api'))).toBe('github.com/acme/mono#packages/api');
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+});
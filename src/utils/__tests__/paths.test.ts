@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
+  claimPathsOverlap,
+  isClaimPattern,
   normalizeClaimPath,
   normalizeClaimPaths,
   normalizeProjectRoot,
@@ -38,4 +40,40 @@ describe('path normalization', () => {
   it('rejects paths outside project root', () => {
     expect(() => normalizeClaimPath('/tmp/other.ts', root)).toThrow(PathNormalizationError);
   });
+
+  it('turns directory claims into recursive patterns', () => {
+    expect(normalizeClaimPath('src/db/', root)).toBe('src/db/**');
+    expect(normalizeClaimPath('/Users/me/project/src/db/', root)).toBe('src/db/**');
+    expect(normalizeClaimPath('./', root)).toBe('**');
+  });
+
+  it('normalizes the non-glob prefix of patterns', () => {
+    expect(normalizeClaimPath('/Users/me/project/src/**/*.ts', root)).toBe('src/**/*.ts');
+    expect(normalizeClaimPath('./src/db/*.ts', root)).toBe('src/db/*.ts');
+    expect(normalizeClaimPath('**/*.test.ts', root)).toBe('**/*.test.ts');
+    expect(() => normalizeClaimPath('/tmp/*.ts', root)).toThrow(PathNormalizationError);
+  });
+
+  it('only treats * and ? as wildcards', () => {
+    expect(isClaimPattern('src/**')).toBe(true);
+    expect(isClaimPattern('src/a?.ts')).toBe(true);
+    expect(isClaimPattern('app/[id]/page.tsx')).toBe(false);
+  });
+});
+
+describe('claim path overlap', () => {
+  it('matches files against patterns', () => {
+    expect(claimPathsOverlap('src/db/queries.ts', 'src/db/**')).toBe(true);
+    expect(claimPathsOverlap('src/http/server.ts', 'src/db/**')).toBe(false);
+    expect(claimPathsOverlap('src/a.ts', 'src/a.ts')).toBe(true);
+    expect(claimPathsOverlap('src/a.ts', 'src/b.ts')).toBe(false);
+  });
+
+  it('detects overlap between two patterns', () => {
+    expect(claimPathsOverlap('src/db/**', 'src/db/*.ts')).toBe(true);
+    expect(claimPathsOverlap('src/**/*.ts', '**/queries.ts')).toBe(true);
+    expect(claimPathsOverlap('src/?.ts', 'src/a*')).toBe(true);
+    expect(claimPathsOverlap('src/db/**', 'src/http/**')).toBe(false);
+    expect(claimPathsOverlap('src/*.ts', 'src/*.md')).toBe(false);
+  });
 });
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, mkdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  findEnclosingSymbols,
+  findSymbol,
+  indexFile,
+  indexSource,
+  isIndexableFile,
+  resolveSymbolClaims,
+} from '../symbol-index.js';
+
+const SOURCE = `import { x } from './x';
+
+export function createClaim(a: number): number {
+  const inner = () => a;
+  return inner();
+}
+
+export const DEFAULT_TTL = 30;
+
+export const releaseClaim = async (id: string) => {
+  return id;
+};
+
+export class ClaimStore {
+  private cache = new Map<string, number>();
+
+  constructor() {}
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  renew(id: string): void {
+    this.cache.set(id, 1);
+  }
+}
+
+export interface ClaimRow {
+  id: string;
+}
+`;
+
+describe('symbol index', () => {
+  it('recognizes TS/JS files', () => {
+    expect(isIndexableFile('src/a.ts')).toBe(true);
+    expect(isIndexableFile('src/App.jsx')).toBe(true);
+    expect(isIndexableFile('README.md')).toBe(false);
+  });
+
+  it('indexes top-level declarations and class members with types and line ranges', async () => {
+    const index = await indexSource('claims.ts', SOURCE);
+    const summary = index.map((s) => [s.container ? `${s.container}.${s.name}` : s.name, s.symbol_type]);
+
+    expect(summary).toEqual([
+      ['createClaim', 'function'],
+      ['DEFAULT_TTL', 'variable'],
+      ['releaseClaim', 'function'],
+      ['ClaimStore', 'class'],
+      ['ClaimStore.cache', 'variable'],
+      ['ClaimStore.constructor', 'method'],
+      ['ClaimStore.size', 'method'],
+      ['ClaimStore.renew', 'method'],
+      ['ClaimRow', 'other'],
+    ]);
+
+    const createClaim = findSymbol(index, 'createClaim');
+    expect(createClaim).toMatchObject({ start_line: 3, end_line: 6 });
+    expect(findSymbol(index, 'inner')).toBeUndefined();
+  });
+
+  it('finds methods by bare or qualified name', async () => {
+    const index = await indexSource('claims.ts', SOURCE);
+    expect(findSymbol(index, 'renew')?.container).toBe('ClaimStore');
+    expect(findSymbol(index, 'ClaimStore.renew')?.name).toBe('renew');
+  });
+
+  it('maps a line range to enclosing symbols, outermost first', async () => {
+    const index = await indexSource('claims.ts', SOURCE);
+
+    expect(findEnclosingSymbols(index, 4).map((s) => s.name)).toEqual(['createClaim']);
+    expect(findEnclosingSymbols(index, 24).map((s) => s.name)).toEqual(['ClaimStore', 'renew']);
+    expect(findEnclosingSymbols(index, 5, 8).map((s) => s.name)).toEqual(['createClaim', 'DEFAULT_TTL']);
+    expect(findEnclosingSymbols(index, 1)).toEqual([]);
+  });
+
+  it('parses JSX sources', async () => {
+    const index = await indexSource('App.tsx', 'export function App() {\n  return <div />;\n}\n');
+    expect(index.map((s) => s.name)).toEqual(['App']);
+  });
+
+  describe('files on disk', () => {
+    let root: string;
+
+    beforeAll(() => {
+      root = mkdtempSync(path.join(tmpdir(), 'collab-symbols-'));
+      mkdirSync(path.join(root, 'src'));
+      writeFileSync(path.join(root, 'src', 'claims.ts'), SOURCE);
+    });
+
+    afterAll(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('returns null for missing or non-TS/JS files', async () => {
+      expect(await indexFile(root, 'src/missing.ts')).toBeNull();
+      expect(await indexFile(root, 'README.md')).toBeNull();
+      expect(await indexFile(root, 'src/claims.ts')).not.toBeNull();
+    });
+
+    it('fills in symbol_type and groups symbols by type', async () => {
+      const { symbols, unknown } = await resolveSymbolClaims(root, [
+        { file: 'src/claims.ts', symbols: ['createClaim', 'ClaimStore.renew', 'releaseClaim'] },
+      ]);
+
+      expect(unknown).toEqual([]);
+      expect(symbols).toEqual([
+        { file: 'src/claims.ts', symbols: ['createClaim', 'releaseClaim'], symbol_type: 'function' },
+        { file: 'src/claims.ts', symbols: ['ClaimStore.renew'], symbol_type: 'method' },
+      ]);
+    });
+
+    it('reports unknown symbols with suggestions', async () => {
+      const { unknown } = await resolveSymbolClaims(root, [
+        { file: 'src/claims.ts', symbols: ['createClam'] },
+      ]);
+      expect(unknown).toEqual([{ file: 'src/claims.ts', symbol: 'createClam', suggestions: ['createClaim'] }]);
+    });
+
+    it('passes through files that cannot be indexed', async () => {
+      const input = [{ file: 'src/new-file.ts', symbols: ['notWrittenYet'] }];
+      const { symbols, unknown } = await resolveSymbolClaims(root, input);
+      expect(symbols).toEqual(input);
+      expect(unknown).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, fitToTokenBudget } from '../token-budget.js';
+import { MEMORY_TOKEN_OVERHEAD } from '../../constants.js';
+
+function memory(key: string, content: string): { category: string; key: string; content: string } {
+  return { category: 'finding', key, content };
+}
+
+describe('token estimates', () => {
+  it('counts about four Latin characters or one CJK character per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('abcdefghi')).toBe(3);
+    expect(estimateTokens('認証のバグ')).toBe(5);
+  });
+});
+
+describe('token budget fitting', () => {
+  const small = memory('a', 'x'.repeat(40)); // 1 + 10 content tokens
+  const large = memory('b', 'y'.repeat(400)); // 1 + 100 content tokens
+
+  it('keeps memories in order while they fit whole', () => {
+    const fit = fitToTokenBudget([small, small], 1000);
+
+    expect(fit.items).toEqual([small, small]);
+    expect(fit.used_tokens).toBe(2 * (MEMORY_TOKEN_OVERHEAD + 11));
+    expect(fit.omitted).toEqual([]);
+  });
+
+  it('shortens a memory to fill the rest of the budget', () => {
+    const fit = fitToTokenBudget([small, large, small], MEMORY_TOKEN_OVERHEAD * 2 + 11 + 51);
+
+    expect(fit.items.map((item) => item.key)).toEqual(['a', 'b']);
+    expect(fit.shortened).toEqual(['b']);
+    expect(fit.items[1].content.endsWith('…')).toBe(true);
+    expect(fit.used_tokens).toBeLessThanOrEqual(MEMORY_TOKEN_OVERHEAD * 2 + 11 + 51);
+    expect(fit.omitted).toEqual([{ category: 'finding', key: 'a', tokens: MEMORY_TOKEN_OVERHEAD + 11 }]);
+  });
+
+  it('skips a memory too large for a useful excerpt and keeps smaller ones after it', () => {
+    const fit = fitToTokenBudget([large, small], MEMORY_TOKEN_OVERHEAD + 20);
+
+    expect(fit.items).toEqual([small]);
+    expect(fit.omitted).toEqual([{ category: 'finding', key: 'b', tokens: MEMORY_TOKEN_OVERHEAD + 101 }]);
+  });
+});
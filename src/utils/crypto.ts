@@ -1,8 +1,27 @@
 // Cryptographic utilities
 
+import { createHash, randomBytes } from 'node:crypto';
+
+/** Prefix that marks per-user API tokens (vs. the shared SESSION_COLLAB_HTTP_TOKEN). */
+export const API_TOKEN_PREFIX = 'scm_';
+
 /**
  * Generate UUID v4
  */
 export function generateId(): string {
   return crypto.randomUUID();
 }
+
+/**
+ * Generate a per-user API token. Only its hash is stored; the plaintext is shown once.
+ */
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * SHA-256 hex digest used to store and look up API tokens
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,99 @@
+// Deadlock detection over the claim queue's wait-for graph
+// (session A waits on B's claim while B waits on one of A's).
+
+import type { DatabaseAdapter } from '../db/sqlite-adapter.js';
+import type { DeadlockResolution, WaitForEdge } from '../db/types.js';
+import { listWaitForEdges } from '../db/queries.js';
+
+export interface Deadlock {
+  /** Edges in wait order, starting with the session the search started from. */
+  cycle: WaitForEdge[];
+  resolution: DeadlockResolution;
+  /** Session asked to release its claim so the others can proceed. */
+  yielding_session_id: string;
+  yielding_session_name: string | null;
+  yield_claim_id: string;
+  yield_files: string[];
+}
+
+/** Shortest wait-for cycle through `sessionId`, or null when it is not deadlocked. */
+export function findWaitCycle(edges: WaitForEdge[], sessionId: string): WaitForEdge[] | null {
+  const outgoing = new Map<string, WaitForEdge[]>();
+  for (const edge of edges) {
+    const list = outgoing.get(edge.waiter_session_id) ?? [];
+    list.push(edge);
+    outgoing.set(edge.waiter_session_id, list);
+  }
+
+  // Breadth-first from sessionId; the first edge leading back to it closes the shortest cycle
+  const via = new Map<string, WaitForEdge>();
+  const frontier = [sessionId];
+  while (frontier.length > 0) {
+    const current = frontier.shift()!;
+    for (const edge of outgoing.get(current) ?? []) {
+      if (edge.owner_session_id === sessionId) {
+        const cycle = [edge];
+        for (let step = via.get(current); step; step = via.get(step.waiter_session_id)) {
+          cycle.unshift(step);
+        }
+        return cycle;
+      }
+      if (!via.has(edge.owner_session_id)) {
+        via.set(edge.owner_session_id, edge);
+        frontier.push(edge.owner_session_id);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Pick the claim holder that yields. Each edge's claim is held by a session in the cycle;
+ * `lowest_priority` picks the lowest claim priority, `youngest_claim` the most recent claim,
+ * each falling back to the other as a tie-breaker.
+ */
+export function pickYieldingEdge(cycle: WaitForEdge[], resolution: DeadlockResolution): WaitForEdge {
+  const byPriority = (a: WaitForEdge, b: WaitForEdge) => a.claim_priority - b.claim_priority;
+  const byAge = (a: WaitForEdge, b: WaitForEdge) => b.claim_created_at.localeCompare(a.claim_created_at);
+  const [first, second] = resolution === 'youngest_claim' ? [byAge, byPriority] : [byPriority, byAge];
+  return [...cycle].sort((a, b) => first(a, b) || second(a, b))[0];
+}
+
+export async function detectDeadlock(
+  db: DatabaseAdapter,
+  sessionId: string,
+  resolution: DeadlockResolution
+): Promise<Deadlock | null> {
+  const cycle = findWaitCycle(await listWaitForEdges(db), sessionId);
+  if (!cycle) {
+    return null;
+  }
+
+  const yielding = pickYieldingEdge(cycle, resolution);
+  return {
+    cycle,
+    resolution,
+    yielding_session_id: yielding.owner_session_id,
+    yielding_session_name: yielding.owner_session_name,
+    yield_claim_id: yielding.claim_id,
+    yield_files: yielding.files,
+  };
+}
+
+export function formatDeadlock(deadlock: Deadlock): Record<string, unknown> {
+  return {
+    cycle: deadlock.cycle.map((edge) => ({
+      session_id: edge.waiter_session_id,
+      session_name: edge.waiter_session_name,
+      waits_for_claim_id: edge.claim_id,
+      waits_for_session_id: edge.owner_session_id,
+    })),
+    resolution: deadlock.resolution,
+    yielding_session_id: deadlock.yielding_session_id,
+    yielding_session_name: deadlock.yielding_session_name,
+    yield_claim_id: deadlock.yield_claim_id,
+    message: `Deadlock: ${deadlock.cycle.length} session(s) wait on each other. ${
+      deadlock.yielding_session_name ?? deadlock.yielding_session_id
+    } should release claim ${deadlock.yield_claim_id} (${deadlock.resolution}).`,
+  };
+}
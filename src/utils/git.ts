@@ -0,0 +1,113 @@
+// Best-effort git checkout detection for branch/worktree-scoped sessions.
+
+import { execFile } from 'node:child_process';
+import { realpath } from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+export type GitCheckout = {
+  /** Repository-level project root: the same directory inside the main worktree. */
+  project_root: string;
+  /** The checkout path when it is a linked worktree, otherwise null. */
+  worktree: string | null;
+  /** Current branch, or null when HEAD is detached. */
+  branch: string | null;
+};
+
+async function gitOutput(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, timeout: 5000 });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Describe the git checkout containing `dir`, or null when it is not inside a work tree
+ * (or git is unavailable). Linked worktrees map back to the main worktree so every
+ * checkout of one repository shares a project_root.
+ */
+export async function detectGitCheckout(dir: string): Promise<GitCheckout | null> {
+  const location = await gitOutput(dir, [
+    'rev-parse',
+    '--path-format=absolute',
+    '--show-toplevel',
+    '--git-common-dir',
+  ]);
+  if (!location) {
+    return null;
+  }
+  const [topLevel, commonDir] = location.split('\n');
+  if (!topLevel || !commonDir) {
+    return null;
+  }
+
+  const branch = (await gitOutput(dir, ['symbolic-ref', '--short', '-q', 'HEAD'])) || null;
+
+  // Non-bare repositories keep their common dir at <main worktree>/.git
+  const mainRoot = path.basename(commonDir) === '.git' ? path.dirname(commonDir) : commonDir;
+  if (mainRoot === topLevel) {
+    return { project_root: dir, worktree: null, branch };
+  }
+
+  // git reports resolved paths, so compare against the resolved dir (e.g. macOS /tmp)
+  const relative = path.relative(topLevel, await realpath(dir));
+  return { project_root: path.join(mainRoot, relative), worktree: dir, branch };
+}
+
+/** URL of the `origin` remote (or the first remote) of the repository containing `dir`, or null. */
+export async function readGitRemoteUrl(dir: string): Promise<string | null> {
+  const origin = await gitOutput(dir, ['remote', 'get-url', 'origin']);
+  if (origin) {
+    return origin;
+  }
+  const [first] = ((await gitOutput(dir, ['remote'])) ?? '').split('\n').filter(Boolean);
+  return first ? await gitOutput(dir, ['remote', 'get-url', first]) : null;
+}
+
+/**
+ * Path-independent repository identity from a remote URL, so checkouts of one repository
+ * match across machines: `git@github.com:Acme/App.git` and `https://github.com/acme/app`
+ * both become `github.com/acme/app`. Local (file) remotes have no such identity: null.
+ */
+export function toProjectKey(remoteUrl: string): string | null {
+  const trimmed = remoteUrl.trim();
+  let host: string;
+  let repoPath: string;
+
+  const scpLike = /^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/.exec(trimmed);
+  if (scpLike && !trimmed.includes('://')) {
+    [, host, repoPath] = scpLike;
+  } else {
+    try {
+      const url = new URL(trimmed);
+      if (url.protocol === 'file:' || !url.hostname) {
+        return null;
+      }
+      host = url.hostname;
+      repoPath = url.pathname;
+    } catch {
+      return null;
+    }
+  }
+
+  const normalizedPath = repoPath.replace(/^\/+/, '').replace(/\/+$/, '').replace(/\.git$/, '');
+  return normalizedPath ? `${host}/${normalizedPath}`.toLowerCase() : null;
+}
+
+/**
+ * Project key for `dir`: its repository's remote identity, plus `#sub/dir` when `dir` is below
+ * the checkout's top level. Null outside git or without a non-local remote.
+ */
+export async function detectProjectKey(dir: string): Promise<string | null> {
+  const remote = await readGitRemoteUrl(dir);
+  const key = remote ? toProjectKey(remote) : null;
+  if (!key) {
+    return null;
+  }
+  const subdir = ((await gitOutput(dir, ['rev-parse', '--show-prefix'])) ?? '').replace(/\/+$/, '');
+  return subdir ? `${key}#${subdir}` : key;
+}
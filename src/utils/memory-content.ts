@@ -30,6 +30,21 @@ export function clampMemoryContent(
   };
 }
 
+/**
+ * Turn free text into an FTS5 match expression: each word is quoted (so punctuation and
+ * FTS operators in the text are inert) and words are OR-ed, leaving relevance to bm25.
+ * Returns null when the text has no searchable words.
+ */
+export function toMemorySearchQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) {
+    return null;
+  }
+  return Array.from(new Set(words.map((word) => word.toLowerCase())))
+    .map((word) => `"${word}"`)
+    .join(' OR ');
+}
+
 export function resolveRecallMaxItems(requested?: number): number {
   if (requested === undefined || Number.isNaN(requested)) {
     return DEFAULT_RECALL_MAX_ITEMS;
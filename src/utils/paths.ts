@@ -18,10 +18,46 @@ export function normalizeProjectRoot(projectRoot: string): string {
   return path.resolve(projectRoot);
 }
 
+/**
+ * Sessions started through a hub store a path-independent project key (`github.com/acme/app`)
+ * as project_root; their checkout lives on the client's machine, not this one.
+ */
+export function isProjectKey(projectRoot: string): boolean {
+  return !path.isAbsolute(projectRoot);
+}
+
+/**
+ * Claim globs use SQLite GLOB wildcards: `*` matches any run of characters (including `/`), `?` one character.
+ * Brackets are kept literal so route files like `app/[id]/page.tsx` stay plain paths.
+ */
+export function isClaimPattern(filePath: string): boolean {
+  return filePath.includes('*') || filePath.includes('?');
+}
+
+/** Escape brackets so SQLite GLOB treats them literally, matching isClaimPattern. */
+export function toSqlGlob(pattern: string): string {
+  return pattern.replace(/\[/g, '[[]');
+}
+
+function resolveRelative(filePath: string, root: string, original: string): string {
+  const absolute = path.isAbsolute(filePath)
+    ? path.normalize(filePath)
+    : path.normalize(path.join(root, filePath));
+
+  const relative = path.relative(root, absolute);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new PathNormalizationError(
+      `path is outside project_root: ${original}`
+    );
+  }
+  return relative === '.' ? '' : relative.split(path.sep).join('/');
+}
+
 /**
  * Normalize a claim file path relative to project_root.
  * Absolute paths under the root become relative; outside the root is rejected.
- * Glob patterns (`*`, `?`) are preserved after normalization of the non-glob prefix.
+ * Directory claims (`src/db/`) become `src/db/**`. For glob patterns only the
+ * non-glob prefix is normalized; the wildcard tail is kept as written.
  */
 export function normalizeClaimPath(filePath: string, projectRoot: string): string {
   if (!filePath || filePath.includes('\0')) {
@@ -32,36 +68,99 @@ export function normalizeClaimPath(filePath: string, projectRoot: string): strin
   }
 
   const root = normalizeProjectRoot(projectRoot);
-  const trimmed = filePath.trim();
+  let trimmed = filePath.trim().split(path.sep).join('/');
   if (!trimmed) {
     throw new PathNormalizationError('file path is empty');
   }
 
-  // Glob-only patterns stay as-is (normalized separators)
-  if (trimmed.startsWith('**') || trimmed === '*' || trimmed.startsWith('*/')) {
-    return trimmed.split(path.sep).join('/');
+  if (trimmed.endsWith('/')) {
+    trimmed = `${trimmed.replace(/\/+$/, '')}/**`;
   }
 
-  let absolute: string;
-  if (path.isAbsolute(trimmed)) {
-    absolute = path.normalize(trimmed);
-  } else {
-    absolute = path.normalize(path.join(root, trimmed));
+  if (!isClaimPattern(trimmed)) {
+    const relative = resolveRelative(trimmed, root, filePath);
+    // Empty relative means the project root itself — not a useful claim path
+    if (!relative) {
+      throw new PathNormalizationError(`path must be a file under project_root: ${filePath}`);
+    }
+    return relative;
   }
 
-  const relative = path.relative(root, absolute);
-  if (relative.startsWith('..') || path.isAbsolute(relative)) {
-    throw new PathNormalizationError(
-      `path is outside project_root: ${filePath}`
-    );
+  // Split at the last separator before the first wildcard: `src/db/*.ts` → `src/db` + `*.ts`
+  const firstWildcard = trimmed.search(/[*?]/);
+  const splitAt = trimmed.lastIndexOf('/', firstWildcard);
+  const prefix = splitAt === -1 ? '' : trimmed.slice(0, splitAt);
+  const tail = splitAt === -1 ? trimmed : trimmed.slice(splitAt + 1);
+  const relativePrefix = splitAt === -1 ? '' : resolveRelative(prefix || '/', root, filePath);
+
+  const normalizedTail = tail
+    .split('/')
+    .filter((segment) => segment !== '' && segment !== '.')
+    .join('/');
+  if (!normalizedTail) {
+    throw new PathNormalizationError(`file path is invalid: ${filePath}`);
   }
 
-  // Empty relative means the project root itself — not a useful claim path
-  if (!relative || relative === '.') {
-    throw new PathNormalizationError(`path must be a file under project_root: ${filePath}`);
+  return relativePrefix ? `${relativePrefix}/${normalizedTail}` : normalizedTail;
+}
+
+type GlobToken = '*' | '?' | { char: string };
+
+function tokenizeClaimPath(claimPath: string): GlobToken[] {
+  const tokens: GlobToken[] = [];
+  for (const char of claimPath) {
+    if (char === '*') {
+      // Consecutive stars (`**`) match the same strings as one
+      if (tokens[tokens.length - 1] !== '*') {
+        tokens.push('*');
+      }
+    } else if (char === '?') {
+      tokens.push('?');
+    } else {
+      tokens.push({ char });
+    }
   }
+  return tokens;
+}
+
+/**
+ * True when some file path could be matched by both claim paths.
+ * Works for any mix of literal paths and patterns, e.g. `src/db/**` vs `src/db/*.ts`.
+ */
+export function claimPathsOverlap(a: string, b: string): boolean {
+  if (!isClaimPattern(a) && !isClaimPattern(b)) {
+    return a === b;
+  }
+
+  const left = tokenizeClaimPath(a);
+  const right = tokenizeClaimPath(b);
+  const memo = new Map<number, boolean>();
+
+  const overlap = (i: number, j: number): boolean => {
+    const key = i * (right.length + 1) + j;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let result = false;
+    if (i === left.length && j === right.length) {
+      result = true;
+    } else if (left[i] === '*' && (overlap(i + 1, j) || (j < right.length && overlap(i, j + 1)))) {
+      // Star on the left matches nothing, or swallows the right's next token
+      result = true;
+    } else if (right[j] === '*' && (overlap(i, j + 1) || (i < left.length && overlap(i + 1, j)))) {
+      result = true;
+    } else if (i < left.length && j < right.length && left[i] !== '*' && right[j] !== '*') {
+      const l = left[i];
+      const r = right[j];
+      const sameChar = l === '?' || r === '?' || (typeof l === 'object' && typeof r === 'object' && l.char === r.char);
+      result = sameChar && overlap(i + 1, j + 1);
+    }
+
+    memo.set(key, result);
+    return result;
+  };
 
-  return relative.split(path.sep).join('/');
+  return overlap(0, 0);
 }
 
 export function normalizeClaimPaths(files: string[], projectRoot: string): string[] {
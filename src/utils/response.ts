@@ -20,6 +20,9 @@ export const ERROR_CODES = {
   QUEUE_ENTRY_NOT_FOUND: 'QUEUE_ENTRY_NOT_FOUND',
   ALREADY_IN_QUEUE: 'ALREADY_IN_QUEUE',
   CANNOT_QUEUE_OWN_CLAIM: 'CANNOT_QUEUE_OWN_CLAIM',
+  // Preemption error codes
+  PREEMPTION_NOT_ALLOWED: 'PREEMPTION_NOT_ALLOWED',
+  PREEMPT_NOT_FOUND: 'PREEMPT_NOT_FOUND',
   // Notification error codes
   NOTIFICATION_NOT_FOUND: 'NOTIFICATION_NOT_FOUND',
   // Release error codes
@@ -27,7 +30,10 @@ export const ERROR_CODES = {
   // Memory error codes
   MEMORY_NOT_FOUND: 'MEMORY_NOT_FOUND',
   MEMORY_TOO_LONG: 'MEMORY_TOO_LONG',
+  MEMORY_CONFLICT: 'MEMORY_CONFLICT',
   UNKNOWN_TOOL: 'UNKNOWN_TOOL',
+  // Hub mode error codes
+  HUB_UNAVAILABLE: 'HUB_UNAVAILABLE',
 } as const;
 
 export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
@@ -0,0 +1,229 @@
+// Symbol index for TS/JS sources, used to validate and locate symbol claims.
+// Parses with the TypeScript compiler API (syntax only, no type-checking, works offline).
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type * as TS from 'typescript';
+import type { SymbolClaim, SymbolType } from '../db/types.js';
+
+const INDEXABLE_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+
+export type IndexedSymbol = {
+  name: string;
+  symbol_type: SymbolType;
+  /** 1-based, inclusive line range of the declaration. */
+  start_line: number;
+  end_line: number;
+  /** Enclosing class for methods and class properties. */
+  container: string | null;
+};
+
+export type UnknownSymbol = {
+  file: string;
+  symbol: string;
+  suggestions: string[];
+};
+
+let typescriptModule: Promise<typeof TS> | null = null;
+
+// Loaded lazily: the compiler is large and most tool calls never need it
+function loadTypeScript(): Promise<typeof TS> {
+  typescriptModule ??= import('typescript').then(
+    (mod) => ((mod as { default?: typeof TS }).default ?? mod) as typeof TS
+  );
+  return typescriptModule;
+}
+
+export function isIndexableFile(filePath: string): boolean {
+  return INDEXABLE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+function scriptKindFor(ts: typeof TS, fileName: string): TS.ScriptKind {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function variableSymbolType(ts: typeof TS, initializer: TS.Expression | undefined): SymbolType {
+  if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+    return 'function';
+  }
+  if (initializer && ts.isClassExpression(initializer)) {
+    return 'class';
+  }
+  return 'variable';
+}
+
+/**
+ * Index top-level declarations and class members of one source file.
+ * Function bodies are not descended into: nested helpers are part of their enclosing symbol.
+ */
+export async function indexSource(fileName: string, sourceText: string): Promise<IndexedSymbol[]> {
+  const ts = await loadTypeScript();
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    sourceText,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKindFor(ts, fileName)
+  );
+  const symbols: IndexedSymbol[] = [];
+  const lineOf = (pos: number): number => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+
+  const add = (name: string, symbolType: SymbolType, node: TS.Node, container: string | null): void => {
+    symbols.push({
+      name,
+      symbol_type: symbolType,
+      start_line: lineOf(node.getStart(sourceFile)),
+      end_line: lineOf(node.getEnd()),
+      container,
+    });
+  };
+
+  const indexClassMembers = (node: TS.ClassLikeDeclaration, className: string): void => {
+    for (const member of node.members) {
+      if (ts.isConstructorDeclaration(member)) {
+        add('constructor', 'method', member, className);
+      } else if (
+        (ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) &&
+        ts.isIdentifier(member.name)
+      ) {
+        add(member.name.text, 'method', member, className);
+      } else if (ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name)) {
+        const isFunction = variableSymbolType(ts, member.initializer) === 'function';
+        add(member.name.text, isFunction ? 'method' : 'variable', member, className);
+      }
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      add(statement.name.text, 'function', statement, null);
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      add(statement.name.text, 'class', statement, null);
+      indexClassMembers(statement, statement.name.text);
+    } else if (ts.isVariableStatement(statement)) {
+      const declarations = statement.declarationList.declarations;
+      for (const declaration of declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue;
+        // Single declarations span the whole statement so `export const` lines map to the symbol
+        const node = declarations.length === 1 ? statement : declaration;
+        add(declaration.name.text, variableSymbolType(ts, declaration.initializer), node, null);
+        if (declaration.initializer && ts.isClassExpression(declaration.initializer)) {
+          indexClassMembers(declaration.initializer, declaration.name.text);
+        }
+      }
+    } else if (
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)
+    ) {
+      add(statement.name.text, 'other', statement, null);
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Index a project file by its normalized (project-relative) path.
+ * Returns null when the file is not TS/JS or cannot be read (e.g. it does not exist yet).
+ */
+export async function indexFile(projectRoot: string, relativePath: string): Promise<IndexedSymbol[] | null> {
+  if (!isIndexableFile(relativePath)) {
+    return null;
+  }
+
+  let sourceText: string;
+  try {
+    sourceText = await readFile(path.join(projectRoot, relativePath), 'utf8');
+  } catch {
+    return null;
+  }
+  return indexSource(relativePath, sourceText);
+}
+
+/** Look up a claimed name; methods match both `method` and `Class.method`. */
+export function findSymbol(index: IndexedSymbol[], name: string): IndexedSymbol | undefined {
+  return index.find(
+    (symbol) => symbol.name === name || (symbol.container !== null && `${symbol.container}.${symbol.name}` === name)
+  );
+}
+
+/** Every symbol whose declaration overlaps the 1-based line range, outermost first. */
+export function findEnclosingSymbols(index: IndexedSymbol[], startLine: number, endLine = startLine): IndexedSymbol[] {
+  return index
+    .filter((symbol) => symbol.start_line <= endLine && symbol.end_line >= startLine)
+    .sort((a, b) => a.start_line - b.start_line || b.end_line - a.end_line);
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(above + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function suggestSymbols(index: IndexedSymbol[], name: string): string[] {
+  const maxDistance = Math.max(2, Math.floor(name.length / 4));
+  return Array.from(new Set(index.map((symbol) => symbol.name)))
+    .map((candidate) => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    .filter((entry) => entry.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map((entry) => entry.candidate);
+}
+
+/**
+ * Validate symbol claims against the files on disk and fill in symbol_type.
+ * Files that are not TS/JS or do not exist yet are passed through unchanged.
+ * Claims without an explicit symbol_type are split into one group per detected type.
+ */
+export async function resolveSymbolClaims(
+  projectRoot: string,
+  symbols: SymbolClaim[]
+): Promise<{ symbols: SymbolClaim[]; unknown: UnknownSymbol[] }> {
+  const resolved: SymbolClaim[] = [];
+  const unknown: UnknownSymbol[] = [];
+
+  for (const claim of symbols) {
+    const index = await indexFile(projectRoot, claim.file);
+    if (!index) {
+      resolved.push(claim);
+      continue;
+    }
+
+    const byType = new Map<SymbolType, string[]>();
+    for (const name of claim.symbols) {
+      const match = findSymbol(index, name);
+      if (!match) {
+        unknown.push({ file: claim.file, symbol: name, suggestions: suggestSymbols(index, name) });
+        continue;
+      }
+      const symbolType = claim.symbol_type ?? match.symbol_type;
+      byType.set(symbolType, [...(byType.get(symbolType) ?? []), name]);
+    }
+
+    for (const [symbolType, names] of byType) {
+      resolved.push({ file: claim.file, symbols: names, symbol_type: symbolType });
+    }
+  }
+
+  return { symbols: resolved, unknown };
+}
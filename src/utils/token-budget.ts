@@ -0,0 +1,88 @@
+// Token estimates and budget fitting for memory recall and context restore
+
+import { MEMORY_TOKEN_OVERHEAD, MIN_SHORTENED_MEMORY_TOKENS } from '../constants.js';
+import { clampMemoryContent } from './memory-content.js';
+
+// CJK, kana and hangul usually cost about a token per character
+const WIDE_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Rough, tokenizer-free token count: about four characters per token for Latin text
+ * and one per CJK character. Errs high so budgets are not overrun.
+ */
+export function estimateTokens(text: string): number {
+  if (text.length === 0) {
+    return 0;
+  }
+  const wide = text.match(WIDE_CHAR_PATTERN)?.length ?? 0;
+  return wide + Math.ceil((text.length - wide) / 4);
+}
+
+export type BudgetedMemory = { category: string; key: string; content: string };
+
+export type TokenBudgetResult<T extends BudgetedMemory> = {
+  /** Memories that fit, in input order; shortened ones carry clamped content. */
+  items: T[];
+  used_tokens: number;
+  /** Keys whose content was cut to fit the remaining budget. */
+  shortened: string[];
+  /** Memories left out entirely, with the tokens they would have cost. */
+  omitted: Array<{ category: string; key: string; tokens: number }>;
+};
+
+function memoryTokens(memory: BudgetedMemory): number {
+  return MEMORY_TOKEN_OVERHEAD + estimateTokens(memory.key) + estimateTokens(memory.content);
+}
+
+/**
+ * Fill `maxTokens` greedily in input order (callers sort by pinned, priority, recency).
+ * A memory that does not fit whole is shortened when enough budget is left for a useful
+ * excerpt; otherwise it is skipped and smaller ones after it may still fit.
+ */
+export function fitToTokenBudget<T extends BudgetedMemory>(memories: T[], maxTokens: number): TokenBudgetResult<T> {
+  const result: TokenBudgetResult<T> = { items: [], used_tokens: 0, shortened: [], omitted: [] };
+
+  for (const memory of memories) {
+    const tokens = memoryTokens(memory);
+    const remaining = maxTokens - result.used_tokens;
+
+    if (tokens <= remaining) {
+      result.items.push(memory);
+      result.used_tokens += tokens;
+      continue;
+    }
+
+    const contentBudget = remaining - MEMORY_TOKEN_OVERHEAD - estimateTokens(memory.key);
+    if (contentBudget >= MIN_SHORTENED_MEMORY_TOKENS) {
+      // Shrink by characters until the estimate fits; wide text needs more than one pass
+      let maxChars = contentBudget * 4;
+      let content = clampMemoryContent(memory.content, maxChars).content;
+      while (estimateTokens(content) > contentBudget && maxChars > 1) {
+        maxChars = Math.floor(maxChars * 0.8);
+        content = clampMemoryContent(memory.content, maxChars).content;
+      }
+      const shortened = { ...memory, content };
+      result.items.push(shortened);
+      result.used_tokens += memoryTokens(shortened);
+      result.shortened.push(memory.key);
+      continue;
+    }
+
+    result.omitted.push({ category: memory.category, key: memory.key, tokens });
+  }
+
+  return result;
+}
+
+/** Budget summary for responses. */
+export function describeBudget<T extends BudgetedMemory>(
+  maxTokens: number,
+  fit: TokenBudgetResult<T>
+): Record<string, unknown> {
+  return {
+    max_tokens: maxTokens,
+    used_tokens: fit.used_tokens,
+    ...(fit.shortened.length > 0 ? { shortened: fit.shortened } : {}),
+    ...(fit.omitted.length > 0 ? { omitted: fit.omitted } : {}),
+  };
+}
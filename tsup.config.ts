@@ -5,14 +5,15 @@ const legacyEntry = process.env.SESSION_COLLAB_INCLUDE_LEGACY === 'true'
   : [];
 
 export default defineConfig({
-  entry: ['src/cli.ts', 'src/http/cli.ts', 'src/http/client-cli.ts', 'src/hooks/pretool-claim.ts', ...legacyEntry],
+  entry: ['src/cli.ts', 'src/http/cli.ts', 'src/http/client-cli.ts', 'src/hooks/pretool-claim.ts', 'src/hooks/posttool-release.ts', ...legacyEntry],
   format: ['esm'],
   target: 'node18',
   outDir: 'dist',
   clean: true,
   sourcemap: true,
   // better-sqlite3 is native module, keep as external
-  external: ['better-sqlite3'],
+  // typescript is large and only loaded on demand by the symbol indexer
+  external: ['better-sqlite3', 'typescript'],
   // Bundle everything else
   noExternal: ['zod'],
   shims: true,